@@ -0,0 +1,158 @@
+import type { JiraFieldSchema } from "./jira-client";
+
+// ─── Auto-fill Rules ──────────────────────────────────────────────────────────
+//
+// Which fields the extension fills in by itself, and with what. Rules are plain
+// data so teams can replace the built-in ones from the workflow config file.
+
+/**
+ * When a rule is considered:
+ * - `screen`: fields on the transition screen, before the first attempt
+ * - `rejected`: fields Jira reported missing after rejecting the transition
+ * - `always`: set on every matching transition, whether Jira asks for the field or not
+ * - `preflight`: checked before a run to Done; empty fields are filled, unfillable ones reported
+ */
+export type AutoFillStage = "screen" | "rejected" | "always" | "preflight";
+
+export const AUTO_FILL_STAGES: AutoFillStage[] = ["screen", "rejected", "always", "preflight"];
+
+export type RolePreference = "developerAssignee" | "reviewerAssignee" | "qaAssignee";
+
+export const ROLE_PREFERENCES: RolePreference[] = ["developerAssignee", "reviewerAssignee", "qaAssignee"];
+
+export type AutoFillValue =
+  | "today"
+  | "currentUser"
+  /** The person in an assignee preference (the current user when it is empty) for user fields, the raw value otherwise. */
+  | { preference: RolePreference }
+  /** Another field's value on the same issue, by name or ID. */
+  | { field: string }
+  | { constant: string };
+
+export interface AutoFillRule {
+  /**
+   * Field to fill: a field ID, a case-insensitive part of the field name, or `/regex/` on the name.
+   * `always` and `preflight` rules need the exact field name or ID, since Jira does not list those fields for us.
+   * Leave out (together with `type`) to match every field.
+   */
+  field?: string;
+  /** Jira schema type the field must have ("date", "user", …). */
+  type?: string;
+  /** Only when moving to one of these statuses. */
+  statuses?: string[];
+  /** Only for these issue types. */
+  issueTypes?: string[];
+  /** Defaults to `screen` and `rejected`. */
+  when?: AutoFillStage[];
+  value: AutoFillValue;
+}
+
+/** What the extension has always done for the built-in workflows. */
+export const DEFAULT_AUTO_FILL_RULES: AutoFillRule[] = [
+  { field: "Dev Start Date", statuses: ["Doing", "Developing"], when: ["always"], value: "today" },
+  { field: "Dev Start Date", when: ["preflight"], value: { field: "Planned Dev Start Date" } },
+  { field: "Dev Due Date", when: ["preflight"], value: { field: "Planned Dev Due Date" } },
+  { field: "developer", value: { preference: "developerAssignee" } },
+  { field: "reviewer", value: { preference: "reviewerAssignee" } },
+  { field: "qa", value: { preference: "qaAssignee" } },
+  { field: "date", value: "today" },
+  { type: "date", value: "today" },
+  { when: ["rejected"], value: "currentUser" },
+];
+
+export function ruleStages(rule: AutoFillRule): AutoFillStage[] {
+  return rule.when ?? ["screen", "rejected"];
+}
+
+/** Does the rule's field pattern and type match this field? */
+export function ruleMatchesField(
+  rule: AutoFillRule,
+  field: { id: string; name: string; schema?: JiraFieldSchema },
+): boolean {
+  if (rule.type && rule.type !== field.schema?.type) return false;
+  if (!rule.field) return true;
+  if (rule.field === field.id) return true;
+  const regex = patternRegex(rule.field);
+  if (regex) return regex.test(field.name);
+  return field.name.toLowerCase().includes(rule.field.toLowerCase());
+}
+
+function patternRegex(pattern: string): RegExp | null {
+  const m = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return m ? new RegExp(m[1], m[2] || "i") : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim() !== "");
+}
+
+/**
+ * Validate the `autoFill` section of a workflow config file, pushing problems onto `problems`.
+ */
+export function validateAutoFillRules(raw: unknown, problems: string[]): AutoFillRule[] {
+  if (!Array.isArray(raw)) {
+    problems.push("autoFill: must be an array of rules");
+    return [];
+  }
+
+  const rules: AutoFillRule[] = [];
+  raw.forEach((entry: unknown, i: number) => {
+    const at = `autoFill[${i}]`;
+    if (!isRecord(entry)) {
+      problems.push(`${at}: must be an object`);
+      return;
+    }
+    const before = problems.length;
+
+    if (entry.field !== undefined && !(typeof entry.field === "string" && entry.field.trim())) {
+      problems.push(`${at}.field: must be a field name, ID or /regex/`);
+    } else if (typeof entry.field === "string" && entry.field.startsWith("/")) {
+      try {
+        patternRegex(entry.field);
+      } catch (e: unknown) {
+        problems.push(`${at}.field: invalid regex (${e instanceof Error ? e.message : String(e)})`);
+      }
+    }
+    if (entry.type !== undefined && typeof entry.type !== "string") problems.push(`${at}.type: must be a string`);
+    if (entry.statuses !== undefined && !isStringList(entry.statuses)) {
+      problems.push(`${at}.statuses: must be an array of status names`);
+    }
+    if (entry.issueTypes !== undefined && !isStringList(entry.issueTypes)) {
+      problems.push(`${at}.issueTypes: must be an array of issue type names`);
+    }
+
+    const when = entry.when;
+    if (when !== undefined) {
+      if (!isStringList(when) || when.some((s) => !AUTO_FILL_STAGES.includes(s as AutoFillStage))) {
+        problems.push(`${at}.when: must be a list of ${AUTO_FILL_STAGES.join(", ")}`);
+      } else if (
+        when.some((s) => s === "always" || s === "preflight") &&
+        (typeof entry.field !== "string" || entry.field.startsWith("/"))
+      ) {
+        problems.push(`${at}.field: "always" and "preflight" rules need an exact field name or ID`);
+      }
+    }
+
+    const value = entry.value;
+    const validValue =
+      value === "today" ||
+      value === "currentUser" ||
+      (isRecord(value) &&
+        Object.keys(value).length === 1 &&
+        ((typeof value.preference === "string" && ROLE_PREFERENCES.includes(value.preference as RolePreference)) ||
+          (typeof value.field === "string" && value.field.trim() !== "") ||
+          typeof value.constant === "string"));
+    if (!validValue) {
+      problems.push(
+        `${at}.value: expected today, currentUser, { preference: ${ROLE_PREFERENCES.join(" | ")} }, { field: <name> } or { constant: <value> }`,
+      );
+    }
+
+    if (problems.length === before) rules.push(entry as unknown as AutoFillRule);
+  });
+  return rules;
+}
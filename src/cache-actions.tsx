@@ -0,0 +1,19 @@
+import { Action, Icon, showToast, Toast } from "@raycast/api";
+import { clearJiraCache } from "./cache";
+
+/**
+ * "Clear Jira Cache" action: forgets cached fields, users, transitions and project statuses so they are fetched again.
+ */
+export function ClearJiraCacheAction({ onCleared }: Readonly<{ onCleared: () => void }>) {
+  return (
+    <Action
+      title="Clear Jira Cache"
+      icon={Icon.Trash}
+      onAction={async () => {
+        await clearJiraCache();
+        await showToast({ style: Toast.Style.Success, title: "Jira cache cleared" });
+        onCleared();
+      }}
+    />
+  );
+}
@@ -0,0 +1,92 @@
+import { LocalStorage } from "@raycast/api";
+
+// ─── Metadata Cache ───────────────────────────────────────────────────────────
+//
+// Jira metadata that rarely changes (fields, users, transitions, project statuses), kept in
+// LocalStorage so it survives between command launches. Every entry expires
+// after its TTL; "Clear Jira Cache" drops them all at once.
+
+const PREFIX = "cache:";
+
+const HOUR = 60 * 60 * 1000;
+
+export const CACHE_TTL = {
+  fields: 24 * HOUR,
+  currentUser: 24 * HOUR,
+  users: 24 * HOUR,
+  transitions: 6 * HOUR,
+  projectStatuses: 24 * HOUR,
+};
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/** Entries already read or written during this run, so LocalStorage is parsed once per key. */
+const memory = new Map<string, CacheEntry<unknown>>();
+
+function isFresh(entry: CacheEntry<unknown> | undefined): entry is CacheEntry<unknown> {
+  return !!entry && entry.expiresAt > Date.now();
+}
+
+async function readEntry(key: string): Promise<CacheEntry<unknown> | undefined> {
+  if (memory.has(key)) return memory.get(key);
+  const stored = await LocalStorage.getItem<string>(PREFIX + key);
+  if (stored === undefined) return undefined;
+  try {
+    const entry = JSON.parse(stored) as CacheEntry<unknown>;
+    memory.set(key, entry);
+    return entry;
+  } catch {
+    await LocalStorage.removeItem(PREFIX + key);
+    return undefined;
+  }
+}
+
+export async function getCached<T>(key: string): Promise<T | undefined> {
+  const entry = await readEntry(key);
+  return isFresh(entry) ? (entry.value as T) : undefined;
+}
+
+export async function setCached<T>(key: string, value: T, ttlMs: number): Promise<void> {
+  const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+  memory.set(key, entry);
+  await LocalStorage.setItem(PREFIX + key, JSON.stringify(entry));
+}
+
+/** The cached value for `key`, or `load()`'s result, stored for `ttlMs`. Failed loads are not cached. */
+export async function cached<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const hit = await getCached<T>(key);
+  if (hit !== undefined) return hit;
+  const value = await load();
+  await setCached(key, value, ttlMs);
+  return value;
+}
+
+/** Fresh entries whose key starts with `prefix`, keyed by the rest of the key. */
+export async function getCachedByPrefix<T>(prefix: string): Promise<Record<string, T>> {
+  const result: Record<string, T> = {};
+  for (const storedKey of Object.keys(await LocalStorage.allItems())) {
+    if (!storedKey.startsWith(PREFIX + prefix)) continue;
+    const key = storedKey.slice(PREFIX.length);
+    const entry = await readEntry(key);
+    if (isFresh(entry)) result[key.slice(prefix.length)] = entry.value as T;
+  }
+  return result;
+}
+
+/** Drop every entry whose key starts with `prefix`. */
+export async function invalidateCached(prefix: string): Promise<void> {
+  for (const key of [...memory.keys()]) {
+    if (key.startsWith(prefix)) memory.delete(key);
+  }
+  for (const storedKey of Object.keys(await LocalStorage.allItems())) {
+    if (storedKey.startsWith(PREFIX + prefix)) await LocalStorage.removeItem(storedKey);
+  }
+}
+
+/** Drop the whole cache, for every server. Other LocalStorage items (like the active profile) stay. */
+export async function clearJiraCache(): Promise<void> {
+  await invalidateCached("");
+}
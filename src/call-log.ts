@@ -0,0 +1,86 @@
+import { LocalStorage } from "@raycast/api";
+
+// ─── Call Log ─────────────────────────────────────────────────────────────────
+//
+// The last few jira-cli and REST calls, kept in LocalStorage so "Jira: Diagnostics"
+// can show what another command just did. Secrets are redacted before anything is
+// stored; bodies are cut short.
+
+const STORAGE_KEY = "callLog";
+
+/** Calls kept; older ones are dropped. */
+export const CALL_LOG_SIZE = 50;
+
+const BODY_LIMIT = 500;
+
+export interface CallRecord {
+  /** ISO timestamp of when the call started. */
+  at: string;
+  via: "cli" | "rest";
+  /** "GET /issue/PROJ-1" or "jira issue move PROJ-1 Doing". */
+  command: string;
+  /** HTTP status or process exit code; undefined when there was no answer at all. */
+  status?: number;
+  ok: boolean;
+  durationMs: number;
+  /** Response body or CLI output (errors first), redacted. */
+  body?: string;
+}
+
+/** Writes queued one after the other, so concurrent calls do not overwrite each other's entries. */
+let writes: Promise<void> = Promise.resolve();
+
+async function readLog(): Promise<CallRecord[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Remember a call. Never throws; a diagnostics log must not break the call it describes. */
+export function recordCall(record: CallRecord): void {
+  const entry: CallRecord = {
+    ...record,
+    command: redact(record.command),
+    body: record.body === undefined ? undefined : redact(record.body).slice(0, BODY_LIMIT),
+  };
+  writes = writes
+    .then(async () => {
+      const log = await readLog();
+      log.push(entry);
+      await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(log.slice(-CALL_LOG_SIZE)));
+    })
+    .catch(() => {});
+}
+
+/** Recorded calls, oldest first. */
+export async function getRecentCalls(): Promise<CallRecord[]> {
+  await writes;
+  return readLog();
+}
+
+export async function clearCallLog(): Promise<void> {
+  await writes;
+  await LocalStorage.removeItem(STORAGE_KEY);
+}
+
+/** Secrets the log must never contain (the configured API token), registered by whoever knows them. */
+const secrets = new Set<string>();
+
+export function registerSecret(secret: string | undefined): void {
+  if (secret && secret.length >= 4) secrets.add(secret);
+}
+
+/** Strip credentials and personal data: known secrets, Authorization values, tokens in JSON, email addresses. */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) result = result.replaceAll(secret, "«redacted»");
+  return result
+    .replaceAll(/\b(Bearer|Basic)\s+[\w+/=.-]+/gi, "$1 «redacted»")
+    .replaceAll(/("(?:token|password|apiToken|accessToken)"\s*:\s*)"[^"]*"/gi, '$1"«redacted»"')
+    .replaceAll(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, "«email»");
+}
@@ -0,0 +1,67 @@
+import { Action, ActionPanel, Icon, showToast, Toast } from "@raycast/api";
+import { chainRunTarget, removeChainRun, type ChainRun } from "./chain-runs";
+
+/** "Resume" and "Discard" for a move that was cut short part-way along. */
+export function InterruptedRunActions({
+  run,
+  onResume,
+  onDiscarded,
+}: Readonly<{ run: ChainRun; onResume: () => void; onDiscarded: () => void }>) {
+  return (
+    <ActionPanel.Section title="Interrupted Move">
+      <Action title={`Resume Move to ${chainRunTarget(run)}`} icon={Icon.Play} onAction={onResume} />
+      <Action
+        title="Discard Interrupted Move"
+        icon={Icon.Trash}
+        style={Action.Style.Destructive}
+        onAction={async () => {
+          await removeChainRun(run);
+          await showToast({
+            style: Toast.Style.Success,
+            title: `Discarded the move of ${run.ticketKey}`,
+            message: "The ticket stays where it is.",
+          });
+          onDiscarded();
+        }}
+      />
+    </ActionPanel.Section>
+  );
+}
+
+/** "Cancel After This Hop" and "Pause Before…" for a move that is running. */
+export function RunningMoveActions({
+  upcoming,
+  pauseBefore,
+  onCancel,
+  onPause,
+}: Readonly<{
+  /** Steps after the hop in flight; the ones a pause can be set before. */
+  upcoming: string[];
+  pauseBefore?: string;
+  onCancel: () => void;
+  onPause: (status: string | undefined) => void;
+}>) {
+  return (
+    <ActionPanel.Section title="Running Move">
+      <Action
+        title="Cancel After This Hop"
+        icon={Icon.Stop}
+        shortcut={{ modifiers: ["ctrl"], key: "c" }}
+        onAction={onCancel}
+      />
+      {upcoming.length > 0 && (
+        <ActionPanel.Submenu title="Pause Before…" icon={Icon.Pause}>
+          {upcoming.map((status) => (
+            <Action
+              key={status}
+              title={status}
+              icon={status === pauseBefore ? Icon.CheckCircle : Icon.Circle}
+              onAction={() => onPause(status)}
+            />
+          ))}
+          {pauseBefore && <Action title="Don't Pause" icon={Icon.XMarkCircle} onAction={() => onPause(undefined)} />}
+        </ActionPanel.Submenu>
+      )}
+    </ActionPanel.Section>
+  );
+}
@@ -0,0 +1,164 @@
+import { LocalStorage } from "@raycast/api";
+import { getJiraServer, normalizeStatus } from "./utils";
+
+// ─── Interrupted Runs ─────────────────────────────────────────────────────────
+//
+// Multi-step moves in flight, saved after every hop. When a run is cut short
+// (Raycast closed, a missing-fields form abandoned, a hop refused) the ticket is
+// left part-way along; the saved run lets the next launch resume it from wherever
+// the ticket ended up, or discard it.
+
+const STORAGE_KEY = "chainRuns";
+
+export interface ChainRun {
+  ticketKey: string;
+  /** Jira the run was made against; it is only offered while that server is in effect. */
+  server: string;
+  /** Status before the first hop. */
+  fromStatus: string;
+  /** The full path in order, passed steps included; the last one is where the run is headed. */
+  steps: string[];
+  /** Statuses reached so far. */
+  completedSteps: string[];
+  /** Auto-fill context of the run: fill empty dev dates from planned dates before Done. */
+  fillDevDates: boolean;
+  /** ISO timestamps of the first hop and of the last change. */
+  startedAt: string;
+  updatedAt: string;
+  /** Step the run stopped at and why; unset while hops keep going through. */
+  failedAt?: string;
+  error?: string;
+  /** Set when the run stopped before `failedAt` because it was asked to, not because the hop failed. */
+  stop?: ChainRunStop;
+}
+
+export type ChainRunStop = "cancelled" | "paused";
+
+export type NewChainRun = Pick<ChainRun, "ticketKey" | "fromStatus" | "steps" | "fillDevDates">;
+
+export function chainRunTarget(run: Pick<ChainRun, "steps" | "fromStatus">): string {
+  return run.steps.at(-1) ?? run.fromStatus;
+}
+
+/** Writes queued one after the other, so two commands saving at once do not lose a run. */
+let writes: Promise<unknown> = Promise.resolve();
+
+async function readRuns(): Promise<ChainRun[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function updateRuns(change: (runs: ChainRun[]) => ChainRun[]): Promise<void> {
+  const next = writes.then(async () => {
+    const runs = change(await readRuns());
+    if (runs.length > 0) await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+    else await LocalStorage.removeItem(STORAGE_KEY);
+  });
+  writes = next.catch(() => {});
+  return next;
+}
+
+function isSameTicket(run: ChainRun, server: string, ticketKey: string): boolean {
+  return run.server === server && run.ticketKey.toUpperCase() === ticketKey.toUpperCase();
+}
+
+function saveChainRun(run: ChainRun): Promise<void> {
+  run.updatedAt = new Date().toISOString();
+  const saved = { ...run };
+  return updateRuns((runs) => [...runs.filter((r) => !isSameTicket(r, run.server, run.ticketKey)), saved]);
+}
+
+/**
+ * Save a run about to make its first hop. An interrupted run of the same ticket towards the same
+ * status carries on: its start and passed steps are kept, and `move.steps` become the rest of its path.
+ */
+export async function startChainRun(move: NewChainRun): Promise<ChainRun> {
+  const server = getJiraServer();
+  const now = new Date().toISOString();
+  const previous = await getChainRun(move.ticketKey);
+  const run: ChainRun =
+    previous && normalizeStatus(chainRunTarget(previous)) === normalizeStatus(chainRunTarget(move))
+      ? {
+          ...previous,
+          steps: [...previous.completedSteps, ...move.steps],
+          failedAt: undefined,
+          error: undefined,
+          stop: undefined,
+        }
+      : { ...move, server, completedSteps: [], startedAt: now, updatedAt: now };
+  await saveChainRun(run);
+  return run;
+}
+
+/** A hop went through: the ticket is now in `status`, with `rest` still to go (re-planned or not). */
+export function recordChainRunHop(run: ChainRun, status: string, rest: string[]): Promise<void> {
+  run.completedSteps = [...run.completedSteps, status];
+  run.steps = [...run.completedSteps, ...rest];
+  run.failedAt = undefined;
+  run.error = undefined;
+  run.stop = undefined;
+  return saveChainRun(run);
+}
+
+/** The run stopped at `failedAt`; it stays saved so it can be resumed. */
+export function recordChainRunFailure(run: ChainRun, failedAt: string, error: string): Promise<void> {
+  run.failedAt = failedAt;
+  run.error = error;
+  run.stop = undefined;
+  return saveChainRun(run);
+}
+
+/** The run was cancelled or paused before `stoppedBefore`; it stays saved so it can be resumed. */
+export function recordChainRunStop(run: ChainRun, stoppedBefore: string, stop: ChainRunStop): Promise<void> {
+  run.failedAt = stoppedBefore;
+  run.error = undefined;
+  run.stop = stop;
+  return saveChainRun(run);
+}
+
+/** Forget a run: it finished, was handed to the offline queue, or was discarded. */
+export async function removeChainRun(run: Pick<ChainRun, "server" | "ticketKey">): Promise<void> {
+  await updateRuns((runs) => runs.filter((r) => !isSameTicket(r, run.server, run.ticketKey)));
+}
+
+export async function clearChainRuns(): Promise<void> {
+  await updateRuns(() => []);
+}
+
+/** Saved runs on the current server, newest first. */
+export async function getChainRuns(): Promise<ChainRun[]> {
+  await writes;
+  const server = getJiraServer();
+  return (await readRuns()).filter((r) => r.server === server).reverse();
+}
+
+export async function getChainRun(ticketKey: string): Promise<ChainRun | null> {
+  await writes;
+  const server = getJiraServer();
+  return (await readRuns()).find((r) => isSameTicket(r, server, ticketKey)) ?? null;
+}
+
+/**
+ * The ticket's interrupted run, to offer for resuming. A run whose ticket already reached the
+ * target (moved by hand or from another command) is forgotten instead.
+ */
+export async function getInterruptedRun(issue: { key: string; status: string }): Promise<ChainRun | null> {
+  const run = await getChainRun(issue.key);
+  if (run && normalizeStatus(issue.status) === normalizeStatus(chainRunTarget(run))) {
+    await removeChainRun(run);
+    return null;
+  }
+  return run;
+}
+
+/** "Waiting → Doing → Integration, stopped before 1ST REVIEW" for list subtitles and toasts. */
+export function describeChainRun(run: ChainRun): string {
+  const passed = [run.fromStatus, ...run.completedSteps].join(" → ");
+  return `${passed}, ${run.stop ?? "stopped"} before ${run.failedAt ?? run.steps[run.completedSteps.length] ?? chainRunTarget(run)}`;
+}
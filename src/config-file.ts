@@ -0,0 +1,51 @@
+import { readFileSync, statSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// ─── Config Files ─────────────────────────────────────────────────────────────
+//
+// The workflow config and the profiles file are both user-edited JSON or YAML
+// files named in the preferences. They are read on almost every command, so the
+// validated contents are kept until the file is saved again.
+
+/** Error class of one kind of config file, listing everything wrong with it. */
+export type ConfigFileErrorClass = new (path: string, problems: string[]) => Error;
+
+const loaded = new Map<string, { mtimeMs: number; validate: unknown; value: unknown }>();
+
+/**
+ * Read `path` as YAML (.yaml, .yml) or JSON and pass the result through `validate`, which throws
+ * for invalid contents. A missing or unparsable file throws `ErrorClass` with a single problem.
+ * Re-reads the file only once its modification time changes.
+ */
+export function loadConfigFile<T>(
+  path: string,
+  validate: (raw: unknown, path: string) => T,
+  ErrorClass: ConfigFileErrorClass,
+): T {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    throw new ErrorClass(path, ["file does not exist or is not readable"]);
+  }
+  const previous = loaded.get(path);
+  if (previous && previous.mtimeMs === mtimeMs && previous.validate === validate) return previous.value as T;
+
+  const text = readFileSync(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = isYamlPath(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (e: unknown) {
+    throw new ErrorClass(path, [`could not parse file: ${e instanceof Error ? e.message : String(e)}`]);
+  }
+
+  const value = validate(raw, path);
+  loaded.set(path, { mtimeMs, validate, value });
+  return value;
+}
+
+function isYamlPath(path: string): boolean {
+  const ext = extname(path).toLowerCase();
+  return ext === ".yaml" || ext === ".yml";
+}
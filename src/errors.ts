@@ -0,0 +1,119 @@
+// ─── Jira Errors ──────────────────────────────────────────────────────────────
+//
+// Every failure talking to Jira, whether it came from the REST client or from
+// jira-cli, surfaces as one of these. Callers branch on the class, not on text.
+
+export class JiraError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "JiraError";
+  }
+}
+
+/** Credentials missing, wrong or expired (HTTP 401). */
+export class AuthError extends JiraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AuthError";
+  }
+}
+
+/** Authenticated, but not allowed to do this (HTTP 403). */
+export class PermissionError extends JiraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "PermissionError";
+  }
+}
+
+/** Jira is throttling us (HTTP 429). */
+export class RateLimitError extends JiraError {
+  constructor(
+    message: string,
+    /** From the Retry-After header, when Jira sent one. */
+    readonly retryAfterMs?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "RateLimitError";
+  }
+}
+
+/** Jira or a proxy in front of it is overloaded or restarting (HTTP 502, 503, 504). */
+export class UnavailableError extends JiraError {
+  constructor(
+    message: string,
+    /** From the Retry-After header, when Jira sent one. */
+    readonly retryAfterMs?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "UnavailableError";
+  }
+}
+
+/** The request never got an answer (DNS, refused connection, VPN down, …). */
+export class NetworkError extends JiraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NetworkError";
+  }
+}
+
+/** No answer within the timeout. */
+export class TimeoutError extends NetworkError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+export interface MissingField {
+  name: string;
+  /** Field ID, when Jira reported it (e.g. "customfield_11516"). */
+  id?: string;
+}
+
+/** The transition or update needs fields that are not set. */
+export class MissingFieldsError extends JiraError {
+  constructor(
+    readonly issueKey: string,
+    readonly fields: MissingField[],
+    options?: ErrorOptions,
+  ) {
+    super(`${issueKey} needs ${fields.map((f) => f.name).join(", ")} before it can move.`, options);
+    this.name = "MissingFieldsError";
+  }
+
+  get fieldNames(): string[] {
+    return this.fields.map((f) => f.name);
+  }
+}
+
+/** No transition from the issue's current status leads to the requested one. */
+export class NoTransitionError extends JiraError {
+  constructor(
+    readonly issueKey: string,
+    readonly targetStatus: string,
+    /** Names of the transitions Jira does offer. */
+    readonly available: string[],
+    options?: ErrorOptions,
+  ) {
+    super(
+      `No matching transition to "${targetStatus}" for ${issueKey}. Available: ${available.join(", ") || "none"}`,
+      options,
+    );
+    this.name = "NoTransitionError";
+  }
+}
+
+/** Toast title for a failure, by kind; `fallback` for anything else. */
+export function failureTitle(error: unknown, fallback: string): string {
+  if (error instanceof AuthError) return "Jira rejected your credentials";
+  if (error instanceof PermissionError) return "Not allowed by Jira";
+  if (error instanceof RateLimitError) return "Jira rate limit reached";
+  if (error instanceof UnavailableError) return "Jira is unavailable";
+  if (error instanceof NetworkError) return "Can't reach Jira";
+  if (error instanceof NoTransitionError) return "No transition available";
+  return fallback;
+}
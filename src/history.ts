@@ -0,0 +1,139 @@
+import { LocalStorage } from "@raycast/api";
+
+// ─── Transition History ───────────────────────────────────────────────────────
+//
+// What the extension did to which ticket: every transition, assignment and field
+// update, successful or not, kept in LocalStorage for "Jira: Transition History".
+
+const STORAGE_KEY = "transitionHistory";
+
+/** Entries kept; older ones are dropped. */
+export const HISTORY_SIZE = 500;
+
+export type HistoryKind = "transition" | "assignment" | "fields";
+
+export interface HistoryEntry {
+  /** ISO timestamp of when the change started. */
+  at: string;
+  server: string;
+  ticketKey: string;
+  kind: HistoryKind;
+  fromStatus?: string;
+  /** Status a transition aimed for. */
+  toStatus?: string;
+  /** ID of the Jira transition used; jira-cli moves by name and does not report it. */
+  transitionId?: string;
+  /** Fields set, as "Field → value": auto-filled with a transition, or entered in a form. */
+  fields?: string[];
+  /** Display names before and after an assignment ("" for unassigned). */
+  assignee?: { from: string; to: string };
+  durationMs: number;
+  ok: boolean;
+  error?: string;
+}
+
+/** Writes queued one after the other, so concurrent changes do not overwrite each other's entries. */
+let writes: Promise<void> = Promise.resolve();
+
+async function readHistory(): Promise<HistoryEntry[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Remember a change. Never throws; the history must not break the change it describes. */
+export function recordHistory(entry: HistoryEntry): void {
+  writes = writes
+    .then(async () => {
+      const history = await readHistory();
+      history.push(entry);
+      await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(-HISTORY_SIZE)));
+    })
+    .catch(() => {});
+}
+
+/** Recorded changes, oldest first. */
+export async function getHistory(): Promise<HistoryEntry[]> {
+  await writes;
+  return readHistory();
+}
+
+export async function clearHistory(): Promise<void> {
+  await writes;
+  await LocalStorage.removeItem(STORAGE_KEY);
+}
+
+// ─── Filtering and Export ─────────────────────────────────────────────────────
+
+export interface HistoryFilter {
+  ticketKey?: string;
+  /** Matches transitions from or to this status. */
+  status?: string;
+  /** Only entries at or after this time. */
+  since?: Date;
+}
+
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const status = filter.status?.toUpperCase();
+  return entries.filter(
+    (e) =>
+      (!filter.ticketKey || e.ticketKey.toUpperCase() === filter.ticketKey.toUpperCase()) &&
+      (!status || e.fromStatus?.toUpperCase() === status || e.toStatus?.toUpperCase() === status) &&
+      (!filter.since || Date.parse(e.at) >= filter.since.getTime()),
+  );
+}
+
+/** One line for lists and toasts: "Doing → Integration", "Assigned to Quinn QA", "Set Story Points → 3". */
+export function describeEntry(entry: HistoryEntry): string {
+  switch (entry.kind) {
+    case "transition":
+      return `${entry.fromStatus ?? "?"} → ${entry.toStatus ?? "?"}`;
+    case "assignment":
+      return entry.assignee?.to ? `Assigned to ${entry.assignee.to}` : "Unassigned";
+    case "fields":
+      return `Set ${(entry.fields ?? []).join(", ")}`;
+  }
+}
+
+const CSV_COLUMNS = [
+  "at",
+  "server",
+  "ticketKey",
+  "kind",
+  "fromStatus",
+  "toStatus",
+  "transitionId",
+  "fields",
+  "assigneeFrom",
+  "assigneeTo",
+  "durationMs",
+  "ok",
+  "error",
+] as const;
+
+function csvCell(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((e) => {
+    const row: Partial<Record<(typeof CSV_COLUMNS)[number], string | number | boolean>> = {
+      ...e,
+      fields: e.fields?.join("; "),
+      assigneeFrom: e.assignee?.from,
+      assigneeTo: e.assignee?.to,
+    };
+    return CSV_COLUMNS.map((column) => csvCell(row[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries, null, 2) + "\n";
+}
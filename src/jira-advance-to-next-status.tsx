@@ -9,9 +9,12 @@ import {
   Clipboard,
   openExtensionPreferences,
   LaunchProps,
+  LaunchType,
+  launchCommand,
   useNavigation,
+  Icon,
 } from "@raycast/api";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   resolveTicketKey,
   getIssueDetails,
@@ -22,19 +25,72 @@ import {
   getWorkflowForType,
   getTransitionPathToTarget,
   normalizeStatus,
-  autoFillDevDates,
-  parseMissingFieldsFromError,
+  autoFillBeforeDone,
   isDocType,
+  getWorkflowConfig,
+  discoverWorkflows,
+  projectOfKey,
+  getJiraServer,
+  withIssueSnapshots,
   type JiraIssue,
   type WorkflowStep,
 } from "./utils";
 import MissingFieldsForm from "./missing-fields-form";
+import { failureTitle, MissingFieldsError } from "./errors";
+import { ClearJiraCacheAction } from "./cache-actions";
+import { SwitchProfileSubmenu } from "./profile-actions";
+import { restoreActiveProfile } from "./profiles";
+import { isSetupNeeded, restoreSetup } from "./setup";
+import SetupForm from "./setup-form";
+import { showingRetries } from "./retry";
+import { queueIfOffline, showQueuedInToast } from "./transition-queue";
+import { checkHop, describeRoute, planRouteWithToast, type HopOutcome } from "./transition-planner";
+import TransitionPlan from "./transition-plan";
+import { offerUndoInToast } from "./undo";
+import { UndoLastMoveAction } from "./undo-actions";
+import {
+  chainRunTarget,
+  describeChainRun,
+  getChainRuns,
+  getInterruptedRun,
+  recordChainRunFailure,
+  recordChainRunHop,
+  recordChainRunStop,
+  removeChainRun,
+  startChainRun,
+  type ChainRun,
+} from "./chain-runs";
+import { InterruptedRunActions, RunningMoveActions } from "./chain-run-actions";
 
 type TransitionState =
   | { phase: "idle" }
-  | { phase: "running"; currentTransition: string; completedSteps: string[]; totalSteps: number }
+  | {
+      phase: "running";
+      currentTransition: string;
+      completedSteps: string[];
+      totalSteps: number;
+      /** Steps after the one in flight. */
+      upcoming: string[];
+      pauseBefore?: string;
+      /** Cancel was pressed; the move stops once the hop in flight is through. */
+      cancelling?: boolean;
+    }
   | { phase: "done" }
-  | { phase: "error"; failedAt: string; completedSteps: string[]; error: string };
+  | {
+      phase: "cancelled" | "paused";
+      /** Step the move stopped before; the rest is saved as an interrupted move. */
+      stoppedBefore: string;
+      completedSteps: string[];
+      remaining: string[];
+    }
+  | {
+      phase: "error";
+      failedAt: string;
+      completedSteps: string[];
+      error: string;
+      /** Jira was unreachable; the rest of the move waits in the offline queue. */
+      queued?: boolean;
+    };
 
 export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: Arguments.JiraAdvanceToNextStatus }>>) {
   const [issue, setIssue] = useState<JiraIssue | null>(null);
@@ -42,28 +98,48 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
   const [loading, setLoading] = useState(true);
   const [transition, setTransition] = useState<TransitionState>({ phase: "idle" });
   const [needsTicketInput, setNeedsTicketInput] = useState(false);
+  const [unavailableFields, setUnavailableFields] = useState<string[]>([]);
+  const [interrupted, setInterrupted] = useState<ChainRun | null>(null);
+  const [pendingRuns, setPendingRuns] = useState<ChainRun[]>([]);
+  const cancelRequested = useRef(false);
+  const pauseBefore = useRef<string | undefined>(undefined);
   const { push } = useNavigation();
 
   useEffect(() => {
     load();
   }, []);
 
+  /** Remember fields auto-fill had to skip because this Jira does not have them; shown in the metadata. */
+  function noteUnavailable(fields: string[]) {
+    if (fields.length > 0) setUnavailableFields((prev) => [...new Set([...prev, ...fields])]);
+  }
+
   async function load(overrideKey?: string) {
     setLoading(true);
     setError(null);
     setNeedsTicketInput(false);
     try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      if (isSetupNeeded(getJiraServer())) {
+        push(<SetupForm onDone={() => load(overrideKey)} />);
+        return;
+      }
+      getWorkflowConfig();
       const argKey = overrideKey || props.arguments.ticketKey;
       if (!argKey?.trim()) {
         const clipText = (await Clipboard.readText())?.trim() || "";
         if (!/^[A-Z]+-\d+$/i.test(clipText)) {
+          setPendingRuns(await getChainRuns());
           setNeedsTicketInput(true);
           return;
         }
       }
       const key = await resolveTicketKey(argKey);
       const details = await getIssueDetails(key);
+      await discoverWorkflows([projectOfKey(key)]);
       setIssue(details);
+      setInterrupted(await getInterruptedRun(details));
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -71,93 +147,265 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
     }
   }
 
-  async function runChainedTransitions(startIssue: JiraIssue, path: WorkflowStep[]) {
+  function requestCancel() {
+    cancelRequested.current = true;
+    setTransition((t) => (t.phase === "running" ? { ...t, cancelling: true } : t));
+  }
+
+  function requestPause(status: string | undefined) {
+    pauseBefore.current = status;
+    setTransition((t) => (t.phase === "running" ? { ...t, pauseBefore: status } : t));
+  }
+
+  /** Before each hop, the first included: stop when Cancel was pressed, or when `next` is the step to pause before. */
+  function stopBefore(next: WorkflowStep): "cancelled" | "paused" | null {
+    if (cancelRequested.current) return "cancelled";
+    if (pauseBefore.current && normalizeStatus(pauseBefore.current) === normalizeStatus(next.status)) return "paused";
+    return null;
+  }
+
+  async function runChainedTransitions(startIssue: JiraIssue, path: WorkflowStep[], pauseAt?: string) {
     if (path.length === 0) return;
 
+    const target = path.at(-1)!;
     const completedSteps: string[] = [];
     let current = startIssue;
+    let remaining = path;
+    let totalSteps = path.length;
+    let replans = 0;
+    const fillDevDates = target.status === "Done" && !isDocType(startIssue.type);
+    const showRunning = () =>
+      setTransition({
+        phase: "running",
+        currentTransition: remaining[0].status,
+        completedSteps,
+        totalSteps,
+        upcoming: remaining.slice(1).map((s) => s.status),
+        pauseBefore: pauseBefore.current,
+        cancelling: cancelRequested.current,
+      });
 
-    setTransition({ phase: "running", currentTransition: path[0].status, completedSteps, totalSteps: path.length });
-
-    for (let i = 0; i < path.length; i++) {
-      const next = path[i];
+    cancelRequested.current = false;
+    pauseBefore.current = pauseAt;
+    setInterrupted(null);
+    const run = await startChainRun({
+      ticketKey: startIssue.key,
+      fromStatus: startIssue.status,
+      steps: path.map((s) => s.status),
+      fillDevDates,
+    });
+    showRunning();
+
+    while (remaining.length > 0) {
+      const next = remaining[0];
+
+      const stop = stopBefore(next);
+      if (stop) {
+        await recordChainRunStop(run, next.status, stop);
+        setInterrupted({ ...run });
+        setTransition({
+          phase: stop,
+          stoppedBefore: next.status,
+          completedSteps,
+          remaining: remaining.map((s) => s.status),
+        });
+        await showToast({
+          style: Toast.Style.Success,
+          title: stop === "paused" ? `${startIssue.key} paused before ${next.status}` : `Stopped ${startIssue.key}`,
+          message: `Now: ${current.status}. Resume the move when you are ready.`,
+        });
+        return;
+      }
 
       const toast = await showToast({
         style: Toast.Style.Animated,
         title: `Moving ${startIssue.key}`,
-        message: `${i + 1}/${path.length}: ${current.status} → ${next.status}`,
+        message: `${completedSteps.length + 1}/${totalSteps}: ${current.status} → ${next.status}`,
       });
 
-      setTransition({ phase: "running", currentTransition: next.status, completedSteps, totalSteps: path.length });
+      showRunning();
 
+      let hop: HopOutcome;
       try {
-        await transitionIssue(current.key, next.status);
-        completedSteps.push(`${next.emoji} ${next.status}`);
-        
-        toast.style = Toast.Style.Success;
-        toast.title = `Moved to ${next.status}`;
+        hop = await showingRetries(toast, async () => {
+          noteUnavailable((await transitionIssue(current.key, next.status)).unavailable);
+          return checkHop(current.key, next.status, target.status, replans);
+        });
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : String(e);
-        const missingFields = parseMissingFieldsFromError(msg);
-        
-        if (missingFields.length > 0) {
+
+        if (e instanceof MissingFieldsError) {
           toast.hide();
+          await recordChainRunFailure(run, next.status, msg);
+          const from = current;
+          const rest = remaining;
           push(
             <MissingFieldsForm
               issueKey={current.key}
-              missingFields={missingFields}
+              missingFields={e.fields}
+              targetStatus={next.status}
               onComplete={() => {
-                void runChainedTransitions(current, path.slice(i));
+                void withIssueSnapshots(() => runChainedTransitions(from, rest, pauseBefore.current));
               }}
             />,
           );
           return;
         }
-        
-        toast.style = Toast.Style.Failure;
-        toast.title = "Transition failed";
-        toast.message = msg;
-        
-        setTransition({ phase: "error", failedAt: next.status, completedSteps, error: msg });
+
+        const queued = await queueIfOffline(e, {
+          ticketKey: current.key,
+          fromStatus: current.status,
+          steps: remaining.map((s) => s.status),
+          fillDevDates,
+        });
+        if (queued) {
+          // The offline queue replays the rest of the move
+          await removeChainRun(run);
+          showQueuedInToast(toast, current.key);
+        } else {
+          await recordChainRunFailure(run, next.status, msg);
+          toast.style = Toast.Style.Failure;
+          toast.title = failureTitle(e, "Transition failed");
+          toast.message = msg;
+        }
+
+        setTransition({ phase: "error", failedAt: next.status, completedSteps, error: msg, queued });
         return;
       }
 
-      current = { ...current, status: next.status };
+      current = { ...current, status: hop.issue.status, assignee: hop.issue.assignee };
       setIssue(current);
+
+      if (hop.kind === "on-track") {
+        completedSteps.push(`${next.emoji} ${next.status}`);
+        remaining = remaining.slice(1);
+        await recordChainRunHop(
+          run,
+          next.status,
+          remaining.map((s) => s.status),
+        );
+        toast.style = Toast.Style.Success;
+        toast.title = `Moved to ${next.status}`;
+        continue;
+      }
+
+      completedSteps.push(`⚠️ ${hop.issue.status} (expected ${next.status})`);
+      if (hop.kind === "arrived") break;
+
+      if (hop.kind === "stuck") {
+        await recordChainRunFailure(run, next.status, hop.reason);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Landed on an unexpected status";
+        toast.message = hop.reason;
+        setTransition({ phase: "error", failedAt: next.status, completedSteps, error: hop.reason });
+        return;
+      }
+
+      replans++;
+      remaining = hop.route.steps;
+      await recordChainRunHop(
+        run,
+        hop.issue.status,
+        remaining.map((s) => s.status),
+      );
+      totalSteps = completedSteps.length + remaining.length;
+      toast.style = Toast.Style.Success;
+      toast.title = `Re-planned from ${hop.issue.status}`;
+      toast.message = describeRoute(hop.issue.status, hop.route);
     }
 
+    await removeChainRun(run);
     setTransition({ phase: "done" });
 
-    const last = path.at(-1)!;
-    await showToast({
+    const doneToast = await showToast({
       style: Toast.Style.Success,
-      title: `${startIssue.key} → ${last.status}`,
-      message: path.length > 1 ? `${path.length} steps — now ${last.emoji} ${last.status}` : `Now: ${last.emoji} ${last.status}`
+      title: `${startIssue.key} → ${target.status}`,
+      message:
+        completedSteps.length > 1
+          ? `${completedSteps.length} steps — now ${target.emoji} ${target.status}`
+          : `Now: ${target.emoji} ${target.status}`,
     });
+    offerUndoInToast(doneToast, startIssue.key, () => reloadAfterUndo(startIssue.key));
+  }
+
+  function reloadAfterUndo(key: string) {
+    setTransition({ phase: "idle" });
+    load(key);
+  }
+
+  /** Carry an interrupted run on from wherever the ticket is now; the route there is planned again. */
+  async function resumeRun(run: ChainRun) {
+    if (!issue) return;
+
+    const target = chainRunTarget(run);
+    const planned = await planRouteWithToast(issue, target, "The interrupted move is kept; resume or discard it.");
+    if (!planned) return;
+    const route = planned.route;
+    if (!route) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No route found",
+        message: `No known way from "${issue.status}" to "${target}"; discard the interrupted move instead.`,
+      });
+      return;
+    }
+    if (route.steps.length === 0) {
+      await removeChainRun(run);
+      setInterrupted(null);
+      await showToast({ style: Toast.Style.Success, title: `${issue.key} is already in ${target}` });
+      return;
+    }
+
+    await runMove(issue, route.steps, run.fillDevDates);
   }
 
   async function handleTransition(targetStep: WorkflowStep) {
     if (!issue) return;
 
-    const path = getTransitionPathToTarget(issue.status, targetStep.status, issue.type);
-    if (!path) {
+    const planned = await planRouteWithToast(issue, targetStep.status);
+    if (!planned) return;
+    const route = planned.route;
+    if (!route) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Unknown status",
-        message: `"${issue.status}" or "${targetStep.status}" is not in this issue's workflow.`,
+        title: "No route found",
+        message: `No known way from "${issue.status}" to "${targetStep.status}" in this issue's workflow.`,
       });
       return;
     }
+    const path = route.steps;
     if (path.length === 0) {
       await showToast({ style: Toast.Style.Failure, title: "Already at that status" });
       return;
     }
 
-    const finalIsDone = path.at(-1)?.status === "Done";
-    if (finalIsDone && !isDocType(issue.type)) {
+    const fillBeforeDone = path.at(-1)?.status === "Done" && !isDocType(issue.type);
+    if (path.length > 1) {
+      push(
+        <TransitionPlan
+          issue={issue}
+          route={route}
+          fillBeforeDone={fillBeforeDone}
+          autoAssign={false}
+          confirmTitle={`Move to ${targetStep.status}`}
+          onConfirm={(pauseAt) => {
+            void withIssueSnapshots(() => runMove(issue, path, fillBeforeDone, pauseAt));
+          }}
+        />,
+      );
+      return;
+    }
+
+    await runMove(issue, path, fillBeforeDone);
+  }
+
+  /** Fill what Done needs when the move ends there, then run the hops. */
+  async function runMove(issue: JiraIssue, path: WorkflowStep[], fillBeforeDone: boolean, pauseAt?: string) {
+    if (fillBeforeDone) {
       const preToast = await showToast({ style: Toast.Style.Animated, title: "Checking required fields…" });
       try {
-        const { filled, stillMissing } = await autoFillDevDates(issue.key);
+        const { filled, stillMissing, unavailable } = await autoFillBeforeDone(issue.key, path.at(-1)!.status);
+        noteUnavailable(unavailable);
         if (filled.length > 0) {
           preToast.title = "Auto-filled dates";
           preToast.message = filled.join(", ");
@@ -168,9 +416,9 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
           push(
             <MissingFieldsForm
               issueKey={issue.key}
-              missingFields={stillMissing}
+              missingFields={stillMissing.map((name) => ({ name }))}
               onComplete={() => {
-                void runChainedTransitions(issue, path);
+                void withIssueSnapshots(() => runChainedTransitions(issue, path, pauseAt));
               }}
             />,
           );
@@ -183,7 +431,7 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
       }
     }
 
-    await runChainedTransitions(issue, path);
+    await runChainedTransitions(issue, path, pauseAt);
   }
 
   if (needsTicketInput) {
@@ -195,10 +443,24 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
               title="Look up Ticket"
               onSubmit={(values: { ticketKey: string }) => load(values.ticketKey)}
             />
+            {pendingRuns.map((run) => (
+              <Action
+                key={run.ticketKey}
+                title={`Open Interrupted Move of ${run.ticketKey}`}
+                icon={Icon.Play}
+                onAction={() => load(run.ticketKey)}
+              />
+            ))}
           </ActionPanel>
         }
       >
         <Form.Description text="No ticket key was provided and clipboard doesn't contain a valid ticket key." />
+        {pendingRuns.length > 0 && (
+          <Form.Description
+            title="Interrupted"
+            text={pendingRuns.map((run) => `${run.ticketKey}: ${describeChainRun(run)}`).join("\n")}
+          />
+        )}
         <Form.TextField id="ticketKey" title="Ticket Key" placeholder="PROJ-123" />
       </Form>
     );
@@ -218,10 +480,18 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
   if (error) {
     return (
       <Detail
-        markdown={`# Error\n\n\`\`\`\n${error}\n\`\`\`\n\n**Troubleshooting:**\n- Make sure \`jira\` CLI is installed and authenticated\n- Check the Jira CLI path in extension preferences\n- Try running \`jira issue view PROJ-123\` in your terminal`}
+        markdown={`# Error\n\n\`\`\`\n${error}\n\`\`\`\n\n**Troubleshooting:**\n- Run **Jira: Diagnostics** to check the CLI, server, token and fields\n- Make sure \`jira\` CLI is installed and authenticated\n- Check the Jira CLI path in extension preferences`}
         actions={
           <ActionPanel>
+            <SwitchProfileSubmenu onSwitch={() => load()} />
             <Action title="Open Preferences" onAction={openExtensionPreferences} />
+            <Action title="Run Setup" icon={Icon.Gear} onAction={() => push(<SetupForm onDone={() => load()} />)} />
+            <ClearJiraCacheAction onCleared={() => load()} />
+            <Action
+              title="Run Diagnostics"
+              icon={Icon.Heartbeat}
+              onAction={() => launchCommand({ name: "jira-diagnostics", type: LaunchType.UserInitiated })}
+            />
             <Action title="Retry" onAction={() => load()} />
           </ActionPanel>
         }
@@ -231,10 +501,11 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
 
   if (!issue) return null;
 
-  const workflow = getWorkflowForType(issue.type);
-  const currentStep = getWorkflowStep(issue.status, issue.type);
-  const nextStep = getNextStatus(issue.status, issue.type);
-  const currentIndex = getWorkflowIndex(issue.status, issue.type);
+  const project = projectOfKey(issue.key);
+  const workflow = getWorkflowForType(issue.type, project);
+  const currentStep = getWorkflowStep(issue.status, issue.type, project);
+  const nextStep = getNextStatus(issue.status, issue.type, project);
+  const currentIndex = getWorkflowIndex(issue.status, issue.type, project);
   const progress = currentIndex >= 0 ? Math.round((currentIndex / (workflow.length - 1)) * 100) : 0;
   const progressBar = buildProgressBar(currentIndex, workflow.length);
 
@@ -244,6 +515,15 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
     ? buildDoneMarkdown(issue, workflow)
     : buildAdvanceMarkdown(issue, workflow, currentStep, nextStep, progressBar, progress, transition);
 
+  const runningActions = transition.phase === "running" && (
+    <RunningMoveActions
+      upcoming={transition.upcoming}
+      pauseBefore={transition.pauseBefore}
+      onCancel={requestCancel}
+      onPause={requestPause}
+    />
+  );
+
   const metadata = (
     <List.Item.Detail.Metadata>
       <List.Item.Detail.Metadata.Label title="Ticket" text={issue.key} />
@@ -260,11 +540,41 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
       {nextStep && (
         <List.Item.Detail.Metadata.Label title="Next Status" text={`${nextStep.emoji} ${nextStep.status}`} />
       )}
+      {unavailableFields.length > 0 && (
+        <List.Item.Detail.Metadata.Label
+          title="Skipped (Not on This Jira)"
+          text={unavailableFields.join(", ")}
+          icon={Icon.Warning}
+        />
+      )}
     </List.Item.Detail.Metadata>
   );
 
   return (
     <List isShowingDetail>
+      {interrupted && !isRunning && (
+        <List.Item
+          title={`Resume Move to ${chainRunTarget(interrupted)}`}
+          icon={Icon.Play}
+          subtitle={describeChainRun(interrupted)}
+          detail={<List.Item.Detail markdown={buildInterruptedMarkdown(issue, interrupted)} metadata={metadata} />}
+          actions={
+            <ActionPanel>
+              <InterruptedRunActions
+                run={interrupted}
+                onResume={() => withIssueSnapshots(() => resumeRun(interrupted))}
+                onDiscarded={() => setInterrupted(null)}
+              />
+              <Action
+                title="Copy Ticket Key"
+                shortcut={{ modifiers: ["cmd"], key: "c" }}
+                onAction={() => Clipboard.copy(issue.key)}
+              />
+              <Action title="Reload" shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={() => load()} />
+            </ActionPanel>
+          }
+        />
+      )}
       {nextStep && (
         <List.Item
           title={`Next: ${nextStep.status}`}
@@ -273,14 +583,23 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
           detail={<List.Item.Detail isLoading={isRunning} markdown={markdown} metadata={metadata} />}
           actions={
             <ActionPanel>
-              {!isRunning && <Action title={`Advance to ${nextStep.status}`} onAction={() => handleTransition(nextStep)} />}
+              {runningActions}
+              {!isRunning && (
+                <Action
+                  title={`Advance to ${nextStep.status}`}
+                  onAction={() => withIssueSnapshots(() => handleTransition(nextStep))}
+                />
+              )}
               <Action
                 title="Copy Ticket Key"
                 shortcut={{ modifiers: ["cmd"], key: "c" }}
                 onAction={() => Clipboard.copy(issue.key)}
               />
+              {!isRunning && <UndoLastMoveAction ticketKey={issue.key} onUndone={() => reloadAfterUndo(issue.key)} />}
               <Action title="Reload" shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={() => load()} />
+              <SwitchProfileSubmenu onSwitch={() => load()} />
               <Action title="Open Preferences" onAction={openExtensionPreferences} />
+              <ClearJiraCacheAction onCleared={() => load()} />
             </ActionPanel>
           }
         />
@@ -289,7 +608,7 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
         if (step.status === nextStep?.status) return null;
         if (normalizeStatus(step.status) === normalizeStatus(issue.status)) return null;
 
-        const hopCount = getTransitionPathToTarget(issue.status, step.status, issue.type)?.length ?? 0;
+        const hopCount = getTransitionPathToTarget(issue.status, step.status, issue.type, project)?.length ?? 0;
         const subtitle = hopCount > 1 ? `${step.description} · ${hopCount} steps` : step.description;
 
         return (
@@ -301,14 +620,23 @@ export default function AdvanceStatus(props: Readonly<LaunchProps<{ arguments: A
             detail={<List.Item.Detail isLoading={isRunning} markdown={markdown} metadata={metadata} />}
             actions={
               <ActionPanel>
-                {!isRunning && <Action title={`Move to ${step.status}`} onAction={() => handleTransition(step)} />}
+                {runningActions}
+                {!isRunning && (
+                  <Action
+                    title={`Move to ${step.status}`}
+                    onAction={() => withIssueSnapshots(() => handleTransition(step))}
+                  />
+                )}
                 <Action
                   title="Copy Ticket Key"
                   shortcut={{ modifiers: ["cmd"], key: "c" }}
                   onAction={() => Clipboard.copy(issue.key)}
                 />
+                {!isRunning && <UndoLastMoveAction ticketKey={issue.key} onUndone={() => reloadAfterUndo(issue.key)} />}
                 <Action title="Reload" shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={() => load()} />
+                <SwitchProfileSubmenu onSwitch={() => load()} />
                 <Action title="Open Preferences" onAction={openExtensionPreferences} />
+                <ClearJiraCacheAction onCleared={() => load()} />
               </ActionPanel>
             }
           />
@@ -334,7 +662,7 @@ function buildAdvanceMarkdown(
   transition: TransitionState,
 ): string {
   if (transition.phase === "running") {
-    const { completedSteps, currentTransition, totalSteps } = transition;
+    const { completedSteps, currentTransition, totalSteps, pauseBefore, cancelling } = transition;
     const bar = "▓".repeat(completedSteps.length) + "░".repeat(totalSteps - completedSteps.length);
     return `# ${issue.key} — Transitioning…
 
@@ -343,11 +671,30 @@ function buildAdvanceMarkdown(
 **Now:** ${currentTransition}
 
 ${completedSteps.map((s) => `- ${s}`).join("\n")}
+
+${cancelling ? "_Cancelling: the move stops once this hop is through._" : pauseBefore ? `**Pausing before:** ${pauseBefore}` : ""}
+`;
+  }
+
+  if (transition.phase === "cancelled" || transition.phase === "paused") {
+    const { completedSteps, stoppedBefore, remaining } = transition;
+    const paused = transition.phase === "paused";
+    return `# ${issue.key} — ${paused ? `Paused before ${stoppedBefore}` : "Move Cancelled"}
+
+${paused ? `The move stopped before **${stoppedBefore}**, as asked.` : "The move stopped once the hop in flight was through."}
+
+${completedSteps.length > 0 ? `**Completed:**\n${completedSteps.map((s) => `- ${s}`).join("\n")}` : ""}
+
+Ticket is currently at: **${issue.status}**
+
+**Not taken yet:** ${remaining.join(" → ")}
+
+Choose **Resume Move to ${remaining.at(-1)}** to carry on from here, or discard the interrupted move.
 `;
   }
 
   if (transition.phase === "error") {
-    const { completedSteps, failedAt, error } = transition;
+    const { completedSteps, failedAt, error, queued } = transition;
     return `# ${issue.key} — Transition Failed
 
 **Failed at:** ${failedAt}
@@ -361,7 +708,7 @@ ${error}
 
 Ticket is currently at: **${issue.status}**
 
-Check the toast or run this command again after fixing the issue in Jira.
+${queued ? "Jira could not be reached, so the rest of the move is queued. It is replayed once Jira answers again; see **Jira: Pending Transitions**." : "Check the toast or run this command again after fixing the issue in Jira."}
 `;
   }
 
@@ -377,7 +724,7 @@ Check the toast or run this command again after fixing the issue in Jira.
 
   const hints = [
     nextStep
-      ? `> Pick a status to walk the workflow step-by-step until you reach it (avoids invalid transitions).\n> **Next: ${nextStep.status}** — ${nextStep.description}`
+      ? `> Pick a status to move there along the shortest route Jira allows (you'll see the route first).\n> **Next: ${nextStep.status}** — ${nextStep.description}`
       : `> This ticket is already at the final stage!`,
   ]
     .filter(Boolean)
@@ -402,6 +749,24 @@ ${workflowTable}
 `;
 }
 
+function buildInterruptedMarkdown(issue: JiraIssue, run: ChainRun): string {
+  const rest = run.steps.slice(run.completedSteps.length);
+  return `# ${issue.key} — Interrupted Move
+
+A move from **${run.fromStatus}** to **${chainRunTarget(run)}** stopped part-way (last change ${new Date(run.updatedAt).toLocaleString()}).
+
+${run.completedSteps.length > 0 ? `**Completed:**\n${run.completedSteps.map((s) => `- ${s}`).join("\n")}` : "No hop went through."}
+
+${run.stop ? `**${run.stop === "paused" ? "Paused" : "Cancelled"} before:** ${run.failedAt}` : run.failedAt ? `**Stopped at:** ${run.failedAt}${run.error ? `\n\n\`\`\`\n${run.error}\n\`\`\`` : ""}` : "**Stopped:** the command closed before the next hop."}
+
+Ticket is currently at: **${issue.status}**
+
+${rest.length > 0 ? `**Still to go:** ${rest.join(" → ")}` : ""}
+
+Resuming plans the route again from **${issue.status}**.
+`;
+}
+
 function buildDoneMarkdown(issue: JiraIssue, workflow: WorkflowStep[]): string {
   const chain = workflow.map((s) => `${s.emoji} ${s.status}`).join(" → ");
   return `# ${issue.key} is Done!
@@ -0,0 +1,363 @@
+// ─── Jira REST Client ─────────────────────────────────────────────────────────
+//
+// Thin typed wrapper over the Jira REST API v2 built on Node's fetch.
+// Every failure surfaces as one of the classes in ./errors or JiraRequestError.
+// Reads and idempotent updates (GET, PUT) are retried on throttling and outages.
+// Every request is noted in the call log for "Jira: Diagnostics".
+
+import {
+  AuthError,
+  JiraError,
+  NetworkError,
+  PermissionError,
+  RateLimitError,
+  TimeoutError,
+  UnavailableError,
+} from "./errors";
+import { recordCall, registerSecret } from "./call-log";
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from "./retry";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** "bearer" for Data Center / Server personal access tokens, "basic" for Jira Cloud email + API token. */
+export type JiraAuthType = "bearer" | "basic";
+
+export interface JiraAuth {
+  server: string;
+  token: string;
+  type: JiraAuthType;
+  /** Account email; required for "basic". */
+  email?: string;
+}
+
+export function authorizationHeader(auth: JiraAuth): string {
+  if (auth.type === "basic") {
+    return `Basic ${Buffer.from(`${auth.email ?? ""}:${auth.token}`).toString("base64")}`;
+  }
+  return `Bearer ${auth.token}`;
+}
+
+// ─── Response Models ──────────────────────────────────────────────────────────
+
+export interface JiraIssueResponse {
+  key: string;
+  fields?: Record<string, unknown>;
+  /** Field names by field ID, when requested with `expand=names`. */
+  names?: Record<string, string>;
+}
+
+export interface JiraFieldSchema {
+  /** "string", "number", "date", "datetime", "user", "option", "option-with-child", "array", … */
+  type?: string;
+  /** Element type when `type` is "array" ("option", "user", "string" for labels, …). */
+  items?: string;
+  custom?: string;
+  system?: string;
+}
+
+export interface JiraAllowedValue {
+  id: string;
+  value?: string;
+  name?: string;
+  disabled?: boolean;
+  /** Second level of a cascading select. */
+  children?: JiraAllowedValue[];
+}
+
+/** Field metadata as returned by transitions?expand=transitions.fields and editmeta. */
+export interface TransitionFieldMeta {
+  required: boolean;
+  name: string;
+  schema?: JiraFieldSchema;
+  allowedValues?: JiraAllowedValue[];
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to?: { name?: string };
+  fields?: Record<string, TransitionFieldMeta>;
+}
+
+export interface JiraUserResponse {
+  accountId?: string;
+  name?: string;
+  key?: string;
+  displayName?: string;
+  emailAddress?: string;
+}
+
+export interface JiraServerInfo {
+  baseUrl?: string;
+  version?: string;
+  /** "Server" or "Cloud". */
+  deploymentType?: string;
+  serverTitle?: string;
+}
+
+export interface JiraProjectResponse {
+  id: string;
+  key: string;
+  name: string;
+}
+
+export interface JiraFieldResponse {
+  id: string;
+  name: string;
+  schema?: JiraFieldSchema;
+}
+
+export interface JiraProjectStatus {
+  name: string;
+  description?: string;
+  statusCategory?: { key?: string };
+}
+
+export interface JiraIssueTypeStatuses {
+  name: string;
+  statuses?: JiraProjectStatus[];
+}
+
+/** User reference as accepted by assignee and user picker fields. */
+export type JiraUserRef = { name: string } | { accountId: string };
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+/**
+ * Jira answered with a non-2xx status. 401, 403 and 429 are thrown as AuthError, PermissionError
+ * and RateLimitError instead, with the JiraRequestError as their `cause`.
+ */
+export class JiraRequestError extends JiraError {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number,
+    readonly errorMessages: string[],
+    readonly errors: Record<string, string>,
+    readonly body: string,
+  ) {
+    const details = [...errorMessages, ...Object.entries(errors).map(([field, msg]) => `${field}: ${msg}`)];
+    const summary = details.length > 0 ? details.join("; ") : body.slice(0, 400);
+    super(`${method} ${path} failed (HTTP ${status})${summary ? `: ${summary}` : ""}`);
+    this.name = "JiraRequestError";
+  }
+
+  /** All human-readable messages Jira returned, field errors included. */
+  get messages(): string[] {
+    return [...this.errorMessages, ...Object.values(this.errors)];
+  }
+}
+
+/** Jira answered 2xx but the body was not the JSON we asked for (e.g. an SSO login page). */
+export class JiraResponseError extends JiraError {
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly body: string,
+  ) {
+    super(`${method} ${path} returned an unexpected response: ${body.slice(0, 200)}`);
+    this.name = "JiraResponseError";
+  }
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+interface RequestOptions {
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+/** Methods safe to repeat when the first try may or may not have reached Jira. */
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT"]);
+
+export class JiraClient {
+  constructor(
+    private readonly auth: JiraAuth,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS,
+    private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  ) {
+    registerSecret(auth.token);
+  }
+
+  /** `fields` limits the returned fields; omit it for all of them. `expand` adds sections such as "names". */
+  getIssue(issueKey: string, fields?: string[], expand?: string[]): Promise<JiraIssueResponse> {
+    return this.request("GET", `/issue/${issueKey}`, {
+      query: { fields: fields?.join(","), expand: expand?.join(",") },
+    });
+  }
+
+  searchIssues(jql: string, fields?: string[], maxResults = 100): Promise<JiraIssueResponse[]> {
+    return this.request<{ issues?: JiraIssueResponse[] }>("GET", "/search", {
+      query: { jql, fields: fields?.join(","), maxResults },
+    }).then((r) => r.issues ?? []);
+  }
+
+  getTransitions(issueKey: string): Promise<JiraTransition[]> {
+    return this.request<{ transitions?: JiraTransition[] }>("GET", `/issue/${issueKey}/transitions`, {
+      query: { expand: "transitions.fields" },
+    }).then((r) => r.transitions ?? []);
+  }
+
+  async doTransition(issueKey: string, transitionId: string, fields: Record<string, unknown> = {}): Promise<void> {
+    const body: Record<string, unknown> = { transition: { id: transitionId } };
+    if (Object.keys(fields).length > 0) body.fields = fields;
+    await this.request("POST", `/issue/${issueKey}/transitions`, { body });
+  }
+
+  /** Fields the current user can edit on the issue, with schema and allowed values. */
+  getEditMeta(issueKey: string): Promise<Record<string, TransitionFieldMeta>> {
+    return this.request<{ fields?: Record<string, TransitionFieldMeta> }>("GET", `/issue/${issueKey}/editmeta`).then(
+      (r) => r.fields ?? {},
+    );
+  }
+
+  async updateIssueFields(issueKey: string, fields: Record<string, unknown>): Promise<void> {
+    await this.request("PUT", `/issue/${issueKey}`, { body: { fields } });
+  }
+
+  async assignIssue(issueKey: string, user: JiraUserRef): Promise<void> {
+    await this.request("PUT", `/issue/${issueKey}/assignee`, { body: user });
+  }
+
+  /** Jira Cloud clears the assignee by `accountId`, Server/Data Center by `name`. */
+  async unassignIssue(issueKey: string, by: "accountId" | "name"): Promise<void> {
+    await this.request("PUT", `/issue/${issueKey}/assignee`, { body: { [by]: null } });
+  }
+
+  getFields(): Promise<JiraFieldResponse[]> {
+    return this.request("GET", "/field");
+  }
+
+  getMyself(): Promise<JiraUserResponse> {
+    return this.request("GET", "/myself");
+  }
+
+  getServerInfo(): Promise<JiraServerInfo> {
+    return this.request("GET", "/serverInfo");
+  }
+
+  /** Jira Server/Data Center searches by `username`, Jira Cloud by `query`. */
+  searchUsers(param: "username" | "query", value: string, maxResults = 10): Promise<JiraUserResponse[]> {
+    return this.request("GET", "/user/search", { query: { [param]: value, maxResults } });
+  }
+
+  /** Projects the current user can browse. */
+  getProjects(): Promise<JiraProjectResponse[]> {
+    return this.request("GET", "/project");
+  }
+
+  getProjectStatuses(projectKey: string): Promise<JiraIssueTypeStatuses[]> {
+    return this.request("GET", `/project/${encodeURIComponent(projectKey)}/statuses`);
+  }
+
+  request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const send = () => this.send<T>(method, path, options);
+    return IDEMPOTENT_METHODS.has(method) ? withRetry(`${method} ${path}`, send, { policy: this.retryPolicy }) : send();
+  }
+
+  private async send<T>(method: string, path: string, options: RequestOptions): Promise<T> {
+    const url = new URL(`${this.auth.server}/rest/api/2${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const headers: Record<string, string> = {
+      Authorization: authorizationHeader(this.auth),
+      Accept: "application/json",
+    };
+    if (options.body !== undefined) headers["Content-Type"] = "application/json";
+
+    const started = Date.now();
+    const log = (status: number | undefined, body?: string) =>
+      recordCall({
+        at: new Date(started).toISOString(),
+        via: "rest",
+        command: `${method} ${path}`,
+        status,
+        ok: status !== undefined && status < 400,
+        durationMs: Date.now() - started,
+        body,
+      });
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (e: unknown) {
+      log(undefined, e instanceof Error ? e.message : String(e));
+      if (e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError")) {
+        throw new TimeoutError(`${method} ${path} failed: no response within ${Math.round(timeoutMs / 1000)}s`, {
+          cause: e,
+        });
+      }
+      const reason = e instanceof Error ? ((e.cause as Error | undefined)?.message ?? e.message) : String(e);
+      throw new NetworkError(`${method} ${path} failed: ${reason}`, { cause: e });
+    }
+
+    const text = await response.text();
+    log(response.status, response.ok ? undefined : text);
+    if (!response.ok) {
+      const { errorMessages, errors } = parseErrorBody(text);
+      const failure = new JiraRequestError(method, path, response.status, errorMessages, errors, text);
+      throw classifyStatus(failure, response.headers.get("retry-after"));
+    }
+
+    // 204 No Content (transitions, field updates, assignment)
+    if (!text.trim()) return undefined as T;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new JiraResponseError(method, path, text);
+    }
+  }
+}
+
+function classifyStatus(failure: JiraRequestError, retryAfter: string | null): JiraError {
+  switch (failure.status) {
+    case 401:
+      return new AuthError(failure.message, { cause: failure });
+    case 403:
+      return new PermissionError(failure.message, { cause: failure });
+    case 429:
+      return new RateLimitError(failure.message, parseRetryAfter(retryAfter), { cause: failure });
+    case 502:
+    case 503:
+    case 504:
+      return new UnavailableError(failure.message, parseRetryAfter(retryAfter), { cause: failure });
+    default:
+      return failure;
+  }
+}
+
+/** Retry-After is either delay-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function parseErrorBody(text: string): { errorMessages: string[]; errors: Record<string, string> } {
+  try {
+    const parsed = JSON.parse(text) as { errorMessages?: unknown; errors?: unknown };
+    const errorMessages = Array.isArray(parsed.errorMessages)
+      ? parsed.errorMessages.filter((m): m is string => typeof m === "string")
+      : [];
+    const errors: Record<string, string> = {};
+    if (parsed.errors && typeof parsed.errors === "object") {
+      for (const [field, msg] of Object.entries(parsed.errors)) {
+        if (typeof msg === "string") errors[field] = msg;
+      }
+    }
+    return { errorMessages, errors };
+  } catch {
+    return { errorMessages: [], errors: {} };
+  }
+}
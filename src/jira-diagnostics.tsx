@@ -0,0 +1,113 @@
+import { Action, ActionPanel, Detail, Icon, openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { ClearJiraCacheAction } from "./cache-actions";
+import { CALL_LOG_SIZE, clearCallLog, getRecentCalls, redact, type CallRecord } from "./call-log";
+import { SwitchProfileSubmenu } from "./profile-actions";
+import { restoreActiveProfile } from "./profiles";
+import { restoreSetup } from "./setup";
+import { runDiagnostics, type DiagnosticCheck, type DiagnosticStatus } from "./utils";
+
+const STATUS_ICONS: Record<DiagnosticStatus, string> = {
+  ok: "✅",
+  warning: "⚠️",
+  error: "❌",
+  skipped: "➖",
+};
+
+/** Failed calls whose output is spelled out under the table. */
+const FAILURE_DETAILS = 5;
+
+function cell(text: string): string {
+  return text.replaceAll("|", "\\|").replaceAll("\n", " ");
+}
+
+function formatCall(call: CallRecord): string {
+  const time = new Date(call.at).toLocaleTimeString();
+  const status = call.status === undefined ? "no answer" : String(call.status);
+  return `| ${time} | ${call.via} | \`${cell(call.command)}\` | ${call.ok ? "✅" : "❌"} ${status} | ${call.durationMs} ms |`;
+}
+
+/** The whole page as Markdown; also what "Copy Report" puts on the clipboard, redacted. */
+function formatReport(checks: DiagnosticCheck[], calls: CallRecord[]): string {
+  const newestFirst = [...calls].reverse();
+  const failures = newestFirst.filter((c) => !c.ok && c.body).slice(0, FAILURE_DETAILS);
+
+  const lines = [
+    "# Jira Diagnostics",
+    "",
+    `Generated ${new Date().toISOString()} on ${process.platform}, Node ${process.version}`,
+    "",
+    "| Check | Status | Details |",
+    "| --- | --- | --- |",
+    ...checks.map((c) => `| ${cell(c.name)} | ${STATUS_ICONS[c.status]} ${c.status} | ${cell(c.detail)} |`),
+    "",
+    `## Recent Calls (last ${CALL_LOG_SIZE}, newest first)`,
+    "",
+  ];
+
+  if (newestFirst.length === 0) {
+    lines.push("No calls recorded yet.");
+  } else {
+    lines.push("| Time | Via | Command | Result | Duration |", "| --- | --- | --- | --- | --- |");
+    lines.push(...newestFirst.map(formatCall));
+  }
+
+  for (const call of failures) {
+    lines.push("", `### ${call.command}`, "", "```", call.body ?? "", "```");
+  }
+
+  return redact(lines.join("\n"));
+}
+
+export default function Diagnostics() {
+  const [report, setReport] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  async function load() {
+    setLoading(true);
+    try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      const checks = await runDiagnostics();
+      setReport(formatReport(checks, await getRecentCalls()));
+    } catch (e: unknown) {
+      setReport(`# Diagnostics failed\n\n\`\`\`\n${e instanceof Error ? e.message : String(e)}\n\`\`\``);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  return (
+    <Detail
+      isLoading={loading}
+      markdown={report}
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Report" content={report} />
+          <Action
+            title="Run Again"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={load}
+          />
+          <Action
+            title="Clear Call Log"
+            icon={Icon.Trash}
+            onAction={async () => {
+              await clearCallLog();
+              await showToast({ style: Toast.Style.Success, title: "Call log cleared" });
+              await load();
+            }}
+          />
+          <SwitchProfileSubmenu onSwitch={load} />
+          <Action title="Open Preferences" onAction={openExtensionPreferences} />
+          <ClearJiraCacheAction onCleared={load} />
+        </ActionPanel>
+      }
+    />
+  );
+}
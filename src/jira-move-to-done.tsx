@@ -7,12 +7,13 @@ import {
   Toast,
   Clipboard,
   openExtensionPreferences,
-  confirmAlert,
-  Alert,
   LaunchProps,
+  LaunchType,
+  launchCommand,
   useNavigation,
+  Icon,
 } from "@raycast/api";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   resolveTicketKey,
   getIssueDetails,
@@ -21,18 +22,79 @@ import {
   getWorkflowStep,
   getWorkflowIndex,
   getWorkflowForType,
-  autoFillDevDates,
-  parseMissingFieldsFromError,
+  autoFillBeforeDone,
   isDocType,
+  getWorkflowConfig,
+  discoverWorkflows,
+  projectOfKey,
+  getJiraServer,
+  normalizeStatus,
+  withIssueSnapshots,
   type JiraIssue,
+  type WorkflowStep,
 } from "./utils";
 import MissingFieldsForm from "./missing-fields-form";
+import { failureTitle, MissingFieldsError } from "./errors";
+import { ClearJiraCacheAction } from "./cache-actions";
+import { SwitchProfileSubmenu } from "./profile-actions";
+import { restoreActiveProfile } from "./profiles";
+import { isSetupNeeded, restoreSetup } from "./setup";
+import SetupForm from "./setup-form";
+import { showingRetries } from "./retry";
+import { queueIfOffline, showQueuedInToast } from "./transition-queue";
+import { checkHop, describeRoute, planRouteWithToast, type HopOutcome } from "./transition-planner";
+import TransitionPlan from "./transition-plan";
+import { offerUndoInToast } from "./undo";
+import { UndoLastMoveAction } from "./undo-actions";
+import {
+  chainRunTarget,
+  describeChainRun,
+  getChainRuns,
+  getInterruptedRun,
+  recordChainRunFailure,
+  recordChainRunHop,
+  recordChainRunStop,
+  removeChainRun,
+  startChainRun,
+  type ChainRun,
+} from "./chain-runs";
+import { InterruptedRunActions, RunningMoveActions } from "./chain-run-actions";
 
 type TransitionState =
   | { phase: "idle" }
-  | { phase: "running"; currentTransition: string; completedSteps: string[]; totalSteps: number }
+  | {
+      phase: "running";
+      currentTransition: string;
+      completedSteps: string[];
+      totalSteps: number;
+      /** Steps after the one in flight. */
+      upcoming: string[];
+      pauseBefore?: string;
+      /** Cancel was pressed; the move stops once the hop in flight is through. */
+      cancelling?: boolean;
+    }
   | { phase: "done" }
-  | { phase: "error"; failedAt: string; completedSteps: string[]; error: string };
+  | {
+      phase: "cancelled" | "paused";
+      /** Step the move stopped before; the rest is saved as an interrupted move. */
+      stoppedBefore: string;
+      completedSteps: string[];
+      remaining: string[];
+    }
+  | {
+      phase: "error";
+      failedAt: string;
+      completedSteps: string[];
+      error: string;
+      /** Jira was unreachable; the rest of the move waits in the offline queue. */
+      queued?: boolean;
+    };
+
+/** Runs this command can resume: the ones that were heading for the end of the workflow. */
+function headsToDone(run: ChainRun, issueType = ""): boolean {
+  const finalStep = getWorkflowForType(issueType, projectOfKey(run.ticketKey)).at(-1);
+  return normalizeStatus(chainRunTarget(run)) === normalizeStatus(finalStep?.status ?? "Done");
+}
 
 export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.JiraMoveToDone }>) {
   const [issue, setIssue] = useState<JiraIssue | null>(null);
@@ -40,28 +102,49 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
   const [loading, setLoading] = useState(true);
   const [transition, setTransition] = useState<TransitionState>({ phase: "idle" });
   const [needsTicketInput, setNeedsTicketInput] = useState(false);
+  const [unavailableFields, setUnavailableFields] = useState<string[]>([]);
+  const [interrupted, setInterrupted] = useState<ChainRun | null>(null);
+  const [pendingRuns, setPendingRuns] = useState<ChainRun[]>([]);
+  const cancelRequested = useRef(false);
+  const pauseBefore = useRef<string | undefined>(undefined);
   const { push } = useNavigation();
 
   useEffect(() => {
     load();
   }, []);
 
+  /** Remember fields auto-fill had to skip because this Jira does not have them; shown in the metadata. */
+  function noteUnavailable(fields: string[]) {
+    if (fields.length > 0) setUnavailableFields((prev) => [...new Set([...prev, ...fields])]);
+  }
+
   async function load(overrideKey?: string) {
     setLoading(true);
     setError(null);
     setNeedsTicketInput(false);
     try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      if (isSetupNeeded(getJiraServer())) {
+        push(<SetupForm onDone={() => load(overrideKey)} />);
+        return;
+      }
+      getWorkflowConfig();
       const argKey = overrideKey || props.arguments.ticketKey;
       if (!argKey?.trim()) {
         const clipText = (await Clipboard.readText())?.trim() || "";
         if (!/^[A-Z]+-\d+$/i.test(clipText)) {
+          setPendingRuns((await getChainRuns()).filter((run) => headsToDone(run)));
           setNeedsTicketInput(true);
           return;
         }
       }
       const key = await resolveTicketKey(argKey);
       const details = await getIssueDetails(key);
+      await discoverWorkflows([projectOfKey(key)]);
       setIssue(details);
+      const run = await getInterruptedRun(details);
+      setInterrupted(run && headsToDone(run, details.type) ? run : null);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -69,72 +152,231 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
     }
   }
 
-  async function runTransitionLoop(issueData: JiraIssue) {
-    const remaining = getRemainingSteps(issueData.status, issueData.type);
-    if (remaining.length === 0) {
+  function requestCancel() {
+    cancelRequested.current = true;
+    setTransition((t) => (t.phase === "running" ? { ...t, cancelling: true } : t));
+  }
+
+  function requestPause(status: string | undefined) {
+    pauseBefore.current = status;
+    setTransition((t) => (t.phase === "running" ? { ...t, pauseBefore: status } : t));
+  }
+
+  /** Before each hop, the first included: stop when Cancel was pressed, or when `step` is the one to pause before. */
+  function stopBefore(step: WorkflowStep): "cancelled" | "paused" | null {
+    if (cancelRequested.current) return "cancelled";
+    if (pauseBefore.current && normalizeStatus(pauseBefore.current) === normalizeStatus(step.status)) return "paused";
+    return null;
+  }
+
+  async function runTransitionLoop(issueData: JiraIssue, path: WorkflowStep[], pauseAt?: string) {
+    if (path.length === 0) {
+      // Nothing left to do, so a run saved for the ticket is finished too
+      await removeChainRun({ server: getJiraServer(), ticketKey: issueData.key });
+      setInterrupted(null);
       setIssue((prev) => (prev ? { ...prev, status: "Done" } : prev));
       setTransition({ phase: "done" });
       return;
     }
 
+    const target = path.at(-1)!;
     const completedSteps: string[] = [];
     let currentStatus = issueData.status;
+    let remaining = path;
+    let totalSteps = path.length;
+    let replans = 0;
+    const showRunning = () =>
+      setTransition({
+        phase: "running",
+        currentTransition: remaining[0].status,
+        completedSteps,
+        totalSteps,
+        upcoming: remaining.slice(1).map((s) => s.status),
+        pauseBefore: pauseBefore.current,
+        cancelling: cancelRequested.current,
+      });
 
-    setTransition({ phase: "running", currentTransition: remaining[0].status, completedSteps, totalSteps: remaining.length });
+    cancelRequested.current = false;
+    pauseBefore.current = pauseAt;
+    setInterrupted(null);
+    const run = await startChainRun({
+      ticketKey: issueData.key,
+      fromStatus: issueData.status,
+      steps: path.map((s) => s.status),
+      fillDevDates: !isDocType(issueData.type),
+    });
+    showRunning();
+
+    while (remaining.length > 0) {
+      const step = remaining[0];
+
+      const stop = stopBefore(step);
+      if (stop) {
+        await recordChainRunStop(run, step.status, stop);
+        setInterrupted({ ...run });
+        setTransition({
+          phase: stop,
+          stoppedBefore: step.status,
+          completedSteps,
+          remaining: remaining.map((s) => s.status),
+        });
+        await showToast({
+          style: Toast.Style.Success,
+          title: stop === "paused" ? `${issueData.key} paused before ${step.status}` : `Stopped ${issueData.key}`,
+          message: `Now: ${currentStatus}. Resume the move when you are ready.`,
+        });
+        return;
+      }
 
-    for (const step of remaining) {
       const toast = await showToast({
         style: Toast.Style.Animated,
         title: `Transitioning ${issueData.key}`,
         message: `${currentStatus} → ${step.status}`,
       });
 
-      setTransition({ phase: "running", currentTransition: step.status, completedSteps, totalSteps: remaining.length });
+      showRunning();
 
+      let hop: HopOutcome;
       try {
-        await transitionIssue(issueData.key, step.status);
-        completedSteps.push(`${step.emoji} ${step.status}`);
-        currentStatus = step.status;
-        setIssue((prev) => (prev ? { ...prev, status: currentStatus } : prev));
-        toast.style = Toast.Style.Success;
-        toast.title = `Done: ${step.status}`;
-        toast.message = completedSteps.length < remaining.length ? "Continuing…" : "All done!";
+        hop = await showingRetries(toast, async () => {
+          noteUnavailable((await transitionIssue(issueData.key, step.status)).unavailable);
+          return checkHop(issueData.key, step.status, target.status, replans);
+        });
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : String(e);
         toast.style = Toast.Style.Failure;
-        toast.title = "Transition failed";
+        toast.title = failureTitle(e, "Transition failed");
 
-        const missingFields = parseMissingFieldsFromError(msg);
-        if (missingFields.length > 0) {
+        if (e instanceof MissingFieldsError) {
           toast.hide();
+          await recordChainRunFailure(run, step.status, msg);
+          const from = currentStatus;
+          const rest = remaining;
           push(
             <MissingFieldsForm
               issueKey={issueData.key}
-              missingFields={missingFields}
-              onComplete={() => runTransitionLoop({ ...issueData, status: currentStatus })}
-            />
+              missingFields={e.fields}
+              targetStatus={step.status}
+              onComplete={() =>
+                withIssueSnapshots(() => runTransitionLoop({ ...issueData, status: from }, rest, pauseBefore.current))
+              }
+            />,
           );
         } else {
-          toast.message = msg;
-          setTransition({ phase: "error", failedAt: step.status, completedSteps, error: msg });
+          const queued = await queueIfOffline(e, {
+            ticketKey: issueData.key,
+            fromStatus: currentStatus,
+            steps: remaining.map((s) => s.status),
+            fillDevDates: !isDocType(issueData.type),
+          });
+          if (queued) {
+            // The offline queue replays the rest of the move
+            await removeChainRun(run);
+            showQueuedInToast(toast, issueData.key);
+          } else {
+            await recordChainRunFailure(run, step.status, msg);
+            toast.message = msg;
+          }
+          setTransition({ phase: "error", failedAt: step.status, completedSteps, error: msg, queued });
         }
         return;
       }
+
+      currentStatus = hop.issue.status;
+      setIssue((prev) => (prev ? { ...prev, status: currentStatus, assignee: hop.issue.assignee } : prev));
+
+      if (hop.kind === "on-track") {
+        completedSteps.push(`${step.emoji} ${step.status}`);
+        remaining = remaining.slice(1);
+        await recordChainRunHop(
+          run,
+          step.status,
+          remaining.map((s) => s.status),
+        );
+        toast.style = Toast.Style.Success;
+        toast.title = `Done: ${step.status}`;
+        toast.message = remaining.length > 0 ? "Continuing…" : "All done!";
+        continue;
+      }
+
+      completedSteps.push(`⚠️ ${currentStatus} (expected ${step.status})`);
+      if (hop.kind === "arrived") break;
+
+      if (hop.kind === "stuck") {
+        await recordChainRunFailure(run, step.status, hop.reason);
+        toast.style = Toast.Style.Failure;
+        toast.title = "Landed on an unexpected status";
+        toast.message = hop.reason;
+        setTransition({ phase: "error", failedAt: step.status, completedSteps, error: hop.reason });
+        return;
+      }
+
+      replans++;
+      remaining = hop.route.steps;
+      await recordChainRunHop(
+        run,
+        currentStatus,
+        remaining.map((s) => s.status),
+      );
+      totalSteps = completedSteps.length + remaining.length;
+      toast.style = Toast.Style.Success;
+      toast.title = `Re-planned from ${currentStatus}`;
+      toast.message = describeRoute(currentStatus, hop.route);
     }
 
+    await removeChainRun(run);
     setTransition({ phase: "done" });
 
-    await showToast({
+    const doneToast = await showToast({
       style: Toast.Style.Success,
       title: `${issueData.key} is Done`,
-      message: remaining.length > 1 ? `${remaining.length} transitions completed` : undefined,
+      message: completedSteps.length > 1 ? `${completedSteps.length} transitions completed` : undefined,
     });
+    offerUndoInToast(doneToast, issueData.key, () => reloadAfterUndo(issueData.key));
+  }
+
+  function reloadAfterUndo(key: string) {
+    setTransition({ phase: "idle" });
+    load(key);
+  }
+
+  /** Carry an interrupted run on from wherever the ticket is now; the route to Done is planned again. */
+  async function resumeRun(run: ChainRun) {
+    if (!issue) return;
+
+    const planned = await planRouteWithToast(
+      issue,
+      chainRunTarget(run),
+      "The interrupted move is kept; resume or discard it.",
+    );
+    if (!planned) return;
+    const route = planned.route;
+    if (!route) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No route found",
+        message: `No known way from "${issue.status}" to "${chainRunTarget(run)}"; discard the interrupted move instead.`,
+      });
+      return;
+    }
+    if (route.steps.length === 0) {
+      await removeChainRun(run);
+      setInterrupted(null);
+      await showToast({ style: Toast.Style.Success, title: `${issue.key} is already in ${chainRunTarget(run)}` });
+      return;
+    }
+
+    await runMoveToDone(issue, route.steps);
   }
 
   async function startMoveToDone() {
     if (!issue) return;
 
-    const remaining = getRemainingSteps(issue.status, issue.type);
+    const finalStep = getWorkflowForType(issue.type, projectOfKey(issue.key)).at(-1)!;
+    const planned = await planRouteWithToast(issue, finalStep.status);
+    if (!planned) return;
+    const route = planned.route;
+    const remaining = route?.steps ?? getRemainingSteps(issue.status, issue.type, projectOfKey(issue.key));
 
     if (remaining.length === 0) {
       await showToast({ style: Toast.Style.Success, title: `${issue.key} is already Done!` });
@@ -142,19 +384,29 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
     }
 
     if (remaining.length > 1) {
-      const confirmed = await confirmAlert({
-        title: `Move ${issue.key} through ${remaining.length} stages?`,
-        message: `This will transition:\n${issue.status} → ${remaining.map((s) => s.status).join(" → ")}`,
-        primaryAction: { title: "Move to Done", style: Alert.ActionStyle.Default },
-        dismissAction: { title: "Cancel" },
-      });
-      if (!confirmed) return;
+      push(
+        <TransitionPlan
+          issue={issue}
+          route={route ?? { steps: remaining, source: "linear" }}
+          fillBeforeDone={!isDocType(issue.type)}
+          autoAssign={false}
+          confirmTitle="Move to Done"
+          onConfirm={(pauseAt) => withIssueSnapshots(() => runMoveToDone(issue, remaining, pauseAt))}
+        />,
+      );
+      return;
     }
 
-    if (!isDocType(issue.type)) {
+    await runMoveToDone(issue, remaining);
+  }
+
+  /** Fill the dev dates Done needs, then run the hops. */
+  async function runMoveToDone(issue: JiraIssue, remaining: WorkflowStep[], pauseAt?: string) {
+    if (remaining.length > 0 && !isDocType(issue.type)) {
       const toast = await showToast({ style: Toast.Style.Animated, title: "Checking required fields…" });
       try {
-        const { filled, stillMissing } = await autoFillDevDates(issue.key);
+        const { filled, stillMissing, unavailable } = await autoFillBeforeDone(issue.key, remaining.at(-1)!.status);
+        noteUnavailable(unavailable);
         if (filled.length > 0) {
           toast.title = "Auto-filled dates";
           toast.message = filled.join(", ");
@@ -165,8 +417,8 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
           push(
             <MissingFieldsForm
               issueKey={issue.key}
-              missingFields={stillMissing}
-              onComplete={() => runTransitionLoop(issue)}
+              missingFields={stillMissing.map((name) => ({ name }))}
+              onComplete={() => withIssueSnapshots(() => runTransitionLoop(issue, remaining, pauseAt))}
             />,
           );
           return;
@@ -178,7 +430,7 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
       }
     }
 
-    await runTransitionLoop(issue);
+    await runTransitionLoop(issue, remaining, pauseAt);
   }
 
   if (needsTicketInput) {
@@ -190,10 +442,24 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
               title="Look up Ticket"
               onSubmit={(values: { ticketKey: string }) => load(values.ticketKey)}
             />
+            {pendingRuns.map((run) => (
+              <Action
+                key={run.ticketKey}
+                title={`Open Interrupted Move of ${run.ticketKey}`}
+                icon={Icon.Play}
+                onAction={() => load(run.ticketKey)}
+              />
+            ))}
           </ActionPanel>
         }
       >
         <Form.Description text="No ticket key was provided and clipboard doesn't contain a valid ticket key." />
+        {pendingRuns.length > 0 && (
+          <Form.Description
+            title="Interrupted"
+            text={pendingRuns.map((run) => `${run.ticketKey}: ${describeChainRun(run)}`).join("\n")}
+          />
+        )}
         <Form.TextField id="ticketKey" title="Ticket Key" placeholder="PROJ-123" />
       </Form>
     );
@@ -206,10 +472,18 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
   if (error) {
     return (
       <Detail
-        markdown={`# Error\n\n\`\`\`\n${error}\n\`\`\`\n\n**Troubleshooting:**\n- Make sure \`jira\` CLI is installed and authenticated\n- Try running \`jira issue view PROJ-123\` in your terminal`}
+        markdown={`# Error\n\n\`\`\`\n${error}\n\`\`\`\n\n**Troubleshooting:**\n- Run **Jira: Diagnostics** to check the CLI, server, token and fields\n- Make sure \`jira\` CLI is installed and authenticated`}
         actions={
           <ActionPanel>
+            <SwitchProfileSubmenu onSwitch={() => load()} />
             <Action title="Open Preferences" onAction={openExtensionPreferences} />
+            <Action title="Run Setup" icon={Icon.Gear} onAction={() => push(<SetupForm onDone={() => load()} />)} />
+            <ClearJiraCacheAction onCleared={() => load()} />
+            <Action
+              title="Run Diagnostics"
+              icon={Icon.Heartbeat}
+              onAction={() => launchCommand({ name: "jira-diagnostics", type: LaunchType.UserInitiated })}
+            />
             <Action title="Retry" onAction={load} />
           </ActionPanel>
         }
@@ -219,14 +493,15 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
 
   if (!issue) return null;
 
-  const workflow = getWorkflowForType(issue.type);
-  const currentStep = getWorkflowStep(issue.status, issue.type);
-  const currentIndex = getWorkflowIndex(issue.status, issue.type);
-  const remaining = getRemainingSteps(issue.status, issue.type);
+  const project = projectOfKey(issue.key);
+  const workflow = getWorkflowForType(issue.type, project);
+  const currentStep = getWorkflowStep(issue.status, issue.type, project);
+  const currentIndex = getWorkflowIndex(issue.status, issue.type, project);
+  const remaining = getRemainingSteps(issue.status, issue.type, project);
   const isRunning = transition.phase === "running";
   const isDone = transition.phase === "done" || issue.status === "Done";
 
-  const markdown = buildMarkdown(issue, workflow, transition, remaining, currentIndex);
+  const markdown = buildMarkdown(issue, workflow, transition, remaining, currentIndex, isRunning ? null : interrupted);
 
   return (
     <Detail
@@ -242,51 +517,86 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
           {remaining.length > 0 && (
             <Detail.Metadata.Label title="Steps Remaining" text={`${remaining.length} (ends at 🎉 Done)`} />
           )}
+          {unavailableFields.length > 0 && (
+            <Detail.Metadata.Label
+              title="Skipped (Not on This Jira)"
+              text={unavailableFields.join(", ")}
+              icon={Icon.Warning}
+            />
+          )}
         </Detail.Metadata>
       }
       actions={
         <ActionPanel>
+          {transition.phase === "running" && (
+            <RunningMoveActions
+              upcoming={transition.upcoming}
+              pauseBefore={transition.pauseBefore}
+              onCancel={requestCancel}
+              onPause={requestPause}
+            />
+          )}
+          {interrupted && !isDone && !isRunning && (
+            <InterruptedRunActions
+              run={interrupted}
+              onResume={() => withIssueSnapshots(() => resumeRun(interrupted))}
+              onDiscarded={() => setInterrupted(null)}
+            />
+          )}
           {!isDone && !isRunning && (
             <Action
               title={remaining.length === 1 ? "Move to Done" : `Move Through ${remaining.length} Stages to Done`}
               shortcut={{ modifiers: ["cmd"], key: "return" }}
-              onAction={startMoveToDone}
+              onAction={() => withIssueSnapshots(startMoveToDone)}
             />
           )}
           {!isDone && !isRunning && remaining.length > 1 && (
             <Action
               title="Advance One Step Only"
               shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
-              onAction={async () => {
+              onAction={() => {
                 const next = remaining[0];
                 const doAdvance = async () => {
                   const toast = await showToast({ style: Toast.Style.Animated, title: `Advancing to ${next.status}` });
                   try {
-                    await transitionIssue(issue.key, next.status);
+                    noteUnavailable(
+                      (await showingRetries(toast, () => transitionIssue(issue.key, next.status))).unavailable,
+                    );
                     toast.style = Toast.Style.Success;
                     toast.title = `Moved to ${next.status}`;
+                    offerUndoInToast(toast, issue.key, () => reloadAfterUndo(issue.key));
                     setIssue((prev) => (prev ? { ...prev, status: next.status } : prev));
                   } catch (e: unknown) {
                     const msg = e instanceof Error ? e.message : String(e);
                     toast.style = Toast.Style.Failure;
-                    const missingFields = parseMissingFieldsFromError(msg);
-                    if (missingFields.length > 0) {
+                    toast.title = failureTitle(e, toast.title);
+                    if (e instanceof MissingFieldsError) {
                       toast.hide();
                       push(
                         <MissingFieldsForm
                           issueKey={issue.key}
-                          missingFields={missingFields}
+                          missingFields={e.fields}
+                          targetStatus={next.status}
                           onComplete={() => {
                             setIssue((prev) => (prev ? { ...prev, status: next.status } : prev));
                           }}
-                        />
+                        />,
                       );
+                    } else if (
+                      await queueIfOffline(e, {
+                        ticketKey: issue.key,
+                        fromStatus: issue.status,
+                        steps: [next.status],
+                        fillDevDates: !isDocType(issue.type),
+                      })
+                    ) {
+                      showQueuedInToast(toast, issue.key);
                     } else {
                       toast.message = msg;
                     }
                   }
                 };
-                await doAdvance();
+                return withIssueSnapshots(doAdvance);
               }}
             />
           )}
@@ -295,8 +605,11 @@ export default function MoveToDone(props: LaunchProps<{ arguments: Arguments.Jir
             shortcut={{ modifiers: ["cmd"], key: "c" }}
             onAction={() => Clipboard.copy(issue.key)}
           />
+          {!isRunning && <UndoLastMoveAction ticketKey={issue.key} onUndone={() => reloadAfterUndo(issue.key)} />}
           <Action title="Reload" shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={load} />
+          <SwitchProfileSubmenu onSwitch={() => load()} />
           <Action title="Open Preferences" onAction={openExtensionPreferences} />
+          <ClearJiraCacheAction onCleared={() => load()} />
         </ActionPanel>
       }
     />
@@ -309,6 +622,7 @@ function buildMarkdown(
   transition: TransitionState,
   remaining: ReturnType<typeof getRemainingSteps>,
   currentIndex: number,
+  interrupted: ChainRun | null,
 ): string {
   if (transition.phase === "done" || issue.status === "Done") {
     const chain = workflow.map((s) => `${s.emoji} ${s.status}`).join(" → ");
@@ -327,7 +641,7 @@ ${chain}
   }
 
   if (transition.phase === "running") {
-    const { completedSteps, currentTransition, totalSteps } = transition;
+    const { completedSteps, currentTransition, totalSteps, pauseBefore, cancelling } = transition;
     const bar = "▓".repeat(completedSteps.length) + "░".repeat(totalSteps - completedSteps.length);
     return `# ${issue.key} — Transitioning…
 
@@ -336,11 +650,30 @@ ${chain}
 **Now:** ${currentTransition}
 
 ${completedSteps.map((s) => `- ${s}`).join("\n")}
+
+${cancelling ? "_Cancelling: the move stops once this hop is through._" : pauseBefore ? `**Pausing before:** ${pauseBefore}` : ""}
+`;
+  }
+
+  if (transition.phase === "cancelled" || transition.phase === "paused") {
+    const { completedSteps, stoppedBefore, remaining } = transition;
+    const paused = transition.phase === "paused";
+    return `# ${issue.key} — ${paused ? `Paused before ${stoppedBefore}` : "Move Cancelled"}
+
+${paused ? `The move to Done stopped before **${stoppedBefore}**, as asked.` : "The move to Done stopped once the hop in flight was through."}
+
+${completedSteps.length > 0 ? `**Completed:**\n${completedSteps.map((s) => `- ${s}`).join("\n")}` : ""}
+
+Ticket is currently at: **${issue.status}**
+
+**Not taken yet:** ${remaining.join(" → ")}
+
+Choose **Resume Move to ${remaining.at(-1)}** to carry on from here, or discard the interrupted move.
 `;
   }
 
   if (transition.phase === "error") {
-    const { completedSteps, failedAt, error } = transition;
+    const { completedSteps, failedAt, error, queued } = transition;
     return `# ${issue.key} — Transition Failed
 
 **Failed at:** ${failedAt}
@@ -354,7 +687,7 @@ ${error}
 
 Ticket is currently at: **${issue.status}**
 
-Check the toast or run this command again after fixing the issue in Jira.
+${queued ? "Jira could not be reached, so the rest of the move is queued. It is replayed once Jira answers again; see **Jira: Pending Transitions**." : "Check the toast or run this command again after fixing the issue in Jira."}
 `;
   }
 
@@ -364,7 +697,7 @@ Check the toast or run this command again after fixing the issue in Jira.
 
   return `# ${issue.key} — Move to Done (${issue.type || "Task"})
 
-## Current Status: ${getWorkflowStep(issue.status, issue.type)?.emoji ?? ""} ${issue.status}
+## Current Status: ${getWorkflowStep(issue.status, issue.type, projectOfKey(issue.key))?.emoji ?? ""} ${issue.status}
 
 **Progress:** ${progress}% complete (${remaining.length} step${remaining.length !== 1 ? "s" : ""} remaining)
 
@@ -373,7 +706,17 @@ Check the toast or run this command again after fixing the issue in Jira.
 ### Path to Done:
 
 > **${issue.status}** → ${pathSteps}
-
+${interrupted ? buildInterruptedSection(interrupted) : ""}
 Press **⌘ + Return** to run all ${remaining.length} transition${remaining.length !== 1 ? "s" : ""} in the background (Raycast closes; progress shows in toasts).
 `;
 }
+
+function buildInterruptedSection(run: ChainRun): string {
+  return `
+### Interrupted Move
+
+A move from **${run.fromStatus}** stopped part-way: ${describeChainRun(run)}.${run.error ? `\n\n\`\`\`\n${run.error}\n\`\`\`` : ""}
+
+Choose **Resume Move to ${chainRunTarget(run)}** to carry on from here, or discard it.
+`;
+}
@@ -0,0 +1,5 @@
+import PendingTransitions from "./pending-transitions";
+
+export default function JiraPendingTransitions() {
+  return <PendingTransitions />;
+}
@@ -0,0 +1,5 @@
+import TransitionHistory from "./transition-history";
+
+export default function JiraTransitionHistory() {
+  return <TransitionHistory />;
+}
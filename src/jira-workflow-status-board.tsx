@@ -17,8 +17,7 @@ import {
   getPreviousStatus,
   getRemainingSteps,
   normalizeStatus,
-  autoFillDevDates,
-  parseMissingFieldsFromError,
+  autoFillBeforeDone,
   openIssueInJira,
   searchJiraUser,
   assignIssue,
@@ -26,15 +25,48 @@ import {
   getCurrentUser,
   autoAssignForStatus,
   isDocType,
-  ALL_BOARD_STATUSES,
+  getBoardStatuses,
+  hasWorkflowConfigFile,
+  discoverWorkflows,
+  projectOfKey,
+  getJiraServer,
   DEV_DATE_FIELDS,
+  getDevDateFields,
   setIssueCustomFields,
   getIssueRawFields,
+  getIssueDetails,
+  withIssueSnapshots,
+  type DevDateField,
+  type DevDateFields,
   type JiraIssue,
   type JiraUser,
   type TicketScope,
+  type WorkflowStep,
 } from "./utils";
 import MissingFieldsForm from "./missing-fields-form";
+import { failureTitle, MissingFieldsError } from "./errors";
+import { ClearJiraCacheAction } from "./cache-actions";
+import { SwitchProfileSubmenu } from "./profile-actions";
+import { getActiveProfileName, PREFERENCES_PROFILE, restoreActiveProfile } from "./profiles";
+import { isSetupNeeded, restoreSetup } from "./setup";
+import SetupForm from "./setup-form";
+import { showingRetries } from "./retry";
+import { checkHop, planTransitionPath } from "./transition-planner";
+import { queueIfOffline, replayQueueWithToast, showQueuedInToast } from "./transition-queue";
+import PendingTransitions from "./pending-transitions";
+import { offerUndoInToast } from "./undo";
+import { UndoLastMoveAction } from "./undo-actions";
+import {
+  chainRunTarget,
+  describeChainRun,
+  getChainRuns,
+  recordChainRunFailure,
+  recordChainRunHop,
+  removeChainRun,
+  startChainRun,
+  type ChainRun,
+} from "./chain-runs";
+import { InterruptedRunActions } from "./chain-run-actions";
 
 const STATUS_COLORS: Record<string, Color> = {
   WAITING: Color.SecondaryText,
@@ -226,27 +258,31 @@ const DATE_PRESETS: DatePreset[] = [
   { label: "In 1 Month", getDate: () => formatDate(addDays(30)) },
 ];
 
-type DevDateField = "devStartDate" | "devDueDate";
+/** Auto-fill skipped fields this Jira does not have; say so rather than leaving them silently empty. */
+async function showUnavailableFieldsNotice(fields: string[]) {
+  await showToast({
+    style: Toast.Style.Failure,
+    title: `Skipped ${fields.join(", ")}`,
+    message: "Not on this Jira. If it goes by another name, map it in Field Overrides.",
+    primaryAction: { title: "Open Preferences", onAction: () => openExtensionPreferences() },
+  });
+}
+
+type EditableDevDate = Extract<DevDateField, "devStartDate" | "devDueDate">;
 
-function DevDatesForm({
-  issueKey,
-  onUpdated,
-}: {
-  issueKey: string;
-  onUpdated: () => void;
-}) {
+function DevDatesForm({ issueKey, onUpdated }: { issueKey: string; onUpdated: () => void }) {
+  const [devFields, setDevFields] = useState<DevDateFields | null>(null);
   const [currentDates, setCurrentDates] = useState<Record<string, string | null>>({});
   const [loadingDates, setLoadingDates] = useState(true);
-  const [selectedField, setSelectedField] = useState<DevDateField | null>(null);
+  const [selectedField, setSelectedField] = useState<EditableDevDate | null>(null);
 
   useEffect(() => {
     (async () => {
       try {
-        const raw = await getIssueRawFields(issueKey, [
-          DEV_DATE_FIELDS.devStartDate.id,
-          DEV_DATE_FIELDS.devDueDate.id,
-        ]);
-        setCurrentDates(raw);
+        const found = await getDevDateFields();
+        setDevFields(found);
+        const ids = [found.devStartDate?.id, found.devDueDate?.id].filter((id): id is string => !!id);
+        if (ids.length > 0) setCurrentDates(await getIssueRawFields(issueKey, ids));
       } catch {
         /* best-effort */
       } finally {
@@ -255,8 +291,9 @@ function DevDatesForm({
     })();
   }, [issueKey]);
 
-  async function handleSetDate(field: DevDateField, date: string) {
-    const fieldDef = DEV_DATE_FIELDS[field];
+  async function handleSetDate(field: EditableDevDate, date: string) {
+    const fieldDef = devFields?.[field];
+    if (!fieldDef) return;
     const toast = await showToast({
       style: Toast.Style.Animated,
       title: `Setting ${fieldDef.name}`,
@@ -277,27 +314,22 @@ function DevDatesForm({
     }
   }
 
-  const fields: { key: DevDateField; name: string; id: string }[] = [
-    { key: "devStartDate", name: DEV_DATE_FIELDS.devStartDate.name, id: DEV_DATE_FIELDS.devStartDate.id },
-    { key: "devDueDate", name: DEV_DATE_FIELDS.devDueDate.name, id: DEV_DATE_FIELDS.devDueDate.id },
-  ];
+  const fields: { key: EditableDevDate; name: string; id?: string }[] = (["devStartDate", "devDueDate"] as const).map(
+    (key) => ({ key, name: DEV_DATE_FIELDS[key], id: devFields?.[key]?.id }),
+  );
 
-  if (selectedField) {
-    const fieldDef = DEV_DATE_FIELDS[selectedField];
-    const currentValue = currentDates[fieldDef.id];
+  const selected = selectedField ? devFields?.[selectedField] : null;
+  if (selectedField && selected) {
+    const currentValue = currentDates[selected.id];
     return (
       <List
         isLoading={loadingDates}
-        navigationTitle={`${issueKey} — ${fieldDef.name}`}
-        searchBarPlaceholder={`Pick a date for ${fieldDef.name}…`}
+        navigationTitle={`${issueKey} — ${selected.name}`}
+        searchBarPlaceholder={`Pick a date for ${selected.name}…`}
       >
         {currentValue && (
           <List.Section title="Current Value">
-            <List.Item
-              title={currentValue}
-              icon={Icon.Calendar}
-              accessories={[{ tag: "current" }]}
-            />
+            <List.Item title={currentValue} icon={Icon.Calendar} accessories={[{ tag: "current" }]} />
           </List.Section>
         )}
         <List.Section title="Quick Dates">
@@ -315,7 +347,11 @@ function DevDatesForm({
                       title={`Set to ${preset.label} (${date})`}
                       onAction={() => handleSetDate(selectedField, date)}
                     />
-                    <Action title="Back" onAction={() => setSelectedField(null)} shortcut={{ modifiers: ["cmd"], key: "backspace" }} />
+                    <Action
+                      title="Back"
+                      onAction={() => setSelectedField(null)}
+                      shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    />
                   </ActionPanel>
                 }
               />
@@ -333,6 +369,22 @@ function DevDatesForm({
       searchBarPlaceholder="Choose a date field to update…"
     >
       {fields.map((f) => {
+        if (!f.id) {
+          return (
+            <List.Item
+              key={f.key}
+              title={f.name}
+              subtitle="Not found on this Jira"
+              icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+              accessories={[{ tag: { value: "unavailable", color: Color.SecondaryText } }]}
+              actions={
+                <ActionPanel>
+                  <Action title="Map in Field Overrides" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                </ActionPanel>
+              }
+            />
+          );
+        }
         const currentValue = currentDates[f.id];
         return (
           <List.Item
@@ -340,7 +392,9 @@ function DevDatesForm({
             title={f.name}
             subtitle={currentValue ?? "Not set"}
             icon={Icon.Calendar}
-            accessories={currentValue ? [{ tag: currentValue }] : [{ tag: { value: "empty", color: Color.SecondaryText } }]}
+            accessories={
+              currentValue ? [{ tag: currentValue }] : [{ tag: { value: "empty", color: Color.SecondaryText } }]
+            }
             actions={
               <ActionPanel>
                 <Action title={`Change ${f.name}`} onAction={() => setSelectedField(f.key)} />
@@ -358,13 +412,24 @@ export default function WorkflowStatusBoard() {
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>("all");
   const [scope, setScope] = useState<TicketScope>("my-tickets");
+  const [interruptedRuns, setInterruptedRuns] = useState<ChainRun[]>([]);
   const { push } = useNavigation();
 
   const load = useCallback(async () => {
     setLoading(true);
     try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      if (isSetupNeeded(getJiraServer())) {
+        push(<SetupForm onDone={load} />);
+        return;
+      }
       const fetched = await getMyInProgressIssues(scope);
+      await discoverWorkflows(fetched.map((i) => projectOfKey(i.key)));
       setIssues(fetched);
+      setInterruptedRuns(await getChainRuns());
+      // The list loaded, so Jira is reachable: replay moves queued while it was not
+      if (await replayQueueWithToast()) setIssues(await getMyInProgressIssues(scope));
     } catch (e: unknown) {
       await showToast({
         style: Toast.Style.Failure,
@@ -380,20 +445,31 @@ export default function WorkflowStatusBoard() {
     load();
   }, [load]);
 
-  async function handleTransitionError(issueKey: string, error: unknown, retryFn: () => Promise<void>) {
-    const msg = error instanceof Error ? error.message : String(error);
-    const missingFields = parseMissingFieldsFromError(msg);
-    if (missingFields.length > 0) {
-      push(<MissingFieldsForm issueKey={issueKey} missingFields={missingFields} onComplete={retryFn} />);
+  async function handleTransitionError(
+    issueKey: string,
+    targetStatus: string,
+    error: unknown,
+    retryFn: () => Promise<void>,
+  ) {
+    if (error instanceof MissingFieldsError) {
+      push(
+        <MissingFieldsForm
+          issueKey={issueKey}
+          missingFields={error.fields}
+          targetStatus={targetStatus}
+          onComplete={retryFn}
+        />,
+      );
     } else {
-      await showToast({ style: Toast.Style.Failure, title: "Transition failed", message: msg });
+      const msg = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: failureTitle(error, "Transition failed"), message: msg });
     }
   }
 
-  async function ensureDevDatesAndRun(issueKey: string, action: () => Promise<void>) {
+  async function ensureDevDatesAndRun(issueKey: string, targetStatus: string, action: () => Promise<void>) {
     const toast = await showToast({ style: Toast.Style.Animated, title: "Checking required fields…" });
     try {
-      const { filled, stillMissing } = await autoFillDevDates(issueKey);
+      const { filled, stillMissing, unavailable } = await autoFillBeforeDone(issueKey, targetStatus);
       if (filled.length > 0) {
         toast.title = "Auto-filled dates";
         toast.message = filled.join(", ");
@@ -401,9 +477,16 @@ export default function WorkflowStatusBoard() {
       toast.hide();
 
       if (stillMissing.length > 0) {
-        push(<MissingFieldsForm issueKey={issueKey} missingFields={stillMissing} onComplete={action} />);
+        push(
+          <MissingFieldsForm
+            issueKey={issueKey}
+            missingFields={stillMissing.map((name) => ({ name }))}
+            onComplete={action}
+          />,
+        );
       } else {
         await action();
+        if (unavailable.length > 0) await showUnavailableFieldsNotice(unavailable);
       }
     } catch (e: unknown) {
       toast.style = Toast.Style.Failure;
@@ -414,7 +497,7 @@ export default function WorkflowStatusBoard() {
   }
 
   async function advanceIssue(issue: JiraIssue) {
-    const next = getNextStatus(issue.status, issue.type);
+    const next = getNextStatus(issue.status, issue.type, projectOfKey(issue.key));
     if (!next) return;
 
     const doTransition = async () => {
@@ -425,11 +508,12 @@ export default function WorkflowStatusBoard() {
       });
 
       try {
-        await transitionIssue(issue.key, next.status);
+        const { unavailable } = await showingRetries(toast, () => transitionIssue(issue.key, next.status));
         setIssues((prev) => prev.map((i) => (i.key === issue.key ? { ...i, status: next.status } : i)));
         toast.style = Toast.Style.Success;
         toast.title = `${issue.key} advanced`;
         toast.message = `${next.emoji} ${next.status}`;
+        offerUndoInToast(toast, issue.key, load);
 
         try {
           const result = await autoAssignForStatus(issue.key, next.status);
@@ -442,22 +526,34 @@ export default function WorkflowStatusBoard() {
         } catch {
           /* auto-assign is best-effort */
         }
+        if (unavailable.length > 0) await showUnavailableFieldsNotice(unavailable);
       } catch (e: unknown) {
+        const move = {
+          ticketKey: issue.key,
+          fromStatus: issue.status,
+          steps: [next.status],
+          fillDevDates: next.status === "Done" && !isDocType(issue.type),
+          autoAssign: true,
+        };
+        if (await queueIfOffline(e, move)) {
+          showQueuedInToast(toast, issue.key);
+          return;
+        }
         toast.style = Toast.Style.Failure;
         toast.title = "Transition failed";
-        await handleTransitionError(issue.key, e, doTransition);
+        await handleTransitionError(issue.key, next.status, e, doTransition);
       }
     };
 
     if (next.status === "Done" && !isDocType(issue.type)) {
-      await ensureDevDatesAndRun(issue.key, doTransition);
+      await ensureDevDatesAndRun(issue.key, next.status, doTransition);
     } else {
       await doTransition();
     }
   }
 
   async function regressIssue(issue: JiraIssue) {
-    const prev = getPreviousStatus(issue.status, issue.type);
+    const prev = getPreviousStatus(issue.status, issue.type, projectOfKey(issue.key));
     if (!prev) return;
 
     const toast = await showToast({
@@ -467,11 +563,12 @@ export default function WorkflowStatusBoard() {
     });
 
     try {
-      await transitionIssue(issue.key, prev.status);
+      await showingRetries(toast, () => transitionIssue(issue.key, prev.status));
       setIssues((prev_) => prev_.map((i) => (i.key === issue.key ? { ...i, status: prev.status } : i)));
       toast.style = Toast.Style.Success;
       toast.title = `${issue.key} moved back`;
       toast.message = `${prev.emoji} ${prev.status}`;
+      offerUndoInToast(toast, issue.key, load);
 
       try {
         const result = await autoAssignForStatus(issue.key, prev.status);
@@ -485,48 +582,112 @@ export default function WorkflowStatusBoard() {
         /* auto-assign is best-effort */
       }
     } catch (e: unknown) {
+      const move = {
+        ticketKey: issue.key,
+        fromStatus: issue.status,
+        steps: [prev.status],
+        fillDevDates: false,
+        autoAssign: true,
+      };
+      if (await queueIfOffline(e, move)) {
+        showQueuedInToast(toast, issue.key);
+        return;
+      }
       toast.style = Toast.Style.Failure;
       toast.title = "Transition failed";
-      await handleTransitionError(issue.key, e, () => regressIssue(issue));
+      await handleTransitionError(issue.key, prev.status, e, () => regressIssue(issue));
     }
   }
 
   async function moveToDone(issue: JiraIssue) {
-    const remaining = getRemainingSteps(issue.status, issue.type);
+    const remaining = getRemainingSteps(issue.status, issue.type, projectOfKey(issue.key));
     if (remaining.length === 0) return;
 
-    const doTransitions = async () => {
-      const toast = await showToast({
-        style: Toast.Style.Animated,
-        title: `Moving ${issue.key} to Done`,
-        message: `${remaining.length} transitions…`,
-      });
+    const doTransitions = () => runChain(issue, remaining);
+
+    if (isDocType(issue.type)) {
+      await doTransitions();
+    } else {
+      await ensureDevDatesAndRun(issue.key, remaining.at(-1)!.status, doTransitions);
+    }
+  }
 
-      let current = issue.status;
-      for (const step of remaining) {
+  /** Move `issue` along `steps`, saving progress after each hop so a run cut short can be resumed. */
+  async function runChain(issue: JiraIssue, steps: WorkflowStep[]) {
+    const target = steps.at(-1)!.status;
+    const endsWorkflow = !getNextStatus(target, issue.type, projectOfKey(issue.key));
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Moving ${issue.key} to ${target}`,
+      message: `${steps.length} transitions…`,
+    });
+
+    const run = await startChainRun({
+      ticketKey: issue.key,
+      fromStatus: issue.status,
+      steps: steps.map((s) => s.status),
+      fillDevDates: endsWorkflow && !isDocType(issue.type),
+    });
+    let current = issue.status;
+    let path = steps;
+    let replans = 0;
+    try {
+      while (path.length > 0) {
+        const step = path[0];
         try {
-          await transitionIssue(issue.key, step.status);
-          current = step.status;
+          const hop = await showingRetries(toast, async () => {
+            await transitionIssue(issue.key, step.status);
+            return checkHop(issue.key, step.status, target, replans);
+          });
+          current = hop.issue.status;
           try {
-            await autoAssignForStatus(issue.key, step.status);
+            await autoAssignForStatus(issue.key, current);
           } catch {
             /* best-effort */
           }
-          await new Promise((r) => setTimeout(r, 600));
+          if (hop.kind === "stuck") throw new Error(hop.reason);
+          if (hop.kind === "arrived") break;
+          if (hop.kind === "replanned") {
+            replans++;
+            path = hop.route.steps;
+            toast.message = `Re-planned from ${current}`;
+          } else {
+            path = path.slice(1);
+          }
+          await recordChainRunHop(
+            run,
+            current,
+            path.map((s) => s.status),
+          );
         } catch (e: unknown) {
-          toast.style = Toast.Style.Failure;
-          toast.title = `Failed at ${step.status}`;
           setIssues((prev) => prev.map((i) => (i.key === issue.key ? { ...i, status: current } : i)));
+          const move = {
+            ticketKey: issue.key,
+            fromStatus: current,
+            steps: path.map((s) => s.status),
+            fillDevDates: run.fillDevDates,
+            autoAssign: true,
+          };
+          if (await queueIfOffline(e, move)) {
+            // The offline queue replays the rest of the move
+            await removeChainRun(run);
+            showQueuedInToast(toast, issue.key);
+            return;
+          }
+          toast.style = Toast.Style.Failure;
+          toast.title = failureTitle(e, `Failed at ${step.status}`);
 
           const msg = e instanceof Error ? e.message : String(e);
-          const missingFields = parseMissingFieldsFromError(msg);
-          if (missingFields.length > 0) {
+          await recordChainRunFailure(run, step.status, msg);
+          if (e instanceof MissingFieldsError) {
             toast.hide();
+            const rest = path;
             push(
               <MissingFieldsForm
                 issueKey={issue.key}
-                missingFields={missingFields}
-                onComplete={() => moveToDone({ ...issue, status: current })}
+                missingFields={e.fields}
+                targetStatus={step.status}
+                onComplete={() => withIssueSnapshots(() => runChain({ ...issue, status: current }, rest))}
               />,
             );
           } else {
@@ -536,20 +697,70 @@ export default function WorkflowStatusBoard() {
         }
       }
 
-      setIssues((prev) => prev.filter((i) => i.key !== issue.key));
+      await removeChainRun(run);
       toast.style = Toast.Style.Success;
-      toast.title = `${issue.key} is Done!`;
-      toast.message = "Removed from board";
-    };
+      if (endsWorkflow) {
+        setIssues((prev) => prev.filter((i) => i.key !== issue.key));
+        toast.title = `${issue.key} is Done!`;
+        toast.message = "Removed from board";
+      } else {
+        setIssues((prev) => prev.map((i) => (i.key === issue.key ? { ...i, status: current } : i)));
+        toast.title = `${issue.key} moved to ${current}`;
+        toast.message = undefined;
+      }
+      offerUndoInToast(toast, issue.key, load);
+    } finally {
+      setInterruptedRuns(await getChainRuns());
+    }
+  }
 
-    if (isDocType(issue.type)) {
-      await doTransitions();
-    } else {
-      await ensureDevDatesAndRun(issue.key, doTransitions);
+  /** Carry an interrupted run on from wherever its ticket is now; the route is planned again. */
+  async function resumeRun(run: ChainRun) {
+    const target = chainRunTarget(run);
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Resuming ${run.ticketKey}` });
+    try {
+      const issue = await getIssueDetails(run.ticketKey);
+      const route = await planTransitionPath(issue, target);
+      if (!route) throw new Error(`No known way from "${issue.status}" to "${target}"; discard the move instead.`);
+      toast.hide();
+      if (route.steps.length === 0) {
+        await removeChainRun(run);
+        setInterruptedRuns(await getChainRuns());
+        await showToast({ style: Toast.Style.Success, title: `${issue.key} is already in ${target}` });
+        return;
+      }
+
+      const resume = () => runChain(issue, route.steps);
+      if (run.fillDevDates) await ensureDevDatesAndRun(issue.key, target, resume);
+      else await resume();
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = failureTitle(e, `Could not resume ${run.ticketKey}`);
+      toast.message = e instanceof Error ? e.message : String(e);
     }
   }
 
-  const boardStatuses = ALL_BOARD_STATUSES;
+  let boardStatuses: WorkflowStep[];
+  try {
+    boardStatuses = getBoardStatuses();
+  } catch (e: unknown) {
+    return (
+      <List>
+        <List.EmptyView
+          icon={Icon.Warning}
+          title="Invalid configuration"
+          description={e instanceof Error ? e.message : String(e)}
+          actions={
+            <ActionPanel>
+              <Action title="Open Preferences" onAction={openExtensionPreferences} />
+            </ActionPanel>
+          }
+        />
+      </List>
+    );
+  }
+  const customColors = hasWorkflowConfigFile();
+  const profileName = getActiveProfileName();
   const boardStatusNames = boardStatuses.map((s) => s.status);
 
   const grouped = boardStatusNames.reduce<Record<string, JiraIssue[]>>((acc, status) => {
@@ -572,8 +783,10 @@ export default function WorkflowStatusBoard() {
   return (
     <List
       isLoading={loading}
-      navigationTitle={scope === "my-tickets" ? "My Tickets" : "Assigned to Me"}
-      searchBarPlaceholder={scope === "my-tickets" ? "Search my tickets (Developer/Dev List)…" : "Search assigned tickets…"}
+      navigationTitle={`${scope === "my-tickets" ? "My Tickets" : "Assigned to Me"}${profileName === PREFERENCES_PROFILE ? "" : ` · ${profileName}`}`}
+      searchBarPlaceholder={
+        scope === "my-tickets" ? "Search my tickets (Developer/Dev List)…" : "Search assigned tickets…"
+      }
       searchBarAccessory={
         <List.Dropdown tooltip="Scope & Status" onChange={handleDropdownChange}>
           <List.Dropdown.Section title="Ticket Scope">
@@ -591,11 +804,57 @@ export default function WorkflowStatusBoard() {
       actions={
         <ActionPanel>
           <Action title="Refresh" onAction={load} shortcut={{ modifiers: ["cmd"], key: "r" }} />
+          <SwitchProfileSubmenu onSwitch={load} />
+          <ClearJiraCacheAction onCleared={load} />
         </ActionPanel>
       }
     >
       {issues.length === 0 && !loading && (
-        <List.EmptyView title="No in-progress tickets" description="All caught up!" icon="🎉" />
+        <List.EmptyView
+          title="No in-progress tickets"
+          description="All caught up!"
+          icon="🎉"
+          actions={
+            <ActionPanel>
+              <Action title="Refresh Board" onAction={load} shortcut={{ modifiers: ["cmd"], key: "r" }} />
+              <Action title="Run Setup" icon={Icon.Gear} onAction={() => push(<SetupForm onDone={load} />)} />
+              <Action title="Open Preferences" onAction={openExtensionPreferences} />
+            </ActionPanel>
+          }
+        />
+      )}
+
+      {filter === "all" && interruptedRuns.length > 0 && (
+        <List.Section title="⏸️ Interrupted Moves" subtitle={`${interruptedRuns.length}`}>
+          {interruptedRuns.map((run) => (
+            <List.Item
+              key={`run-${run.ticketKey}`}
+              title={run.ticketKey}
+              subtitle={describeChainRun(run)}
+              icon={{ source: Icon.Pause, tintColor: Color.Orange }}
+              accessories={[
+                { text: `→ ${chainRunTarget(run)}` },
+                run.error ? { icon: Icon.Warning, tooltip: run.error } : {},
+                { date: new Date(run.updatedAt), tooltip: "Last hop" },
+              ]}
+              actions={
+                <ActionPanel>
+                  <InterruptedRunActions
+                    run={run}
+                    onResume={() => withIssueSnapshots(() => resumeRun(run))}
+                    onDiscarded={async () => setInterruptedRuns(await getChainRuns())}
+                  />
+                  <Action
+                    title="Open in Jira"
+                    shortcut={{ modifiers: ["cmd"], key: "o" }}
+                    onAction={() => openIssueInJira(run.ticketKey)}
+                  />
+                  <Action title="Refresh Board" onAction={load} shortcut={{ modifiers: ["cmd"], key: "r" }} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
       )}
 
       {sectionedStatuses.map((statusName) => {
@@ -611,14 +870,15 @@ export default function WorkflowStatusBoard() {
             subtitle={`${sectionIssues.length} ticket${sectionIssues.length !== 1 ? "s" : ""}`}
           >
             {sectionIssues.map((issue) => {
-              const next = getNextStatus(issue.status, issue.type);
-              const remaining = getRemainingSteps(issue.status, issue.type).length;
-              const color =
-                STATUS_COLORS[normalizeStatus(issue.status)] ??
-                STATUS_COLORS[issue.status.toUpperCase()] ??
-                Color.PrimaryText;
+              const next = getNextStatus(issue.status, issue.type, projectOfKey(issue.key));
+              const remaining = getRemainingSteps(issue.status, issue.type, projectOfKey(issue.key)).length;
+              const color = customColors
+                ? step.color
+                : (STATUS_COLORS[normalizeStatus(issue.status)] ??
+                  STATUS_COLORS[issue.status.toUpperCase()] ??
+                  Color.PrimaryText);
 
-              const prev = getPreviousStatus(issue.status, issue.type);
+              const prev = getPreviousStatus(issue.status, issue.type, projectOfKey(issue.key));
 
               return (
                 <List.Item
@@ -640,23 +900,24 @@ export default function WorkflowStatusBoard() {
                           <Action
                             title={`Advance to ${next.emoji} ${next.status}`}
                             shortcut={{ modifiers: ["cmd"], key: "return" }}
-                            onAction={() => advanceIssue(issue)}
+                            onAction={() => withIssueSnapshots(() => advanceIssue(issue))}
                           />
                         )}
                         {prev && (
                           <Action
                             title={`Move Back to ${prev.emoji} ${prev.status}`}
                             shortcut={{ modifiers: ["cmd"], key: "backspace" }}
-                            onAction={() => regressIssue(issue)}
+                            onAction={() => withIssueSnapshots(() => regressIssue(issue))}
                           />
                         )}
                         {remaining > 0 && (
                           <Action
                             title={`Move to Done (${remaining} step${remaining !== 1 ? "s" : ""})`}
                             shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
-                            onAction={() => moveToDone(issue)}
+                            onAction={() => withIssueSnapshots(() => moveToDone(issue))}
                           />
                         )}
+                        <UndoLastMoveAction ticketKey={issue.key} onUndone={load} />
                       </ActionPanel.Section>
                       <ActionPanel.Section title="Info">
                         <Action
@@ -680,14 +941,7 @@ export default function WorkflowStatusBoard() {
                           title="Change Dev Dates"
                           icon={Icon.Calendar}
                           shortcut={{ modifiers: ["cmd"], key: "d" }}
-                          onAction={() =>
-                            push(
-                              <DevDatesForm
-                                issueKey={issue.key}
-                                onUpdated={load}
-                              />,
-                            )
-                          }
+                          onAction={() => push(<DevDatesForm issueKey={issue.key} onUpdated={load} />)}
                         />
                         <Action
                           title="Open in Jira"
@@ -703,7 +957,15 @@ export default function WorkflowStatusBoard() {
                       </ActionPanel.Section>
                       <ActionPanel.Section>
                         <Action title="Refresh Board" onAction={load} shortcut={{ modifiers: ["cmd"], key: "r" }} />
+                        <Action
+                          title="Show Pending Transitions"
+                          icon={Icon.Clock}
+                          onAction={() => push(<PendingTransitions onReplayed={load} />)}
+                        />
+                        <SwitchProfileSubmenu onSwitch={load} />
                         <Action title="Open Preferences" onAction={openExtensionPreferences} />
+                        <Action title="Run Setup" icon={Icon.Gear} onAction={() => push(<SetupForm onDone={load} />)} />
+                        <ClearJiraCacheAction onCleared={load} />
                       </ActionPanel.Section>
                     </ActionPanel>
                   }
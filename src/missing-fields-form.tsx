@@ -1,20 +1,27 @@
 import { ActionPanel, Action, Form, showToast, Toast, useNavigation } from "@raycast/api";
 import { useState, useEffect } from "react";
-import { setIssueCustomFields, getRoleAssignee, getCurrentUser } from "./utils";
+import { failureTitle, type MissingField } from "./errors";
+import { UserPicker } from "./user-picker";
+import {
+  setIssueCustomFields,
+  getMissingFieldSpecs,
+  getRoleAssignee,
+  getCurrentUser,
+  type FieldInput,
+  type FieldSpec,
+  type JiraUser,
+} from "./utils";
 
 interface MissingFieldsFormProps {
   issueKey: string;
-  missingFields: string[];
+  missingFields: MissingField[];
+  /** Status the issue is moving to; its transition screen describes the fields best. */
+  targetStatus?: string;
   onComplete: () => void;
 }
 
-function isDateField(fieldName: string): boolean {
-  return /date/i.test(fieldName);
-}
-
-function isUserField(fieldName: string): boolean {
-  const lower = fieldName.toLowerCase();
-  return lower.includes("developer") || lower.includes("reviewer") || lower.includes("qa") || lower.includes("assignee");
+function formId(name: string): string {
+  return name.replaceAll(/\s+/g, "_");
 }
 
 function formatDate(d: Date): string {
@@ -24,57 +31,91 @@ function formatDate(d: Date): string {
   return `${y}-${m}-${day}`;
 }
 
-export default function MissingFieldsForm({ issueKey, missingFields, onComplete }: MissingFieldsFormProps) {
+/** Jira wants `2026-01-05T09:30:00.000+0000`, not the `Z` suffix of toISOString(). */
+function formatDateTime(d: Date): string {
+  return d.toISOString().replace("Z", "+0000");
+}
+
+function defaultUserHint(name: string, currentUser: JiraUser): string {
+  const lower = name.toLowerCase();
+  const me = currentUser.emailAddress || currentUser.displayName;
+  if (lower.includes("developer")) return getRoleAssignee("developer") || me;
+  if (lower.includes("qa") || lower.includes("tester")) return getRoleAssignee("qa") || me;
+  if (lower.includes("reviewer")) return getRoleAssignee("reviewer") || me;
+  return me;
+}
+
+/** Turn a form value into what setIssueCustomFields expects; undefined when left empty. */
+function toFieldInput(spec: FieldSpec, value: unknown): FieldInput | undefined {
+  if (value instanceof Date) return spec.kind === "datetime" ? formatDateTime(value) : formatDate(value);
+  if (Array.isArray(value)) return value.length > 0 ? (value as string[]) : undefined;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+
+  const text = value.trim();
+  if (spec.kind === "number") return Number(text);
+  if (spec.kind === "cascade") {
+    const [parent, child] = text.split("/");
+    return { parent, child };
+  }
+  return text;
+}
+
+export default function MissingFieldsForm({
+  issueKey,
+  missingFields,
+  targetStatus,
+  onComplete,
+}: MissingFieldsFormProps) {
   const { pop } = useNavigation();
   const [submitting, setSubmitting] = useState(false);
+  const [specs, setSpecs] = useState<FieldSpec[] | null>(null);
   const [defaultValues, setDefaultValues] = useState<Record<string, string | Date>>({});
-  const [loadingDefaults, setLoadingDefaults] = useState(true);
+  const [numberErrors, setNumberErrors] = useState<Record<string, string | undefined>>({});
 
   useEffect(() => {
-    async function loadDefaults() {
+    async function load() {
+      let loaded: FieldSpec[];
+      try {
+        loaded = await getMissingFieldSpecs(issueKey, missingFields, targetStatus);
+      } catch {
+        loaded = missingFields.map((f) => ({ name: f.name, id: f.id, kind: "text", required: true, options: [] }));
+      }
+
       const defaults: Record<string, string | Date> = {};
       try {
         const currentUser = await getCurrentUser();
-        
-        for (const name of missingFields) {
-          const lower = name.toLowerCase();
-          const id = name.replaceAll(/\s+/g, "_");
-          
-          if (isDateField(name)) {
-            defaults[id] = new Date();
-          } else if (lower.includes("developer")) {
-            defaults[id] = getRoleAssignee("developer") || currentUser.emailAddress || currentUser.displayName;
-          } else if (lower.includes("qa") || lower.includes("tester")) {
-            defaults[id] = getRoleAssignee("qa") || currentUser.emailAddress || currentUser.displayName;
-          } else if (lower.includes("reviewer")) {
-            defaults[id] = getRoleAssignee("reviewer") || currentUser.emailAddress || currentUser.displayName;
-          } else if (isUserField(name)) {
-            defaults[id] = currentUser.emailAddress || currentUser.displayName;
+        for (const spec of loaded) {
+          if (spec.kind === "date" || spec.kind === "datetime") {
+            defaults[formId(spec.name)] = new Date();
+          } else if (spec.kind === "user" || spec.kind === "multiuser") {
+            defaults[formId(spec.name)] = defaultUserHint(spec.name, currentUser);
           }
         }
-      } catch (e) {
+      } catch {
         // silently fail and just don't set defaults
       }
-      
+
       setDefaultValues(defaults);
-      setLoadingDefaults(false);
+      setSpecs(loaded);
     }
-    
-    loadDefaults();
-  }, [missingFields]);
+
+    load();
+  }, [issueKey, missingFields, targetStatus]);
+
+  function validateNumber(id: string, value: string) {
+    const invalid = value.trim() !== "" && !Number.isFinite(Number(value.trim()));
+    setNumberErrors((prev) => ({ ...prev, [id]: invalid ? "Enter a number" : undefined }));
+  }
 
   async function handleSubmit(values: Record<string, unknown>) {
+    if (!specs) return;
+    if (Object.values(numberErrors).some(Boolean)) return;
+
     setSubmitting(true);
-    const fields: Record<string, string> = {};
-
-    for (const name of missingFields) {
-      const id = name.replaceAll(/\s+/g, "_");
-      const val = values[id];
-      if (val instanceof Date) {
-        fields[name] = formatDate(val);
-      } else if (typeof val === "string" && val.trim()) {
-        fields[name] = val.trim();
-      }
+    const fields: Record<string, FieldInput> = {};
+    for (const spec of specs) {
+      const input = toFieldInput(spec, values[formId(spec.name)]);
+      if (input !== undefined) fields[spec.name] = input;
     }
 
     if (Object.keys(fields).length === 0) {
@@ -88,23 +129,100 @@ export default function MissingFieldsForm({ issueKey, missingFields, onComplete
       await setIssueCustomFields(issueKey, fields);
       toast.style = Toast.Style.Success;
       toast.title = "Fields updated";
-      toast.message = Object.entries(fields)
-        .map(([k, v]) => `${k}: ${v}`)
-        .join(", ");
+      toast.message = Object.keys(fields).join(", ");
       pop();
       onComplete();
     } catch (e: unknown) {
       toast.style = Toast.Style.Failure;
-      toast.title = "Failed to set fields";
+      toast.title = failureTitle(e, "Failed to set fields");
       toast.message = e instanceof Error ? e.message : String(e);
       setSubmitting(false);
     }
   }
 
+  function renderField(spec: FieldSpec) {
+    const id = formId(spec.name);
+    const defaultVal = defaultValues[id];
+
+    switch (spec.kind) {
+      case "date":
+      case "datetime":
+        return (
+          <Form.DatePicker
+            key={id}
+            id={id}
+            title={spec.name}
+            type={spec.kind === "datetime" ? Form.DatePicker.Type.DateTime : Form.DatePicker.Type.Date}
+            defaultValue={defaultVal as Date | undefined}
+          />
+        );
+      case "user":
+        return <UserPicker key={id} id={id} title={spec.name} initialQuery={(defaultVal as string) ?? ""} />;
+      case "select":
+      case "cascade":
+        if (spec.options.length === 0) break;
+        return (
+          <Form.Dropdown key={id} id={id} title={spec.name}>
+            {spec.options.flatMap((o) => [
+              <Form.Dropdown.Item key={o.id} value={o.id} title={o.label} />,
+              ...(o.children ?? []).map((c) => (
+                <Form.Dropdown.Item
+                  key={`${o.id}/${c.id}`}
+                  value={`${o.id}/${c.id}`}
+                  title={`${o.label} › ${c.label}`}
+                />
+              )),
+            ])}
+          </Form.Dropdown>
+        );
+      case "multiselect":
+        if (spec.options.length === 0) break;
+        return (
+          <Form.TagPicker key={id} id={id} title={spec.name}>
+            {spec.options.map((o) => (
+              <Form.TagPicker.Item key={o.id} value={o.id} title={o.label} />
+            ))}
+          </Form.TagPicker>
+        );
+      case "number":
+        return (
+          <Form.TextField
+            key={id}
+            id={id}
+            title={spec.name}
+            placeholder="Enter a number"
+            error={numberErrors[id]}
+            onChange={(value) => validateNumber(id, value)}
+          />
+        );
+      case "labels":
+      case "multiuser":
+        return (
+          <Form.TextField
+            key={id}
+            id={id}
+            title={spec.name}
+            placeholder={spec.kind === "labels" ? "label-one, label-two" : "Emails or usernames, comma-separated"}
+            defaultValue={defaultVal as string | undefined}
+          />
+        );
+    }
+
+    return (
+      <Form.TextField
+        key={id}
+        id={id}
+        title={spec.name}
+        placeholder={`Enter ${spec.name}`}
+        defaultValue={defaultVal as string | undefined}
+      />
+    );
+  }
+
   return (
     <Form
       navigationTitle={`${issueKey} — Fill Required Fields`}
-      isLoading={submitting || loadingDefaults}
+      isLoading={submitting || !specs}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Save & Continue" onSubmit={handleSubmit} />
@@ -112,15 +230,7 @@ export default function MissingFieldsForm({ issueKey, missingFields, onComplete
       }
     >
       <Form.Description text={`The following fields are required before transitioning ${issueKey}.`} />
-      {!loadingDefaults && missingFields.map((name) => {
-        const id = name.replaceAll(/\s+/g, "_");
-        const defaultVal = defaultValues[id];
-        
-        if (isDateField(name)) {
-          return <Form.DatePicker key={id} id={id} title={name} type={Form.DatePicker.Type.Date} defaultValue={defaultVal as Date | undefined} />;
-        }
-        return <Form.TextField key={id} id={id} title={name} placeholder={`Enter ${name}`} defaultValue={defaultVal as string | undefined} />;
-      })}
+      {specs?.map(renderField)}
     </Form>
   );
 }
@@ -0,0 +1,174 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { failureTitle, MissingFieldsError } from "./errors";
+import MissingFieldsForm from "./missing-fields-form";
+import { restoreActiveProfile } from "./profiles";
+import { restoreSetup } from "./setup";
+import {
+  clearTransitionQueue,
+  getQueuedTransitions,
+  queuedTarget,
+  removeQueuedTransition,
+  replayQueuedTransition,
+  replayQueueWithToast,
+  type QueuedTransition,
+  type ReplayOutcome,
+} from "./transition-queue";
+import { getJiraIssueBrowseUrl, getJiraServer } from "./utils";
+
+interface PendingTransitionsProps {
+  /** Called whenever a replay changed something in Jira, so the command that pushed this list can refresh. */
+  onReplayed?: () => void;
+}
+
+function replayToast(outcome: ReplayOutcome): Toast.Options {
+  const key = outcome.item.ticketKey;
+  switch (outcome.kind) {
+    case "applied":
+      return { style: Toast.Style.Success, title: `${key} moved`, message: `Now: ${outcome.status}` };
+    case "already":
+      return { style: Toast.Style.Success, title: `${key} was already there`, message: `Now: ${outcome.status}` };
+    case "stale":
+      return {
+        style: Toast.Style.Failure,
+        title: `${key} changed since`,
+        message: `It is in ${outcome.status} now; the queued move was dropped.`,
+      };
+    case "offline":
+      return { style: Toast.Style.Failure, title: "Jira is still unreachable", message: outcome.error.message };
+    case "failed":
+      return {
+        style: Toast.Style.Failure,
+        title: failureTitle(outcome.error, `${key} did not move`),
+        message: outcome.error.message,
+      };
+  }
+}
+
+/** Moves that failed while Jira was unreachable, with actions to replay or drop them. */
+export default function PendingTransitions({ onReplayed }: PendingTransitionsProps) {
+  const [items, setItems] = useState<QueuedTransition[]>([]);
+  const [server, setServer] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { push } = useNavigation();
+
+  async function load() {
+    setLoading(true);
+    try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      setServer(getJiraServer());
+      setItems(await getQueuedTransitions());
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function replayOne(item: QueuedTransition) {
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Replaying ${item.ticketKey}`,
+      message: `${item.fromStatus} → ${queuedTarget(item)}`,
+    });
+    const outcome = await replayQueuedTransition(item);
+    Object.assign(toast, replayToast(outcome));
+    if (outcome.kind === "failed" && outcome.error instanceof MissingFieldsError) {
+      toast.hide();
+      push(
+        <MissingFieldsForm
+          issueKey={item.ticketKey}
+          missingFields={outcome.error.fields}
+          targetStatus={queuedTarget(item)}
+          onComplete={() => replayOne(item)}
+        />,
+      );
+    }
+    if (outcome.kind !== "offline" && outcome.kind !== "failed") onReplayed?.();
+    await load();
+  }
+
+  async function replayAll() {
+    if (await replayQueueWithToast()) onReplayed?.();
+    await load();
+  }
+
+  async function remove(item: QueuedTransition) {
+    await removeQueuedTransition(item.id);
+    await showToast({ style: Toast.Style.Success, title: `Dropped the move of ${item.ticketKey}` });
+    await load();
+  }
+
+  async function clearAll() {
+    const confirmed = await confirmAlert({
+      title: "Drop all queued moves?",
+      message: "None of them will be applied in Jira.",
+      primaryAction: { title: "Drop All", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await clearTransitionQueue();
+    await load();
+  }
+
+  return (
+    <List isLoading={loading} navigationTitle="Pending Transitions">
+      <List.EmptyView
+        icon={Icon.CheckCircle}
+        title="No pending transitions"
+        description="Moves that fail because Jira is unreachable wait here until they can be replayed."
+      />
+      {items.map((item) => {
+        const elsewhere = item.server !== server;
+        const accessories: List.Item.Accessory[] = [{ date: new Date(item.queuedAt), tooltip: "Queued at" }];
+        if (item.attempts > 0) {
+          accessories.unshift({
+            icon: Icon.Warning,
+            text: `${item.attempts} ${item.attempts === 1 ? "try" : "tries"}`,
+            tooltip: item.lastError,
+          });
+        }
+        if (elsewhere) accessories.unshift({ tag: "Other server", tooltip: item.server });
+
+        return (
+          <List.Item
+            key={item.id}
+            icon={Icon.Clock}
+            title={item.ticketKey}
+            subtitle={`${item.fromStatus} → ${item.steps.join(" → ")}`}
+            accessories={accessories}
+            actions={
+              <ActionPanel>
+                {!elsewhere && <Action title="Replay" icon={Icon.Play} onAction={() => replayOne(item)} />}
+                <Action
+                  title="Replay All"
+                  icon={Icon.Forward}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                  onAction={replayAll}
+                />
+                {!elsewhere && <Action.OpenInBrowser url={getJiraIssueBrowseUrl(item.ticketKey)} />}
+                {item.lastError && <Action.CopyToClipboard title="Copy Last Error" content={item.lastError} />}
+                <Action
+                  title="Drop Move"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => remove(item)}
+                />
+                <Action
+                  title="Drop All Moves"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                  onAction={clearAll}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,36 @@
+import { Action, ActionPanel, Icon, showToast, Toast } from "@raycast/api";
+import { getActiveProfileName, getProfiles, PREFERENCES_PROFILE, switchProfile, type JiraProfile } from "./profiles";
+
+/**
+ * "Switch Profile" submenu listing the configured server profiles.
+ * Renders nothing when no profiles file is set (or it cannot be read).
+ */
+export function SwitchProfileSubmenu({ onSwitch }: Readonly<{ onSwitch: () => void }>) {
+  let profiles: JiraProfile[];
+  try {
+    profiles = getProfiles();
+  } catch {
+    return null;
+  }
+  if (profiles.length === 0) return null;
+
+  const active = getActiveProfileName();
+  const names = [PREFERENCES_PROFILE, ...profiles.map((p) => p.name)];
+
+  return (
+    <ActionPanel.Submenu title="Switch Profile" icon={Icon.Switch} shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}>
+      {names.map((name) => (
+        <Action
+          key={name}
+          title={name}
+          icon={name === active ? Icon.CheckCircle : Icon.Circle}
+          onAction={async () => {
+            await switchProfile(name);
+            await showToast({ style: Toast.Style.Success, title: `Switched to ${name}` });
+            onSwitch();
+          }}
+        />
+      ))}
+    </ActionPanel.Submenu>
+  );
+}
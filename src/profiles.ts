@@ -0,0 +1,223 @@
+import { homedir } from "node:os";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { loadConfigFile } from "./config-file";
+import type { JiraAuthType } from "./jira-client";
+
+// ─── Server Profiles ──────────────────────────────────────────────────────────
+//
+// A profiles file lists named Jira servers. Each profile overrides the matching
+// extension preferences; anything it leaves out falls back to them. The
+// preferences themselves act as the implicit "Preferences" profile.
+
+export const PREFERENCES_PROFILE = "Preferences";
+
+const ACTIVE_PROFILE_KEY = "activeProfile";
+
+export interface JiraProfile {
+  name: string;
+  /** Ticket key prefixes (project keys) whose tickets select this profile automatically. */
+  projects: string[];
+  server?: string;
+  token?: string;
+  authType?: JiraAuthType;
+  email?: string;
+  /** Default project for bare ticket numbers. */
+  project?: string;
+  workflowConfigPath?: string;
+  /** jira-cli config file for this server, passed as JIRA_CONFIG_FILE. */
+  jiraCliConfig?: string;
+  commonAssignees?: string;
+  qaAssignee?: string;
+  reviewerAssignee?: string;
+  developerAssignee?: string;
+  /** Field names mapped to this server's field IDs or names, as in the Field Overrides preference. */
+  fieldOverrides?: string;
+}
+
+export class ProfilesConfigError extends Error {
+  constructor(
+    readonly path: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid profiles file (${path}):\n${problems.map((p) => `- ${p}`).join("\n")}`);
+    this.name = "ProfilesConfigError";
+  }
+}
+
+/** The profile picked with "Switch Profile", restored from LocalStorage. */
+let selected: string | null = null;
+/** Profile chosen for this run from the ticket key's project prefix; wins over `selected`. */
+let selectedForKey: string | null = null;
+/** Set once the user switches profiles during this run; key prefixes no longer pick the profile. */
+let pinned = false;
+let restored = false;
+
+function getProfilesPath(): string {
+  return getPreferenceValues<{ profilesConfigPath?: string }>().profilesConfigPath?.trim() ?? "";
+}
+
+/** Profiles from the profiles file, or an empty list when none is configured. */
+export function getProfiles(): JiraProfile[] {
+  const path = getProfilesPath();
+  return path ? loadProfiles(path) : [];
+}
+
+/**
+ * The profile in effect, or null when the plain preferences are.
+ * A profile picked for the current ticket key takes precedence over the one picked by the user.
+ */
+export function getActiveProfile(): JiraProfile | null {
+  const name = selectedForKey ?? selected;
+  if (!name || name === PREFERENCES_PROFILE) return null;
+  return getProfiles().find((p) => p.name === name) ?? null;
+}
+
+export function getActiveProfileName(): string {
+  return getActiveProfile()?.name ?? PREFERENCES_PROFILE;
+}
+
+/** Read the user's saved profile choice. Call before anything reads preferences; later calls are no-ops. */
+export async function restoreActiveProfile(): Promise<void> {
+  if (restored) return;
+  selected = (await LocalStorage.getItem<string>(ACTIVE_PROFILE_KEY)) ?? null;
+  restored = true;
+}
+
+export async function switchProfile(name: string): Promise<void> {
+  selected = name;
+  selectedForKey = null;
+  pinned = true;
+  restored = true;
+  await LocalStorage.setItem(ACTIVE_PROFILE_KEY, name);
+}
+
+/**
+ * Select the profile mapped to this ticket's project prefix for the rest of the run.
+ * Unmapped prefixes use the user's chosen profile, as does any run where the user switched explicitly.
+ */
+export function selectProfileForKey(ticketKey: string): JiraProfile | null {
+  if (pinned) return null;
+  const prefix = ticketKey.split("-")[0].toUpperCase();
+  const profile = getProfiles().find((p) => p.projects.includes(prefix)) ?? null;
+  selectedForKey = profile?.name ?? null;
+  return profile;
+}
+
+// ─── Profiles File ────────────────────────────────────────────────────────────
+
+/** The named servers in the profiles file at `path`, with their relative paths resolved. */
+export function loadProfiles(path: string): JiraProfile[] {
+  return loadConfigFile(path, validateProfiles, ProfilesConfigError);
+}
+
+const STRING_KEYS = [
+  "server",
+  "token",
+  "email",
+  "project",
+  "workflowConfigPath",
+  "jiraCliConfig",
+  "commonAssignees",
+  "qaAssignee",
+  "reviewerAssignee",
+  "developerAssignee",
+  "fieldOverrides",
+] as const;
+
+/** Paths may start with ~ or be relative to the profiles file. */
+const PATH_KEYS = new Set<string>(["workflowConfigPath", "jiraCliConfig"]);
+
+/**
+ * Check each profile in a parsed profiles file: names unique (and not "Preferences"), string settings
+ * non-empty, basic auth with an email, and each project key claimed by one profile only. All bad
+ * entries are reported together.
+ */
+export function validateProfiles(raw: unknown, path: string): JiraProfile[] {
+  if (
+    !raw ||
+    typeof raw !== "object" ||
+    Array.isArray(raw) ||
+    !Array.isArray((raw as { profiles?: unknown }).profiles)
+  ) {
+    throw new ProfilesConfigError(path, ["top level must be an object with a `profiles` array"]);
+  }
+
+  const problems: string[] = [];
+  const profiles: JiraProfile[] = [];
+  const names = new Set<string>([PREFERENCES_PROFILE.toUpperCase()]);
+  const claimedProjects = new Map<string, string>();
+
+  (raw as { profiles: unknown[] }).profiles.forEach((entry, i) => {
+    const at = `profiles[${i}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      problems.push(`${at}: must be an object`);
+      return;
+    }
+    const obj = entry as Record<string, unknown>;
+
+    if (typeof obj.name !== "string" || !obj.name.trim()) {
+      problems.push(`${at}.name: must be a non-empty string`);
+      return;
+    }
+    const name = obj.name.trim();
+    if (names.has(name.toUpperCase())) {
+      problems.push(`${at}.name: "${name}" is already taken`);
+      return;
+    }
+    names.add(name.toUpperCase());
+
+    const profile: JiraProfile = { name, projects: [] };
+    for (const key of STRING_KEYS) {
+      const value = obj[key];
+      if (value === undefined) continue;
+      if (typeof value !== "string" || !value.trim()) {
+        problems.push(`${at}.${key}: must be a non-empty string`);
+        continue;
+      }
+      profile[key] = PATH_KEYS.has(key) ? resolvePath(value.trim(), path) : value.trim();
+    }
+    if (profile.server) profile.server = profile.server.replace(/\/+$/, "");
+
+    if (obj.authType !== undefined) {
+      if (obj.authType === "bearer" || obj.authType === "basic") {
+        profile.authType = obj.authType;
+      } else {
+        problems.push(`${at}.authType: must be "bearer" or "basic"`);
+      }
+    }
+    if (profile.authType === "basic" && !profile.email) {
+      problems.push(`${at}.email: required when authType is "basic"`);
+    }
+
+    if (obj.projects !== undefined) {
+      if (
+        !Array.isArray(obj.projects) ||
+        !obj.projects.every((p) => typeof p === "string" && /^[A-Z][A-Z0-9_]+$/i.test(p))
+      ) {
+        problems.push(`${at}.projects: must be an array of project keys like "PROJ"`);
+      } else {
+        for (const project of obj.projects as string[]) {
+          const key = project.toUpperCase();
+          const owner = claimedProjects.get(key);
+          if (owner) {
+            problems.push(`${at}.projects: "${key}" is already mapped to profile "${owner}"`);
+          } else {
+            claimedProjects.set(key, name);
+            profile.projects.push(key);
+          }
+        }
+      }
+    }
+
+    profiles.push(profile);
+  });
+
+  if (problems.length > 0) throw new ProfilesConfigError(path, problems);
+  return profiles;
+}
+
+function resolvePath(value: string, profilesPath: string): string {
+  if (value === "~" || value.startsWith("~/")) return `${homedir()}${value.slice(1)}`;
+  return isAbsolute(value) ? value : resolve(dirname(profilesPath), value);
+}
@@ -0,0 +1,116 @@
+import type { Toast } from "@raycast/api";
+import { NetworkError, RateLimitError, TimeoutError, UnavailableError } from "./errors";
+
+// ─── Retries ──────────────────────────────────────────────────────────────────
+//
+// A busy Jira throttles (429) or drops requests at the proxy (502–504). Calls that
+// are safe to repeat go through withRetry(): exponential backoff with jitter, or
+// exactly as long as Jira's Retry-After asks. Commands watch the retries to say
+// why a step is taking longer in their toasts.
+
+export interface RetryPolicy {
+  /** Tries in total, the first one included. */
+  attempts: number;
+  /** Delay before the first retry; doubled for each one after it. */
+  baseDelayMs: number;
+  /** Longest wait between tries. A longer Retry-After gives up instead of waiting. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 4, baseDelayMs: 500, maxDelayMs: 30_000 };
+
+export const NO_RETRY: RetryPolicy = { attempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+
+export interface RetryAttempt {
+  /** What is being retried, e.g. "GET /issue/PROJ-1". */
+  label: string;
+  /** The try about to start (2 for the first retry). */
+  attempt: number;
+  attempts: number;
+  delayMs: number;
+  error: Error;
+}
+
+type RetryListener = (retry: RetryAttempt) => void;
+
+const listeners = new Set<RetryListener>();
+
+/** Errors that already went through their retries, so an outer withRetry() does not repeat them again. */
+const exhausted = new WeakSet<object>();
+
+/**
+ * Worth another try: throttling, an overloaded Jira, or a connection that dropped.
+ * Timeouts are not; a Jira that stayed silent for the whole timeout rarely answers the next try.
+ */
+export function isTransient(error: unknown): boolean {
+  if (!(error instanceof Error) || exhausted.has(error)) return false;
+  if (error instanceof TimeoutError) return false;
+  return error instanceof RateLimitError || error instanceof UnavailableError || error instanceof NetworkError;
+}
+
+/** Jira's Retry-After when it sent one, otherwise exponential backoff with jitter (50–100% of the step). */
+export function retryDelay(attempt: number, error: unknown, policy: RetryPolicy): number {
+  if ((error instanceof RateLimitError || error instanceof UnavailableError) && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + (Math.random() * step) / 2);
+}
+
+/** Call `listener` before every retry until the returned function is called. */
+export function onRetry(listener: RetryListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Run `operation`, trying again on transient failures. `retryable` narrows (or widens) which errors
+ * count; the last error is rethrown once the tries run out or Jira asks for a longer wait than allowed.
+ */
+export async function withRetry<T>(
+  label: string,
+  operation: (attempt: number) => Promise<T>,
+  {
+    policy = DEFAULT_RETRY_POLICY,
+    retryable = isTransient,
+  }: { policy?: RetryPolicy; retryable?: (e: unknown) => boolean } = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (e: unknown) {
+      const delayMs = retryDelay(attempt, e, policy);
+      if (attempt >= policy.attempts || !retryable(e) || delayMs > policy.maxDelayMs) {
+        if (e instanceof Error) exhausted.add(e);
+        throw e;
+      }
+      for (const listener of listeners) {
+        listener({ label, attempt: attempt + 1, attempts: policy.attempts, delayMs, error: e as Error });
+      }
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+function retryReason(error: Error): string {
+  if (error instanceof RateLimitError) return "Jira is rate limiting";
+  if (error instanceof UnavailableError) return "Jira is unavailable";
+  return "Connection to Jira dropped";
+}
+
+/** While `operation` runs, report retries in the toast's message; the message is put back afterwards. */
+export async function showingRetries<T>(toast: Toast, operation: () => Promise<T>): Promise<T> {
+  const message = toast.message;
+  let retried = false;
+  const stop = onRetry(({ attempt, attempts, delayMs, error }) => {
+    retried = true;
+    const wait = delayMs >= 1000 ? ` in ${Math.round(delayMs / 1000)}s` : "";
+    toast.message = `${retryReason(error)}, retrying${wait} (${attempt}/${attempts})…`;
+  });
+  try {
+    return await operation();
+  } finally {
+    stop();
+    if (retried) toast.message = message;
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  Icon,
+  launchCommand,
+  LaunchType,
+  openExtensionPreferences,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { failureTitle } from "./errors";
+import { restoreActiveProfile } from "./profiles";
+import { clearSetup, restoreSetup, saveSetup, skipSetup } from "./setup";
+import { UserPicker } from "./user-picker";
+import {
+  checkConnection,
+  getDefaultProject,
+  getJiraServer,
+  getProjects,
+  getRoleAssignee,
+  getRoleFieldIds,
+  getUserFields,
+  ROLE_FIELDS,
+  type DiagnosticCheck,
+  type JiraProject,
+  type JiraUser,
+  type JiraUserField,
+} from "./utils";
+
+interface SetupFormProps {
+  /** Called after saving or skipping when the form was pushed by another command; it is popped first. */
+  onDone?: () => void;
+}
+
+interface SetupData {
+  projects: JiraProject[];
+  userFields: JiraUserField[];
+  roleFieldIds: Record<string, string | null>;
+}
+
+type SetupValues = Record<string, string>;
+
+/** Stored for the role assignees: what searchJiraUser() finds the person by again. */
+function userQuery(user: JiraUser): string {
+  return user.emailAddress || user.name || user.displayName;
+}
+
+function roleFieldInputId(name: string): string {
+  return `field:${name}`;
+}
+
+/**
+ * First-run setup: checks the server and token, then asks for the default project, the people
+ * for each role and the fields holding those roles. Answers are saved for the current server.
+ */
+export default function SetupForm({ onDone }: SetupFormProps) {
+  const { pop } = useNavigation();
+  const [checks, setChecks] = useState<DiagnosticCheck[] | null>(null);
+  const [data, setData] = useState<SetupData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [server, setServer] = useState("");
+
+  async function load() {
+    setChecks(null);
+    setData(null);
+    setLoadError(null);
+    try {
+      await restoreActiveProfile();
+      await restoreSetup();
+      setServer(getJiraServer());
+      const connection = await checkConnection();
+      setChecks(connection);
+      if (connection.some((c) => c.status === "error")) return;
+
+      const [projects, userFields, roleFieldIds] = await Promise.all([
+        getProjects(),
+        getUserFields(),
+        getRoleFieldIds(),
+      ]);
+      setData({ projects, userFields, roleFieldIds });
+    } catch (e: unknown) {
+      setLoadError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function finish() {
+    if (!onDone) return;
+    pop();
+    onDone();
+  }
+
+  async function handleSubmit(values: SetupValues) {
+    const fieldOverrides = ROLE_FIELDS.filter((name) => values[roleFieldInputId(name)])
+      .map((name) => `${name}=${values[roleFieldInputId(name)]}`)
+      .join(", ");
+    try {
+      await saveSetup(server, {
+        project: values.project || undefined,
+        qaAssignee: values.qaAssignee || undefined,
+        reviewerAssignee: values.reviewerAssignee || undefined,
+        developerAssignee: values.developerAssignee || undefined,
+        fieldOverrides: fieldOverrides || undefined,
+      });
+      await showToast({ style: Toast.Style.Success, title: "Jira is set up", message: server });
+      finish();
+    } catch (e: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: failureTitle(e, "Could not save setup"),
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  async function handleSkip() {
+    await skipSetup(server);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Setup skipped",
+      message: "Using the preferences as they are",
+    });
+    finish();
+  }
+
+  async function handleReset() {
+    await clearSetup(server);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Setup cleared",
+      message: "Using the preferences as they are",
+    });
+    await load();
+  }
+
+  const commonActions = (
+    <>
+      <Action title="Skip Setup" icon={Icon.ArrowRight} onAction={handleSkip} />
+      <Action title="Open Preferences" onAction={openExtensionPreferences} />
+      <Action
+        title="Run Diagnostics"
+        icon={Icon.Heartbeat}
+        onAction={() => launchCommand({ name: "jira-diagnostics", type: LaunchType.UserInitiated })}
+      />
+    </>
+  );
+
+  const failed = checks?.filter((c) => c.status === "error") ?? [];
+  if (failed.length > 0 || loadError) {
+    const problems = [...failed.map((c) => `${c.name}: ${c.detail}`), ...(loadError ? [loadError] : [])];
+    return (
+      <Form
+        navigationTitle="Jira Setup"
+        actions={
+          <ActionPanel>
+            <Action title="Check Again" icon={Icon.ArrowClockwise} onAction={load} />
+            {commonActions}
+          </ActionPanel>
+        }
+      >
+        <Form.Description
+          title="Cannot Reach Jira"
+          text={`${problems.join("\n")}\n\nFix the server URL, token or auth type in preferences, then check again.`}
+        />
+      </Form>
+    );
+  }
+
+  const signedIn = checks?.find((c) => c.name === "Token")?.detail;
+  const defaultProject = getDefaultProject();
+
+  return (
+    <Form
+      navigationTitle="Jira Setup"
+      isLoading={!data}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Setup" icon={Icon.Check} onSubmit={handleSubmit} />
+          {commonActions}
+          <Action title="Reset Setup" icon={Icon.Trash} style={Action.Style.Destructive} onAction={handleReset} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Jira" text={[server, signedIn].filter(Boolean).join("\n")} />
+      {data && (
+        <>
+          <Form.Dropdown
+            id="project"
+            title="Default Project"
+            info="Used when entering bare ticket numbers like '123'."
+            defaultValue={data.projects.some((p) => p.key === defaultProject) ? defaultProject : undefined}
+          >
+            {data.projects.map((p) => (
+              <Form.Dropdown.Item key={p.key} value={p.key} title={`${p.key} — ${p.name}`} keywords={[p.name]} />
+            ))}
+          </Form.Dropdown>
+          <Form.Separator />
+          <UserPicker
+            id="qaAssignee"
+            title="QA"
+            info="Assigned when an issue moves to Testing."
+            initialQuery={getRoleAssignee("qa")}
+            valueFor={userQuery}
+          />
+          <UserPicker
+            id="reviewerAssignee"
+            title="Reviewer"
+            info="Assigned when an issue moves to a review status."
+            initialQuery={getRoleAssignee("reviewer")}
+            valueFor={userQuery}
+          />
+          <UserPicker
+            id="developerAssignee"
+            title="Developer"
+            info="Filled into the Developer field when an issue moves to Doing."
+            initialQuery={getRoleAssignee("developer")}
+            valueFor={userQuery}
+          />
+          <Form.Separator />
+          {ROLE_FIELDS.map((name) => (
+            <Form.Dropdown
+              key={name}
+              id={roleFieldInputId(name)}
+              title={`"${name}" Field`}
+              defaultValue={data.roleFieldIds[name] ?? ""}
+            >
+              <Form.Dropdown.Item value="" title="Not on this Jira" />
+              {data.userFields.map((f) => (
+                <Form.Dropdown.Item key={f.id} value={f.id} title={`${f.name} (${f.id})`} />
+              ))}
+            </Form.Dropdown>
+          ))}
+        </>
+      )}
+    </Form>
+  );
+}
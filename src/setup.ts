@@ -0,0 +1,69 @@
+import { LocalStorage } from "@raycast/api";
+
+// ─── Setup ────────────────────────────────────────────────────────────────────
+//
+// What "Jira: Setup" found out for each server: the default project, the people
+// for each role and which fields hold those roles. Stored in LocalStorage and laid
+// over the extension preferences for every command; a server profile still wins.
+
+const STORAGE_KEY = "setup";
+
+export interface JiraSetup {
+  project?: string;
+  qaAssignee?: string;
+  reviewerAssignee?: string;
+  developerAssignee?: string;
+  /** Role fields mapped to this server's field IDs, in the Field Overrides format. */
+  fieldOverrides?: string;
+  /** The user chose to keep the preferences as they are; setup is not offered again on launch. */
+  skipped?: boolean;
+}
+
+/** Saved setups by server URL (without trailing slash). */
+let setups: Record<string, JiraSetup> = {};
+let restored = false;
+
+function serverKey(server: string): string {
+  return server.trim().replace(/\/+$/, "");
+}
+
+/** Read the saved setups. Call before anything reads preferences; later calls are no-ops. */
+export async function restoreSetup(): Promise<void> {
+  if (restored) return;
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  try {
+    setups = stored ? JSON.parse(stored) : {};
+  } catch {
+    setups = {};
+  }
+  restored = true;
+}
+
+/** The saved answers for `server`, or null when setup was skipped or never run against it. */
+export function getSetup(server: string): JiraSetup | null {
+  const setup = setups[serverKey(server)];
+  return setup && !setup.skipped ? setup : null;
+}
+
+/** True the first time a command talks to `server`: setup was neither completed nor skipped for it. */
+export function isSetupNeeded(server: string): boolean {
+  return restored && !!serverKey(server) && !setups[serverKey(server)];
+}
+
+export async function saveSetup(server: string, setup: JiraSetup): Promise<void> {
+  await restoreSetup();
+  setups = { ...setups, [serverKey(server)]: setup };
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(setups));
+}
+
+export async function skipSetup(server: string): Promise<void> {
+  await saveSetup(server, { skipped: true });
+}
+
+/** Forget the answers for `server`; the preferences apply as they are and setup is offered again. */
+export async function clearSetup(server: string): Promise<void> {
+  await restoreSetup();
+  setups = { ...setups };
+  delete setups[serverKey(server)];
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(setups));
+}
@@ -0,0 +1,199 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { useEffect, useState } from "react";
+import {
+  clearHistory,
+  describeEntry,
+  filterHistory,
+  getHistory,
+  historyToCsv,
+  historyToJson,
+  type HistoryEntry,
+  type HistoryFilter,
+} from "./history";
+
+const DATE_RANGES: Record<string, { title: string; days?: number }> = {
+  all: { title: "Any Time" },
+  today: { title: "Today", days: 0 },
+  week: { title: "Last 7 Days", days: 7 },
+  month: { title: "Last 30 Days", days: 30 },
+};
+
+function sinceFor(range: string): Date | undefined {
+  const days = DATE_RANGES[range]?.days;
+  if (days === undefined) return undefined;
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - days);
+  return since;
+}
+
+const KIND_ICONS: Record<HistoryEntry["kind"], Icon> = {
+  transition: Icon.ArrowRight,
+  assignment: Icon.AddPerson,
+  fields: Icon.Pencil,
+};
+
+function entryMarkdown(entry: HistoryEntry): string {
+  const lines = [`## ${entry.ticketKey}: ${describeEntry(entry)}`, ""];
+  if (entry.kind !== "fields" && entry.fields?.length) {
+    lines.push("**Auto-filled:**", "", ...entry.fields.map((f) => `- ${f}`), "");
+  }
+  if (entry.error) lines.push("**Error:**", "", "```", entry.error, "```");
+  return lines.join("\n");
+}
+
+async function exportHistory(entries: HistoryEntry[], format: "json" | "csv") {
+  const path = join(
+    homedir(),
+    "Downloads",
+    `jira-transition-history-${new Date().toISOString().slice(0, 10)}.${format}`,
+  );
+  try {
+    await writeFile(path, format === "json" ? historyToJson(entries) : historyToCsv(entries));
+    await showToast({ style: Toast.Style.Success, title: `Exported ${entries.length} entries`, message: path });
+    await showInFinder(path);
+  } catch (e: unknown) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Could not export history",
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
+
+/** Every transition, assignment and field update made by the extension, newest first. */
+export default function TransitionHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState("all");
+  const [filter, setFilter] = useState<Pick<HistoryFilter, "ticketKey" | "status">>({});
+
+  async function load() {
+    setLoading(true);
+    try {
+      setEntries((await getHistory()).reverse());
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function clearAll() {
+    const confirmed = await confirmAlert({
+      title: "Clear the transition history?",
+      message: "Export it first if you need it later.",
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await clearHistory();
+    await load();
+  }
+
+  const shown = filterHistory(entries, { ...filter, since: sinceFor(range) });
+  const filterText = [filter.ticketKey, filter.status].filter(Boolean).join(", ");
+
+  return (
+    <List
+      isLoading={loading}
+      isShowingDetail={shown.length > 0}
+      navigationTitle={filterText ? `Transition History: ${filterText}` : "Transition History"}
+      searchBarPlaceholder="Search by ticket, status, field or person"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Date Range" value={range} onChange={setRange}>
+          {Object.entries(DATE_RANGES).map(([value, { title }]) => (
+            <List.Dropdown.Item key={value} value={value} title={title} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        icon={Icon.Clock}
+        title={entries.length > 0 ? "No matching entries" : "No history yet"}
+        description="Transitions, assignments and field updates made by the extension show up here."
+      />
+      {shown.map((entry, i) => (
+        <List.Item
+          key={`${entry.at}-${i}`}
+          icon={{ source: KIND_ICONS[entry.kind], tintColor: entry.ok ? undefined : "#E5484D" }}
+          title={entry.ticketKey}
+          subtitle={describeEntry(entry)}
+          keywords={[entry.fromStatus, entry.toStatus, entry.assignee?.to, ...(entry.fields ?? [])].filter(
+            (k): k is string => !!k,
+          )}
+          accessories={[{ date: new Date(entry.at), tooltip: entry.at }]}
+          detail={
+            <List.Item.Detail
+              markdown={entryMarkdown(entry)}
+              metadata={
+                <List.Item.Detail.Metadata>
+                  <List.Item.Detail.Metadata.Label title="Result" text={entry.ok ? "Succeeded" : "Failed"} />
+                  <List.Item.Detail.Metadata.Label title="When" text={new Date(entry.at).toLocaleString()} />
+                  <List.Item.Detail.Metadata.Label title="Duration" text={`${entry.durationMs} ms`} />
+                  {entry.transitionId && (
+                    <List.Item.Detail.Metadata.Label title="Transition ID" text={entry.transitionId} />
+                  )}
+                  {entry.assignee && (
+                    <List.Item.Detail.Metadata.Label
+                      title="Assignee"
+                      text={`${entry.assignee.from || "Unassigned"} → ${entry.assignee.to || "Unassigned"}`}
+                    />
+                  )}
+                  <List.Item.Detail.Metadata.Label title="Server" text={entry.server} />
+                </List.Item.Detail.Metadata>
+              }
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action.OpenInBrowser url={`${entry.server}/browse/${entry.ticketKey}`} />
+              <ActionPanel.Section title="Filter">
+                <Action
+                  title={`Show Only ${entry.ticketKey}`}
+                  icon={Icon.Filter}
+                  onAction={() => setFilter((f) => ({ ...f, ticketKey: entry.ticketKey }))}
+                />
+                {entry.toStatus && (
+                  <Action
+                    title={`Show Only ${entry.toStatus}`}
+                    icon={Icon.Filter}
+                    onAction={() => setFilter((f) => ({ ...f, status: entry.toStatus }))}
+                  />
+                )}
+                {filterText && <Action title="Clear Filters" icon={Icon.XMarkCircle} onAction={() => setFilter({})} />}
+              </ActionPanel.Section>
+              <ActionPanel.Section title="Export">
+                <Action
+                  title="Export as CSV"
+                  icon={Icon.Download}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+                  onAction={() => exportHistory(shown, "csv")}
+                />
+                <Action title="Export as JSON" icon={Icon.Download} onAction={() => exportHistory(shown, "json")} />
+                {entry.error && <Action.CopyToClipboard title="Copy Error" content={entry.error} />}
+              </ActionPanel.Section>
+              <Action
+                title="Reload"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={load}
+              />
+              <Action
+                title="Clear History"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                onAction={clearAll}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,145 @@
+import { Action, ActionPanel, Detail, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { failureTitle } from "./errors";
+import { describeRoute, type PlannedRoute } from "./transition-planner";
+import { previewMove, type HopPreview, type MovePreview } from "./transition-preview";
+import { getJiraIssueBrowseUrl, isRestBackend, type JiraIssue } from "./utils";
+
+interface TransitionPlanProps {
+  issue: JiraIssue;
+  route: PlannedRoute;
+  /** The move fills empty fields from the planned dates before the first hop. */
+  fillBeforeDone: boolean;
+  /** The move re-assigns the issue after each hop; otherwise the plan leaves assignees out. */
+  autoAssign: boolean;
+  /** Title of the action that starts the move, e.g. "Move to Done". */
+  confirmTitle: string;
+  /** Starts the move, stopping before `pauseBefore` when given; the plan is popped first. */
+  onConfirm: (pauseBefore?: string) => void;
+}
+
+const TRANSITION_SOURCES: Record<HopPreview["source"], string> = {
+  jira: "offered by Jira now",
+  learned: "seen on an earlier move",
+  unknown: "no transition known yet; looked up when the hop runs",
+};
+
+function list(items: string[]): string[] {
+  return items.map((item) => `- ${item}`);
+}
+
+function formatHop(hop: HopPreview, index: number, autoAssign: boolean): string[] {
+  const lines = [`## ${index + 1}. ${hop.from} → ${hop.to}`, ""];
+  lines.push(`**Transition:** ${hop.transition ? `"${hop.transition}"` : "—"} (${TRANSITION_SOURCES[hop.source]})`, "");
+
+  if (hop.autoFilled.length > 0) {
+    lines.push(isRestBackend() ? "**Auto-filled:**" : "**Auto-filled if Jira asks for them:**", "");
+    lines.push(...list(hop.autoFilled), "");
+  }
+  if (autoAssign) lines.push(`**Assigned to:** ${hop.assignee ?? "unchanged"}`, "");
+  if (hop.missing.length > 0) {
+    lines.push("**Still missing** (the move stops here to ask for them):", "", ...list(hop.missing), "");
+  }
+  if (hop.unavailable.length > 0) {
+    lines.push(`Not on this Jira, skipped: ${hop.unavailable.join(", ")}`, "");
+  }
+  if (hop.error) lines.push(`> Could not preview all of this hop: ${hop.error}`, "");
+  return lines;
+}
+
+function formatPlan(
+  issue: JiraIssue,
+  route: PlannedRoute,
+  autoAssign: boolean,
+  preview: MovePreview | null,
+  error: string | null,
+): string {
+  const lines = [`# ${issue.key}: ${issue.status} → ${route.steps.at(-1)?.status ?? issue.status}`, ""];
+  lines.push(describeRoute(issue.status, route).replace("\n\n", "  \n"), "");
+  if (error) {
+    lines.push(`> Could not work out what each hop does: ${error}`, "");
+    lines.push("_The move can still run; each hop is checked as it goes. Nothing has changed in Jira yet._");
+    return lines.join("\n");
+  }
+  if (!preview) return [...lines, "_Working out what each hop does…_"].join("\n");
+
+  const before = preview.beforeDone;
+  if (before && (before.filled.length > 0 || before.stillMissing.length > 0)) {
+    lines.push("## Before the first hop", "");
+    lines.push(...list(before.filled));
+    if (before.stillMissing.length > 0) {
+      lines.push("", `**Still missing** (asked for before the move starts): ${before.stillMissing.join(", ")}`);
+    }
+    lines.push("");
+  }
+  preview.hops.forEach((hop, i) => lines.push(...formatHop(hop, i, autoAssign)));
+  lines.push("---", "", "_Nothing has changed in Jira yet._");
+  return lines.join("\n");
+}
+
+/**
+ * The plan for a move through several statuses, shown before it runs: each hop's transition,
+ * the fields auto-filled with it, who gets assigned (when the move assigns) and what will still be asked for.
+ */
+export default function TransitionPlan({
+  issue,
+  route,
+  fillBeforeDone,
+  autoAssign,
+  confirmTitle,
+  onConfirm,
+}: TransitionPlanProps) {
+  const { pop } = useNavigation();
+  const [preview, setPreview] = useState<MovePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    previewMove(issue, route.steps, fillBeforeDone, autoAssign)
+      .then(setPreview)
+      .catch(async (e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(msg);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: failureTitle(e, "Could not preview the move"),
+          message: msg,
+        });
+      });
+  }, []);
+
+  return (
+    <Detail
+      navigationTitle={`Plan for ${issue.key}`}
+      isLoading={!preview && !error}
+      markdown={formatPlan(issue, route, autoAssign, preview, error)}
+      actions={
+        <ActionPanel>
+          <Action
+            title={confirmTitle}
+            icon={Icon.ArrowRight}
+            onAction={() => {
+              pop();
+              onConfirm();
+            }}
+          />
+          {route.steps.length > 1 && (
+            <ActionPanel.Submenu title={`${confirmTitle} and Pause Before…`} icon={Icon.Pause}>
+              {route.steps.slice(1).map((step) => (
+                <Action
+                  key={step.status}
+                  title={step.status}
+                  onAction={() => {
+                    pop();
+                    onConfirm(step.status);
+                  }}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          <Action title="Cancel" icon={Icon.XMarkCircle} onAction={pop} />
+          <Action.OpenInBrowser url={getJiraIssueBrowseUrl(issue.key)} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,262 @@
+import { showToast, Toast } from "@raycast/api";
+import { cached, CACHE_TTL, getCached, getCachedByPrefix } from "./cache";
+import { failureTitle } from "./errors";
+import {
+  getAvailableTransitionsRest,
+  getIssueDetails,
+  getWorkflowForType,
+  getWorkflowStep,
+  jiraCacheKey,
+  normalizeStatus,
+  projectOfKey,
+  type JiraIssue,
+  type WorkflowStep,
+} from "./utils";
+import type { JiraTransition } from "./jira-client";
+
+// ─── Transition Graph ─────────────────────────────────────────────────────────
+
+interface StatusNode {
+  /** Status name as Jira spells it. */
+  status: string;
+  /** Statuses reachable with one transition, keyed by normalized status. */
+  edges: Map<string, { status: string; transition: string }>;
+}
+
+/** Learned transition graphs per "PROJECT/ISSUE TYPE", keyed by normalized status. */
+const graphs = new Map<string, Map<string, StatusNode>>();
+
+export interface PlannedRoute {
+  steps: WorkflowStep[];
+  /**
+   * "graph" when at least one hop uses a transition Jira actually offered,
+   * "linear" when the route comes from the workflow order alone.
+   */
+  source: "graph" | "linear";
+}
+
+function graphKey(project: string, issueType: string): string {
+  return `${project.toUpperCase()}/${(issueType ?? "").trim().toUpperCase()}`;
+}
+
+/** Transitions out of one status, as kept in the metadata cache. */
+interface LearnedStatus {
+  status: string;
+  transitions: JiraTransition[];
+}
+
+function transitionsCachePrefix(project: string, issueType: string): string {
+  return jiraCacheKey("transitions", graphKey(project, issueType), "");
+}
+
+/** Graphs already filled from the cache during this run. */
+const restoredGraphs = new Set<string>();
+
+/** Add the statuses learned by earlier runs (and not yet expired) to the in-memory graph. */
+async function restoreLearnedTransitions(project: string, issueType: string): Promise<void> {
+  const key = graphKey(project, issueType);
+  if (restoredGraphs.has(key)) return;
+  restoredGraphs.add(key);
+
+  const learned = await getCachedByPrefix<LearnedStatus>(transitionsCachePrefix(project, issueType));
+  for (const { status, transitions } of Object.values(learned)) {
+    if (graphs.get(key)?.has(normalizeStatus(status))) continue;
+    recordTransitions(project, issueType, status, transitions);
+  }
+}
+
+/**
+ * Record the transitions Jira offers from `fromStatus` for this project and issue type.
+ */
+export function recordTransitions(
+  project: string,
+  issueType: string,
+  fromStatus: string,
+  transitions: JiraTransition[],
+): void {
+  const key = graphKey(project, issueType);
+  const graph = graphs.get(key) ?? new Map<string, StatusNode>();
+  graphs.set(key, graph);
+
+  const edges = new Map<string, { status: string; transition: string }>();
+  for (const t of transitions) {
+    const to = t.to?.name;
+    if (!to || normalizeStatus(to) === normalizeStatus(fromStatus)) continue;
+    edges.set(normalizeStatus(to), { status: to, transition: t.name });
+  }
+  graph.set(normalizeStatus(fromStatus), { status: fromStatus, edges });
+}
+
+/**
+ * Fetch and record the transitions available to the issue at its current status.
+ * Reuses what was learned for the same project, issue type and status until it expires.
+ * Returns false when Jira could not be asked (the graph stays as it was).
+ */
+export async function learnTransitions(issue: JiraIssue): Promise<boolean> {
+  const project = projectOfKey(issue.key);
+  try {
+    const { transitions } = await cached<LearnedStatus>(
+      learnedStatusKey(issue, issue.status),
+      CACHE_TTL.transitions,
+      async () => ({
+        status: issue.status,
+        transitions: (await getAvailableTransitionsRest(issue.key)).map((t) => ({ id: t.id, name: t.name, to: t.to })),
+      }),
+    );
+    recordTransitions(project, issue.type, issue.status, transitions);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Transitions learned out of `status` for the issue's project and type, without their screen fields.
+ * Null when that status has not been seen yet or what was learned has expired.
+ */
+export async function learnedTransitionsFrom(issue: JiraIssue, status: string): Promise<JiraTransition[] | null> {
+  return (await getCached<LearnedStatus>(learnedStatusKey(issue, status)))?.transitions ?? null;
+}
+
+function learnedStatusKey(issue: JiraIssue, status: string): string {
+  return transitionsCachePrefix(projectOfKey(issue.key), issue.type) + normalizeStatus(status);
+}
+
+/**
+ * Plan the shortest route from the issue's current status to `targetStatus`.
+ *
+ * Runs BFS over the transition graph learned from Jira. Statuses whose transitions have not been
+ * seen yet fall back to the linear workflow model (one step forward or back), so a route is found
+ * even when only part of the graph is known. Returns null when neither model connects the two.
+ */
+export async function planTransitionPath(issue: JiraIssue, targetStatus: string): Promise<PlannedRoute | null> {
+  const project = projectOfKey(issue.key);
+  await restoreLearnedTransitions(project, issue.type);
+  await learnTransitions(issue);
+
+  const graph = graphs.get(graphKey(project, issue.type));
+  const workflow = getWorkflowForType(issue.type, project);
+
+  const start = normalizeStatus(issue.status);
+  const goal = normalizeStatus(targetStatus);
+  if (start === goal) return { steps: [], source: "linear" };
+
+  const neighbours = (norm: string): Array<{ norm: string; status: string; learned: boolean }> => {
+    const node = graph?.get(norm);
+    if (node) {
+      return [...node.edges.entries()].map(([to, edge]) => ({ norm: to, status: edge.status, learned: true }));
+    }
+    const idx = workflow.findIndex((s) => normalizeStatus(s.status) === norm);
+    if (idx === -1) return [];
+    return [workflow[idx + 1], workflow[idx - 1]]
+      .filter((s): s is WorkflowStep => !!s)
+      .map((s) => ({ norm: normalizeStatus(s.status), status: s.status, learned: false }));
+  };
+
+  const previous = new Map<string, { from: string; status: string; learned: boolean }>();
+  const visited = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0 && !visited.has(goal)) {
+    const current = queue.shift()!;
+    for (const next of neighbours(current)) {
+      if (visited.has(next.norm)) continue;
+      visited.add(next.norm);
+      previous.set(next.norm, { from: current, status: next.status, learned: next.learned });
+      queue.push(next.norm);
+    }
+  }
+  if (!visited.has(goal)) return null;
+
+  const steps: WorkflowStep[] = [];
+  let usedGraph = false;
+  for (let norm = goal; norm !== start; ) {
+    const hop = previous.get(norm)!;
+    steps.unshift(getWorkflowStep(hop.status, issue.type, project) ?? toStep(hop.status));
+    usedGraph ||= hop.learned;
+    norm = hop.from;
+  }
+  return { steps, source: usedGraph ? "graph" : "linear" };
+}
+
+/**
+ * Plan the route behind a "Planning route…" toast. Null when planning failed; the toast then says
+ * why, followed by `note` when given. A `route` of null means no route is known.
+ */
+export async function planRouteWithToast(
+  issue: JiraIssue,
+  targetStatus: string,
+  note?: string,
+): Promise<{ route: PlannedRoute | null } | null> {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Planning route…" });
+  try {
+    const route = await planTransitionPath(issue, targetStatus);
+    toast.hide();
+    return { route };
+  } catch (e: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = failureTitle(e, "Could not plan route");
+    const reason = e instanceof Error ? e.message : String(e);
+    toast.message = note ? `${reason} ${note}` : reason;
+    return null;
+  }
+}
+
+function toStep(status: string): WorkflowStep {
+  return { status, emoji: "🔘", color: "#8B9EB0", description: "" };
+}
+
+export function describeRoute(fromStatus: string, route: PlannedRoute): string {
+  const via = route.source === "graph" ? "Jira's transitions" : "the workflow order";
+  return `${[fromStatus, ...route.steps.map((s) => s.status)].join(" → ")}\n\n(planned from ${via})`;
+}
+
+// ─── Hop Verification ─────────────────────────────────────────────────────────
+
+/** How many times one chained run may re-plan before giving up. */
+const MAX_REPLANS = 3;
+
+export type HopOutcome =
+  /** The issue is at the status the hop aimed for. */
+  | { kind: "on-track"; issue: JiraIssue }
+  /** The issue landed somewhere else, which happens to be the final target. */
+  | { kind: "arrived"; issue: JiraIssue }
+  /** The issue landed somewhere else; `route` continues from there to the target. */
+  | { kind: "replanned"; issue: JiraIssue; route: PlannedRoute }
+  /** The issue landed somewhere else and the run cannot continue. */
+  | { kind: "stuck"; issue: JiraIssue; reason: string };
+
+/**
+ * Re-read the issue after a transition and compare where it landed with where the hop aimed.
+ * A "Back to X" or suffix-matched transition can land on a different status than expected; in
+ * that case the rest of the route to `targetStatus` is re-planned from the actual status.
+ */
+export async function checkHop(
+  ticketKey: string,
+  expectedStatus: string,
+  targetStatus: string,
+  replansSoFar: number,
+): Promise<HopOutcome> {
+  const issue = await getIssueDetails(ticketKey);
+  const actual = normalizeStatus(issue.status);
+  if (actual === normalizeStatus(expectedStatus)) return { kind: "on-track", issue };
+  if (actual === normalizeStatus(targetStatus)) return { kind: "arrived", issue };
+
+  const landed = `Jira moved ${ticketKey} to "${issue.status}" instead of "${expectedStatus}"`;
+  if (replansSoFar >= MAX_REPLANS) {
+    return {
+      kind: "stuck",
+      issue,
+      reason: `${landed}, and the route to "${targetStatus}" has already been re-planned ${replansSoFar} times. Stopping to avoid a loop.`,
+    };
+  }
+
+  const route = await planTransitionPath(issue, targetStatus);
+  if (!route || route.steps.length === 0) {
+    return {
+      kind: "stuck",
+      issue,
+      reason: `${landed}, and no route from "${issue.status}" to "${targetStatus}" is known.`,
+    };
+  }
+  return { kind: "replanned", issue, route };
+}
@@ -0,0 +1,107 @@
+import { learnedTransitionsFrom } from "./transition-planner";
+import {
+  getAvailableTransitionsRest,
+  matchTransition,
+  previewBeforeDone,
+  previewTransitionFields,
+  roleAssigneeFor,
+  withIssueSnapshots,
+  type JiraIssue,
+  type WorkflowStep,
+} from "./utils";
+
+// ─── Move Preview ─────────────────────────────────────────────────────────────
+//
+// What a chained move will do, hop by hop, worked out from reads alone so it can
+// be shown before anything changes. Only the first hop's transition comes from
+// Jira with its screen; later hops use what earlier runs learned.
+
+export interface HopPreview {
+  from: string;
+  to: string;
+  /** The Jira transition the hop takes; null when none is known to lead there. */
+  transition: string | null;
+  /** "jira" when Jira offers the transition now, "learned" when an earlier run saw it, "unknown" otherwise. */
+  source: "jira" | "learned" | "unknown";
+  /** "Field → value" for each field auto-filled with the transition. */
+  autoFilled: string[];
+  /** Required screen fields nothing fills; the move stops there to ask for them. */
+  missing: string[];
+  /** Fields an auto-fill rule names that do not exist on this Jira. */
+  unavailable: string[];
+  /** Who the issue is assigned to on arrival; null when nobody is, or when the move does not auto-assign. */
+  assignee: string | null;
+  /** Why the hop could only be previewed in part. */
+  error?: string;
+}
+
+export interface MovePreview {
+  /** Fields filled from the planned dates before the first hop; null when the move does not fill them. */
+  beforeDone: { filled: string[]; stillMissing: string[]; unavailable: string[] } | null;
+  hops: HopPreview[];
+}
+
+async function previewHop(
+  issue: JiraIssue,
+  from: string,
+  to: string,
+  isFirst: boolean,
+  autoAssign: boolean,
+): Promise<HopPreview> {
+  const hop: HopPreview = {
+    from,
+    to,
+    transition: null,
+    source: "unknown",
+    autoFilled: [],
+    missing: [],
+    unavailable: [],
+    assignee: null,
+  };
+  try {
+    const transitions = isFirst
+      ? await getAvailableTransitionsRest(issue.key)
+      : await learnedTransitionsFrom(issue, from);
+    const transition = transitions ? matchTransition(transitions, to) : null;
+    if (transition) {
+      hop.transition = transition.name;
+      hop.source = isFirst ? "jira" : "learned";
+    }
+    Object.assign(hop, await previewTransitionFields(issue.key, to, transition ?? { id: "", name: to }));
+    if (autoAssign) hop.assignee = (await roleAssigneeFor(issue.key, to))?.displayName ?? null;
+  } catch (e: unknown) {
+    hop.error = e instanceof Error ? e.message : String(e);
+  }
+  return hop;
+}
+
+/**
+ * Preview moving `issue` through `steps` without changing it. `fillBeforeDone` says whether the
+ * move runs autoFillBeforeDone() first, as moves ending in Done do for non-doc issues, and
+ * `autoAssign` whether it runs autoAssignForStatus() after each hop, as the board does.
+ */
+export function previewMove(
+  issue: JiraIssue,
+  steps: WorkflowStep[],
+  fillBeforeDone: boolean,
+  autoAssign: boolean,
+): Promise<MovePreview> {
+  return withIssueSnapshots(async () => {
+    let beforeDone: MovePreview["beforeDone"] = null;
+    if (fillBeforeDone && steps.length > 0) {
+      try {
+        beforeDone = await previewBeforeDone(issue.key, steps.at(-1)!.status);
+      } catch {
+        /* the hops still preview; the move checks again before it starts */
+      }
+    }
+
+    const hops: HopPreview[] = [];
+    let from = issue.status;
+    for (const step of steps) {
+      hops.push(await previewHop(issue, from, step.status, hops.length === 0, autoAssign));
+      from = step.status;
+    }
+    return { beforeDone, hops };
+  });
+}
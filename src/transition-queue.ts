@@ -0,0 +1,270 @@
+import { launchCommand, LaunchType, LocalStorage, showToast, Toast } from "@raycast/api";
+import { MissingFieldsError, NetworkError } from "./errors";
+import { checkHop } from "./transition-planner";
+import {
+  autoAssignForStatus,
+  autoFillBeforeDone,
+  getIssueDetails,
+  getJiraServer,
+  normalizeStatus,
+  transitionIssue,
+  withIssueSnapshots,
+} from "./utils";
+
+// ─── Offline Queue ────────────────────────────────────────────────────────────
+//
+// Moves that failed because Jira could not be reached at all (VPN down, Wi-Fi
+// gone) wait here instead of being lost. Replaying one re-reads the issue first:
+// a move whose issue has changed status in the meantime is dropped, not forced.
+
+const STORAGE_KEY = "transitionQueue";
+
+export interface QueuedTransition {
+  id: string;
+  ticketKey: string;
+  /** Status the issue was in when the move failed; replay only applies the move from there. */
+  fromStatus: string;
+  /** Statuses to pass through, in order; the last one is where the move was headed. */
+  steps: string[];
+  /** Auto-fill context of the original move: fill empty dev dates from planned dates before Done. */
+  fillDevDates: boolean;
+  /** Re-assign the issue by role after each hop, as the board's moves do; unset for older entries. */
+  autoAssign?: boolean;
+  /** Jira the move was made against; it is only replayed while that server is in effect. */
+  server: string;
+  /** ISO timestamp of the first failure. */
+  queuedAt: string;
+  /** Replays tried so far. */
+  attempts: number;
+  /** Why the last replay did not go through. */
+  lastError?: string;
+}
+
+export type NewQueuedTransition = Pick<
+  QueuedTransition,
+  "ticketKey" | "fromStatus" | "steps" | "fillDevDates" | "autoAssign"
+>;
+
+/** Failures worth queueing: Jira never answered, so nothing about the issue was decided. */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof NetworkError;
+}
+
+export function queuedTarget(item: QueuedTransition): string {
+  return item.steps.at(-1) ?? item.fromStatus;
+}
+
+/** Writes queued one after the other, so two commands queueing at once do not lose an entry. */
+let writes: Promise<unknown> = Promise.resolve();
+
+async function readQueue(): Promise<QueuedTransition[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function updateQueue(change: (queue: QueuedTransition[]) => QueuedTransition[]): Promise<QueuedTransition[]> {
+  const next = writes.then(async () => {
+    const queue = change(await readQueue());
+    if (queue.length > 0) await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    else await LocalStorage.removeItem(STORAGE_KEY);
+    return queue;
+  });
+  writes = next.catch(() => {});
+  return next;
+}
+
+function isSameTicket(a: QueuedTransition, b: QueuedTransition): boolean {
+  return a.server === b.server && a.ticketKey.toUpperCase() === b.ticketKey.toUpperCase();
+}
+
+/** Pending moves, oldest first. */
+export async function getQueuedTransitions(): Promise<QueuedTransition[]> {
+  await writes;
+  return readQueue();
+}
+
+/** Queue a move for the current server. A newer move for the same ticket on that server replaces the older one. */
+export async function queueTransition(move: NewQueuedTransition): Promise<QueuedTransition> {
+  const item: QueuedTransition = {
+    ...move,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    server: getJiraServer(),
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await updateQueue((queue) => [...queue.filter((q) => !isSameTicket(q, item)), item]);
+  return item;
+}
+
+/** Queue `move` when `error` means Jira was unreachable. True when it was queued. */
+export async function queueIfOffline(error: unknown, move: NewQueuedTransition): Promise<boolean> {
+  if (!isOfflineError(error)) return false;
+  await queueTransition(move);
+  return true;
+}
+
+/** Turn the failed move's toast into a note that it was queued, with a way to the queue. */
+export function showQueuedInToast(toast: Toast, ticketKey: string): void {
+  toast.style = Toast.Style.Failure;
+  toast.title = `Jira unreachable, ${ticketKey} queued`;
+  toast.message = "The move is replayed once Jira answers again.";
+  toast.primaryAction = {
+    title: "Show Pending Transitions",
+    onAction: () => launchCommand({ name: "jira-pending-transitions", type: LaunchType.UserInitiated }),
+  };
+}
+
+export async function removeQueuedTransition(id: string): Promise<void> {
+  await updateQueue((queue) => queue.filter((q) => q.id !== id));
+}
+
+export async function clearTransitionQueue(): Promise<void> {
+  await updateQueue(() => []);
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+export type ReplayOutcome =
+  /** The move went through; the issue is now in `status`. */
+  | { kind: "applied"; item: QueuedTransition; status: string }
+  /** The issue was already where the move was headed. */
+  | { kind: "already"; item: QueuedTransition; status: string }
+  /** The issue changed status since the move was queued; the move was dropped. */
+  | { kind: "stale"; item: QueuedTransition; status: string }
+  /** Jira is still unreachable; the move stays queued. */
+  | { kind: "offline"; item: QueuedTransition; error: Error }
+  /** Jira refused the move (missing fields, no transition, …); it stays queued with the error. */
+  | { kind: "failed"; item: QueuedTransition; error: Error };
+
+/** The steps still to go from `status`, or null when the issue is neither at the start nor part-way along. */
+function remainingSteps(item: QueuedTransition, status: string): string[] | null {
+  const current = normalizeStatus(status);
+  const passed = item.steps.findIndex((s) => normalizeStatus(s) === current);
+  if (passed >= 0) return item.steps.slice(passed + 1);
+  return current === normalizeStatus(item.fromStatus) ? item.steps : null;
+}
+
+async function applyQueuedTransition(item: QueuedTransition): Promise<ReplayOutcome> {
+  const target = queuedTarget(item);
+  const issue = await getIssueDetails(item.ticketKey);
+  if (normalizeStatus(issue.status) === normalizeStatus(target)) return { kind: "already", item, status: issue.status };
+
+  let path = remainingSteps(item, issue.status);
+  if (!path) return { kind: "stale", item, status: issue.status };
+
+  let status = issue.status;
+  let replans = 0;
+  while (path.length > 0) {
+    const step = path[0];
+    if (item.fillDevDates && normalizeStatus(step) === "DONE") {
+      const { stillMissing } = await autoFillBeforeDone(item.ticketKey, step);
+      if (stillMissing.length > 0) {
+        throw new MissingFieldsError(
+          item.ticketKey,
+          stillMissing.map((name) => ({ name })),
+        );
+      }
+    }
+
+    await transitionIssue(item.ticketKey, step);
+    const hop = await checkHop(item.ticketKey, step, target, replans);
+    status = hop.issue.status;
+    if (item.autoAssign) {
+      try {
+        await autoAssignForStatus(item.ticketKey, status);
+      } catch {
+        /* auto-assign is best-effort */
+      }
+    }
+
+    if (hop.kind === "stuck") throw new Error(hop.reason);
+    if (hop.kind === "arrived") break;
+    if (hop.kind === "replanned") {
+      replans++;
+      path = hop.route.steps.map((s) => s.status);
+    } else {
+      path = path.slice(1);
+    }
+  }
+  return { kind: "applied", item, status };
+}
+
+/**
+ * Replay one queued move: re-read the issue, then apply the rest of the move from wherever it is.
+ * Moves that went through, were already done or went stale leave the queue; failures stay with their error.
+ */
+export async function replayQueuedTransition(item: QueuedTransition): Promise<ReplayOutcome> {
+  let outcome: ReplayOutcome;
+  try {
+    outcome = await withIssueSnapshots(() => applyQueuedTransition(item));
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    outcome = isOfflineError(error) ? { kind: "offline", item, error } : { kind: "failed", item, error };
+  }
+
+  if (outcome.kind === "offline" || outcome.kind === "failed") {
+    const lastError = outcome.error.message;
+    await updateQueue((queue) =>
+      queue.map((q) => (q.id === item.id ? { ...q, attempts: q.attempts + 1, lastError } : q)),
+    );
+  } else {
+    await removeQueuedTransition(item.id);
+  }
+  return outcome;
+}
+
+/**
+ * Replay every move queued for the current server, oldest first.
+ * Stops at the first one that still cannot reach Jira; the rest would fail the same way.
+ */
+export async function replayTransitionQueue(): Promise<ReplayOutcome[]> {
+  const server = getJiraServer();
+  const outcomes: ReplayOutcome[] = [];
+  for (const item of await getQueuedTransitions()) {
+    if (item.server !== server) continue;
+    const outcome = await replayQueuedTransition(item);
+    outcomes.push(outcome);
+    if (outcome.kind === "offline") break;
+  }
+  return outcomes;
+}
+
+/**
+ * Replay the current server's queue behind a toast that sums up the outcome.
+ * Does nothing when no move is queued. True when a replay moved an issue.
+ */
+export async function replayQueueWithToast(): Promise<boolean> {
+  const server = getJiraServer();
+  if (!(await getQueuedTransitions()).some((q) => q.server === server)) return false;
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Replaying queued moves" });
+  const outcomes = await replayTransitionQueue();
+  const clean = outcomes.every((o) => o.kind === "applied" || o.kind === "already");
+  toast.style = clean ? Toast.Style.Success : Toast.Style.Failure;
+  toast.title = clean ? "Queued moves replayed" : "Some queued moves did not go through";
+  toast.message = describeReplay(outcomes);
+  if (!clean) {
+    toast.primaryAction = {
+      title: "Show Pending Transitions",
+      onAction: () => launchCommand({ name: "jira-pending-transitions", type: LaunchType.UserInitiated }),
+    };
+  }
+  return outcomes.some((o) => o.kind === "applied");
+}
+
+/** "2 replayed, 1 dropped (status changed since)" for a toast; empty when nothing was replayed. */
+export function describeReplay(outcomes: ReplayOutcome[]): string {
+  const count = (...kinds: ReplayOutcome["kind"][]) => outcomes.filter((o) => kinds.includes(o.kind)).length;
+  const parts: string[] = [];
+  if (count("applied", "already")) parts.push(`${count("applied", "already")} replayed`);
+  if (count("stale")) parts.push(`${count("stale")} dropped (status changed since)`);
+  if (count("failed")) parts.push(`${count("failed")} failed`);
+  if (count("offline")) parts.push("Jira still unreachable");
+  return parts.join(", ");
+}
@@ -0,0 +1,16 @@
+import { Action, Icon } from "@raycast/api";
+import { undoLastMoveWithToast } from "./undo";
+
+/** "Undo Last Move" action: walks the ticket's last move back and restores the assignee and fields it changed. */
+export function UndoLastMoveAction({ ticketKey, onUndone }: Readonly<{ ticketKey: string; onUndone: () => void }>) {
+  return (
+    <Action
+      title="Undo Last Move"
+      icon={Icon.Undo}
+      shortcut={{ modifiers: ["cmd"], key: "z" }}
+      onAction={async () => {
+        if (await undoLastMoveWithToast(ticketKey)) onUndone();
+      }}
+    />
+  );
+}
@@ -0,0 +1,92 @@
+import { LocalStorage } from "@raycast/api";
+import type { JiraUserRef } from "./jira-client";
+
+// ─── Undo Log ─────────────────────────────────────────────────────────────────
+//
+// The last move of each ticket, kept so "Undo Last Move" can walk it back: the
+// status it started from, the assignee it replaced and the fields it set on the way.
+
+const STORAGE_KEY = "undoLog";
+
+/** Moves kept; older ones can no longer be undone. */
+const UNDO_LOG_SIZE = 20;
+
+export interface UndoFieldChange {
+  id: string;
+  name: string;
+  /** Value before the move, as Jira returned it; null when the field was empty. */
+  previous: unknown;
+}
+
+export interface PreviousAssignee {
+  ref: JiraUserRef;
+  displayName: string;
+}
+
+export interface UndoableMove {
+  ticketKey: string;
+  /** Jira the move was made against; it is only undone while that server is in effect. */
+  server: string;
+  /** ISO timestamp of when the move finished. */
+  at: string;
+  /** Status before the first transition of the move. */
+  fromStatus: string;
+  /** Status the last transition of the move aimed for. */
+  toStatus: string;
+  /**
+   * Assignee before the move when the move reassigned the issue; null when it was unassigned.
+   * Undefined when the move left the assignee alone.
+   */
+  previousAssignee?: PreviousAssignee | null;
+  /** Fields the transitions set. */
+  fields: UndoFieldChange[];
+}
+
+/** Writes queued one after the other, so two commands saving at once do not lose an entry. */
+let writes: Promise<unknown> = Promise.resolve();
+
+async function readLog(): Promise<UndoableMove[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function updateLog(change: (log: UndoableMove[]) => UndoableMove[]): Promise<void> {
+  const next = writes.then(async () => {
+    const log = change(await readLog()).slice(-UNDO_LOG_SIZE);
+    if (log.length > 0) await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+    else await LocalStorage.removeItem(STORAGE_KEY);
+  });
+  writes = next.catch(() => {});
+  return next;
+}
+
+function isSameTicket(move: UndoableMove, server: string, ticketKey: string): boolean {
+  return move.server === server && move.ticketKey.toUpperCase() === ticketKey.toUpperCase();
+}
+
+/** Remember a finished move. It replaces the ticket's previous one: only the latest move is undone. */
+export async function saveUndoableMove(move: UndoableMove): Promise<void> {
+  await updateLog((log) => [...log.filter((m) => !isSameTicket(m, move.server, move.ticketKey)), move]);
+}
+
+/** The newest move on `server`, of `ticketKey` when given. */
+export async function getUndoableMove(server: string, ticketKey?: string): Promise<UndoableMove | null> {
+  await writes;
+  const log = (await readLog()).filter((m) => m.server === server);
+  const matching = ticketKey ? log.filter((m) => isSameTicket(m, server, ticketKey)) : log;
+  return matching.at(-1) ?? null;
+}
+
+export async function forgetUndoableMove(server: string, ticketKey: string): Promise<void> {
+  await updateLog((log) => log.filter((m) => !isSameTicket(m, server, ticketKey)));
+}
+
+export async function clearUndoLog(): Promise<void> {
+  await updateLog(() => []);
+}
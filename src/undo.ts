@@ -0,0 +1,149 @@
+import { showToast, Toast } from "@raycast/api";
+import { failureTitle } from "./errors";
+import { showingRetries } from "./retry";
+import { checkHop, planTransitionPath } from "./transition-planner";
+import { forgetUndoableMove, getUndoableMove, type UndoableMove } from "./undo-log";
+import {
+  getIssueDetails,
+  getJiraServer,
+  normalizeStatus,
+  restoreAssignee,
+  restoreIssueFields,
+  captureMoves,
+  transitionIssue,
+  withIssueSnapshots,
+} from "./utils";
+
+// ─── Undo ─────────────────────────────────────────────────────────────────────
+//
+// Walks a ticket back to where its last move started, then puts back the fields
+// and the assignee the move changed. The route back is planned like any other
+// move, so "Back to X" transitions are found without knowing their names.
+
+export interface UndoResult {
+  /** Where the issue ended up. */
+  status: string;
+  /** Display name of the restored assignee ("Unassigned" when it had nobody); undefined when the move kept it. */
+  assignee?: string;
+  /** Names of the fields put back. */
+  restoredFields: string[];
+  /** Why the fields could not be put back; the status and assignee were still restored. */
+  fieldsError?: string;
+}
+
+/** The newest move on the current server that can be undone, of `ticketKey` when given. */
+export function getLastMove(ticketKey?: string): Promise<UndoableMove | null> {
+  return getUndoableMove(getJiraServer(), ticketKey);
+}
+
+/** Move the ticket back to where `move` started; returns the status it ends in. */
+async function walkBackStatus(move: UndoableMove): Promise<string> {
+  const key = move.ticketKey;
+  const issue = await getIssueDetails(key);
+  let status = issue.status;
+  if (normalizeStatus(status) === normalizeStatus(move.fromStatus)) return status;
+
+  const route = await planTransitionPath(issue, move.fromStatus);
+  if (!route) throw new Error(`No known way from "${status}" back to "${move.fromStatus}".`);
+
+  let path = route.steps;
+  let replans = 0;
+  while (path.length > 0) {
+    const step = path[0].status;
+    await transitionIssue(key, step);
+    const hop = await checkHop(key, step, move.fromStatus, replans);
+    status = hop.issue.status;
+    if (hop.kind === "stuck") throw new Error(hop.reason);
+    if (hop.kind === "arrived") break;
+    if (hop.kind === "replanned") {
+      replans++;
+      path = hop.route.steps;
+    } else {
+      path = path.slice(1);
+    }
+  }
+  return status;
+}
+
+async function walkBack(move: UndoableMove): Promise<UndoResult> {
+  const key = move.ticketKey;
+  const { result: status, moves } = await captureMoves(() => walkBackStatus(move));
+
+  // Transitions on the way back auto-fill too (Dev Start Date when re-entering Doing); those go back as well
+  const fields = [...move.fields];
+  for (const field of moves.flatMap((m) => m.fields)) {
+    if (!fields.some((f) => f.id === field.id)) fields.push(field);
+  }
+
+  const result: UndoResult = { status, restoredFields: [] };
+  try {
+    await restoreIssueFields(key, fields);
+    result.restoredFields = fields.map((f) => f.name);
+  } catch (e: unknown) {
+    result.fieldsError = e instanceof Error ? e.message : String(e);
+  }
+  if (move.previousAssignee !== undefined) {
+    await restoreAssignee(key, move.previousAssignee);
+    result.assignee = move.previousAssignee?.displayName ?? "Unassigned";
+  }
+  return result;
+}
+
+/** Undo `move`. The walk back is not itself undoable; once it is done the move can no longer be undone. */
+export async function undoMove(move: UndoableMove): Promise<UndoResult> {
+  const result = await withIssueSnapshots(() => walkBack(move));
+  await forgetUndoableMove(move.server, move.ticketKey);
+  return result;
+}
+
+/**
+ * Undo the last move of `ticketKey` (or the newest move on the server) behind a toast.
+ * True when the ticket was walked back.
+ */
+export async function undoLastMoveWithToast(ticketKey?: string): Promise<boolean> {
+  const move = await getLastMove(ticketKey);
+  if (!move) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Nothing to undo",
+      message: ticketKey ? `No move of ${ticketKey} is recorded.` : undefined,
+    });
+    return false;
+  }
+
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: `Undoing ${move.ticketKey}`,
+    message: `${move.toStatus} → ${move.fromStatus}`,
+  });
+  try {
+    const result = await showingRetries(toast, () => undoMove(move));
+    toast.style = result.fieldsError ? Toast.Style.Failure : Toast.Style.Success;
+    toast.title = `${move.ticketKey} is back in ${result.status}`;
+    toast.message = [
+      result.assignee && `Assignee: ${result.assignee}`,
+      result.fieldsError
+        ? `Fields not restored: ${result.fieldsError}`
+        : result.restoredFields.length > 0 && `Restored ${result.restoredFields.join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    return true;
+  } catch (e: unknown) {
+    toast.style = Toast.Style.Failure;
+    toast.title = failureTitle(e, `Could not undo the move of ${move.ticketKey}`);
+    toast.message = e instanceof Error ? e.message : String(e);
+    return false;
+  }
+}
+
+/** Add an Undo button to a move's success toast; `onUndone` runs once the ticket is back. */
+export function offerUndoInToast(toast: Toast, ticketKey: string, onUndone?: () => void): void {
+  toast.primaryAction = {
+    title: "Undo",
+    shortcut: { modifiers: ["cmd"], key: "z" },
+    onAction: async () => {
+      if ((await undoLastMoveWithToast(ticketKey)) && onUndone) onUndone();
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { Form } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { searchJiraUser, type JiraUser } from "./utils";
+
+interface UserPickerProps {
+  id: string;
+  title: string;
+  initialQuery: string;
+  /** What the form receives for a picked user; the account ID (Cloud) or username (Server) by default. */
+  valueFor?: (user: JiraUser) => string;
+  info?: string;
+}
+
+function accountValue(user: JiraUser): string {
+  return user.accountId ?? user.name ?? "";
+}
+
+/** Dropdown that searches Jira users as you type, starting from `initialQuery`. */
+export function UserPicker({ id, title, initialQuery, valueFor = accountValue, info }: UserPickerProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [users, setUsers] = useState<JiraUser[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setUsers([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    searchJiraUser(query.trim())
+      .then((found) => !cancelled && setUsers(found))
+      .catch(() => !cancelled && setUsers([]))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return (
+    <Form.Dropdown
+      id={id}
+      title={title}
+      info={info}
+      placeholder="Search by name or email"
+      filtering={false}
+      throttle
+      isLoading={loading}
+      onSearchTextChange={setQuery}
+    >
+      {users.map((u) => {
+        const value = valueFor(u);
+        return (
+          <Form.Dropdown.Item
+            key={value}
+            value={value}
+            title={u.displayName}
+            keywords={[u.emailAddress ?? "", u.name ?? ""]}
+          />
+        );
+      })}
+    </Form.Dropdown>
+  );
+}
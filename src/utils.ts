@@ -1,34 +1,56 @@
-import { exec, execFile } from "node:child_process";
+import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import { getPreferenceValues } from "@raycast/api";
+import { getPreferenceValues, open, showToast, Toast } from "@raycast/api";
+import {
+  JiraClient,
+  JiraRequestError,
+  JiraResponseError,
+  type JiraAuth,
+  type JiraAllowedValue,
+  type JiraAuthType,
+  type JiraFieldSchema,
+  type JiraIssueResponse,
+  type JiraIssueTypeStatuses,
+  type JiraProjectStatus,
+  type JiraTransition,
+  type JiraUserRef,
+  type TransitionFieldMeta,
+  type JiraUserResponse,
+} from "./jira-client";
+import {
+  AuthError,
+  JiraError,
+  MissingFieldsError,
+  NetworkError,
+  NoTransitionError,
+  PermissionError,
+  RateLimitError,
+  UnavailableError,
+  type MissingField,
+} from "./errors";
+import { cached, CACHE_TTL, getCached, invalidateCached, setCached } from "./cache";
+import { recordCall, registerSecret } from "./call-log";
+import { recordHistory, type HistoryEntry } from "./history";
+import { withRetry } from "./retry";
+import { saveUndoableMove, type PreviousAssignee, type UndoableMove, type UndoFieldChange } from "./undo-log";
+import { getActiveProfile, getActiveProfileName, selectProfileForKey } from "./profiles";
+import { getSetup } from "./setup";
+import { loadWorkflowConfig, type WorkflowConfig } from "./workflow-config";
+import {
+  DEFAULT_AUTO_FILL_RULES,
+  ruleMatchesField,
+  ruleStages,
+  type AutoFillRule,
+  type AutoFillStage,
+  type AutoFillValue,
+} from "./auto-fill-rules";
 
-const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
 
 // ─── Workflow Definitions ─────────────────────────────────────────────────────
 
-export type WorkflowStatus =
-  | "Waiting"
-  | "TO DO"
-  | "Req.Gathering"
-  | "Feasibility Study"
-  | "PRD"
-  | "Tech Design"
-  | "Doing"
-  | "Developing"
-  | "Integration"
-  | "1ST REVIEW"
-  | "Testing"
-  | "2ND REVIEW"
-  | "Reviewing"
-  | "UAT"
-  | "Staging"
-  | "Regression"
-  | "Delivering"
-  | "Done";
-
 export interface WorkflowStep {
-  status: WorkflowStatus;
+  status: string;
   emoji: string;
   color: string;
   description: string;
@@ -74,11 +96,42 @@ export const DOC_WORKFLOW: WorkflowStep[] = [
 /** Backward-compatible alias (defaults to Task workflow) */
 export const WORKFLOW = TASK_WORKFLOW;
 
-export function getWorkflowForType(issueType: string): WorkflowStep[] {
+const BUILTIN_WORKFLOW_CONFIG: WorkflowConfig = {
+  workflows: [
+    { name: "Task", issueTypes: [], isDefault: true, steps: TASK_WORKFLOW },
+    { name: "Epic", issueTypes: ["Epic"], isDefault: false, steps: EPIC_WORKFLOW },
+    { name: "Doc", issueTypes: ["Doc", "Document", "Documentation"], isDefault: false, steps: DOC_WORKFLOW },
+  ],
+};
+
+/**
+ * The active workflow config: the file referenced in preferences, or the built-in workflows.
+ * Throws a WorkflowConfigError describing every problem when the file is invalid.
+ */
+export function getWorkflowConfig(): WorkflowConfig {
+  const path = getPrefs().workflowConfigPath?.trim();
+  if (!path) return BUILTIN_WORKFLOW_CONFIG;
+  return loadWorkflowConfig(path);
+}
+
+export function hasWorkflowConfigFile(): boolean {
+  return !!getPrefs().workflowConfigPath?.trim();
+}
+
+/**
+ * Workflow for an issue type. When workflow discovery is enabled and the project's statuses
+ * have been discovered, the server's status list wins over the configured workflow.
+ */
+export function getWorkflowForType(issueType: string, project?: string): WorkflowStep[] {
+  const discovered = project ? discoveredWorkflows.get(project.toUpperCase())?.[issueTypeKey(issueType)] : undefined;
+  return discovered ?? getConfiguredWorkflowForType(issueType);
+}
+
+function getConfiguredWorkflowForType(issueType: string): WorkflowStep[] {
   const t = (issueType ?? "").trim().toUpperCase();
-  if (t === "EPIC") return EPIC_WORKFLOW;
-  if (t === "DOC" || t === "DOCUMENT" || t === "DOCUMENTATION") return DOC_WORKFLOW;
-  return TASK_WORKFLOW;
+  const { workflows } = getWorkflowConfig();
+  const match = workflows.find((w) => w.issueTypes.some((type) => type.toUpperCase() === t));
+  return (match ?? workflows.find((w) => w.isDefault) ?? workflows[0]).steps;
 }
 
 export function isDocType(issueType: string): boolean {
@@ -133,35 +186,85 @@ export const ALL_BOARD_STATUSES: WorkflowStep[] = (() => {
   });
 })();
 
-export function getWorkflowStep(status: string, issueType?: string): WorkflowStep | undefined {
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
+/**
+ * Board sections for the active workflow config.
+ * Built-in workflows use ALL_BOARD_STATUSES; a config file either lists `boardStatuses` explicitly
+ * or gets every non-final status merged across its workflows in workflow order.
+ * Statuses from discovered project workflows are merged in after that.
+ */
+export function getBoardStatuses(): WorkflowStep[] {
+  const config = getWorkflowConfig();
+  let base: WorkflowStep[];
+  if (config === BUILTIN_WORKFLOW_CONFIG) {
+    base = ALL_BOARD_STATUSES;
+  } else if (config.boardStatuses) {
+    const allSteps = config.workflows.flatMap((w) => w.steps);
+    const findStep = (status: string) => allSteps.find((s) => normalizeStatus(s.status) === normalizeStatus(status));
+    base = config.boardStatuses.map(findStep).filter((s): s is WorkflowStep => !!s);
+  } else {
+    base = mergeWorkflowSteps(
+      [],
+      config.workflows.map((w) => w.steps),
+    );
+  }
+
+  const discovered = [...discoveredWorkflows.values()].flatMap((byType) => Object.values(byType));
+  return discovered.length > 0 ? mergeWorkflowSteps(base, discovered) : base;
+}
+
+/**
+ * Merge workflows into `base`, keeping each workflow's relative order.
+ * A status that ends any of the workflows is left out, as the board only shows unfinished work.
+ */
+function mergeWorkflowSteps(base: WorkflowStep[], workflows: WorkflowStep[][]): WorkflowStep[] {
+  const finalStatuses = new Set(workflows.map((steps) => normalizeStatus(steps[steps.length - 1].status)));
+  const merged = [...base];
+  for (const steps of workflows) {
+    let insertAt = 0;
+    for (const step of steps) {
+      const norm = normalizeStatus(step.status);
+      const existing = merged.findIndex((s) => normalizeStatus(s.status) === norm);
+      if (existing !== -1) {
+        insertAt = existing + 1;
+        continue;
+      }
+      if (finalStatuses.has(norm)) continue;
+      merged.splice(insertAt, 0, step);
+      insertAt++;
+    }
+  }
+  return merged;
+}
+
+export function getWorkflowStep(status: string, issueType?: string, project?: string): WorkflowStep | undefined {
+  const workflow = getWorkflowForType(issueType ?? "", project);
   const norm = normalizeStatus(status);
   return workflow.find((s) => normalizeStatus(s.status) === norm);
 }
 
-export function getWorkflowIndex(status: string, issueType?: string): number {
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
+export function getWorkflowIndex(status: string, issueType?: string, project?: string): number {
+  const workflow = getWorkflowForType(issueType ?? "", project);
   const norm = normalizeStatus(status);
   return workflow.findIndex((s) => normalizeStatus(s.status) === norm);
 }
 
-export function getNextStatus(currentStatus: string, issueType?: string): WorkflowStep | null {
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
-  const idx = getWorkflowIndex(currentStatus, issueType);
+export function getNextStatus(currentStatus: string, issueType?: string, project?: string): WorkflowStep | null {
+  const workflow = getWorkflowForType(issueType ?? "", project);
+  const idx = getWorkflowIndex(currentStatus, issueType, project);
   if (idx === -1 || idx >= workflow.length - 1) return null;
   return workflow[idx + 1];
 }
 
-export function getPreviousStatus(currentStatus: string, issueType?: string): WorkflowStep | null {
-  const idx = getWorkflowIndex(currentStatus, issueType);
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
+export function getPreviousStatus(currentStatus: string, issueType?: string, project?: string): WorkflowStep | null {
+  const idx = getWorkflowIndex(currentStatus, issueType, project);
+  const workflow = getWorkflowForType(issueType ?? "", project);
   if (idx <= 0) return null;
   return workflow[idx - 1];
 }
 
-export function getRemainingSteps(currentStatus: string, issueType?: string): WorkflowStep[] {
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
-  const idx = getWorkflowIndex(currentStatus, issueType);
+export function getRemainingSteps(currentStatus: string, issueType?: string, project?: string): WorkflowStep[] {
+  const workflow = getWorkflowForType(issueType ?? "", project);
+  const idx = getWorkflowIndex(currentStatus, issueType, project);
   if (idx === -1) return [];
   return workflow.slice(idx + 1);
 }
@@ -170,10 +273,11 @@ export function getTransitionPathToTarget(
   currentStatus: string,
   targetStatus: string,
   issueType?: string,
+  project?: string,
 ): WorkflowStep[] | null {
-  const workflow = issueType ? getWorkflowForType(issueType) : TASK_WORKFLOW;
-  const cur = getWorkflowIndex(currentStatus, issueType);
-  const tgt = getWorkflowIndex(targetStatus, issueType);
+  const workflow = getWorkflowForType(issueType ?? "", project);
+  const cur = getWorkflowIndex(currentStatus, issueType, project);
+  const tgt = getWorkflowIndex(targetStatus, issueType, project);
   if (cur === -1 || tgt === -1) return null;
   if (cur === tgt) return [];
   const path: WorkflowStep[] = [];
@@ -189,21 +293,163 @@ export function getTransitionPathToTarget(
   return path;
 }
 
+// ─── Workflow Discovery ───────────────────────────────────────────────────────
+
+/** Discovered workflows per project key, then per upper-cased issue type name. */
+const discoveredWorkflows = new Map<string, Record<string, WorkflowStep[]>>();
+const pendingDiscoveries = new Map<string, Promise<void>>();
+
+const CATEGORY_RANK: Record<string, number> = { new: 0, indeterminate: 1, done: 2 };
+
+const CATEGORY_STEP_STYLE: Record<string, Omit<WorkflowStep, "status">> = {
+  new: { emoji: "📋", color: "#8B9EB0", description: "Not started" },
+  indeterminate: { emoji: "🔨", color: "#F4A261", description: "In progress" },
+  done: { emoji: "🎉", color: "#2DC653", description: "Completed" },
+};
+
+function issueTypeKey(issueType: string): string {
+  return (issueType ?? "").trim().toUpperCase();
+}
+
+export function projectOfKey(ticketKey: string): string {
+  return ticketKey.split("-")[0].toUpperCase();
+}
+
+/**
+ * Discover the workflows of the given projects from the server, when enabled in preferences.
+ * The statuses Jira reports are kept in the metadata cache; failures leave the configured workflows in place.
+ */
+export async function discoverWorkflows(projects: string[]): Promise<void> {
+  if (!getPrefs().discoverWorkflows) return;
+  const unique = [...new Set(projects.map((p) => p.toUpperCase()).filter(Boolean))];
+  await Promise.all(unique.map(discoverProjectWorkflows));
+}
+
+async function discoverProjectWorkflows(project: string): Promise<void> {
+  const pending = pendingDiscoveries.get(project);
+  if (pending) return pending;
+
+  const discovery = (async () => {
+    try {
+      const issueTypes = await cached(jiraCacheKey("projectStatuses", project), CACHE_TTL.projectStatuses, () =>
+        jira().getProjectStatuses(project),
+      );
+      const byType: Record<string, WorkflowStep[]> = {};
+      for (const type of issueTypes) {
+        const steps = buildDiscoveredWorkflow(type);
+        if (steps.length >= 2) byType[issueTypeKey(type.name)] = steps;
+      }
+      discoveredWorkflows.set(project, byType);
+    } catch {
+      /* discovery is best-effort; configured workflows still apply */
+    } finally {
+      pendingDiscoveries.delete(project);
+    }
+  })();
+
+  pendingDiscoveries.set(project, discovery);
+  return discovery;
+}
+
+/**
+ * Order an issue type's statuses into a linear workflow.
+ * Statuses the configured workflow knows keep its order and styling; the rest are slotted in by
+ * status category (To Do → In Progress → Done). Only one done-category status is kept unless the
+ * configured workflow names several, so the workflow has a single end.
+ */
+function buildDiscoveredWorkflow(type: JiraIssueTypeStatuses): WorkflowStep[] {
+  const template = getConfiguredWorkflowForType(type.name);
+  const templateIndex = (name: string) =>
+    template.findIndex((s) => normalizeStatus(s.status) === normalizeStatus(name));
+  const category = (s: JiraProjectStatus) => s.statusCategory?.key ?? "indeterminate";
+  const rank = (s: JiraProjectStatus) => CATEGORY_RANK[category(s)] ?? CATEGORY_RANK.indeterminate;
+
+  const statuses = type.statuses ?? [];
+  const doneStatuses = statuses.filter((s) => category(s) === "done");
+  const knownDone = doneStatuses.filter((s) => templateIndex(s.name) !== -1);
+  const fallbackDone = doneStatuses.find((s) => normalizeStatus(s.name) === "DONE") ?? doneStatuses[0];
+  const keptDone = knownDone.length > 0 ? knownDone : fallbackDone ? [fallbackDone] : [];
+  const kept = statuses.filter((s) => category(s) !== "done" || keptDone.includes(s));
+
+  const ordered = kept
+    .filter((s) => templateIndex(s.name) !== -1)
+    .sort((a, b) => templateIndex(a.name) - templateIndex(b.name));
+  for (const status of kept.filter((s) => templateIndex(s.name) === -1)) {
+    const before = ordered.findIndex((o) => rank(o) > rank(status));
+    ordered.splice(before === -1 ? ordered.length : before, 0, status);
+  }
+
+  return ordered.map((s) => {
+    const known = template[templateIndex(s.name)];
+    if (known) return { ...known, status: s.name };
+    const style = CATEGORY_STEP_STYLE[category(s)] ?? CATEGORY_STEP_STYLE.indeterminate;
+    return { status: s.name, ...style, description: s.description || style.description };
+  });
+}
+
 // ─── Jira CLI Helpers ─────────────────────────────────────────────────────────
 
 interface Preferences {
+  backend: "jira-cli" | "rest";
   jiraCliPath: string;
   jiraProject: string;
   jiraServer: string;
   jiraApiToken: string;
+  authType: JiraAuthType;
+  jiraEmail: string;
   commonAssignees: string;
   qaAssignee: string;
   reviewerAssignee: string;
   developerAssignee: string;
+  workflowConfigPath: string;
+  discoverWorkflows: boolean;
+  profilesConfigPath: string;
+  fieldOverrides: string;
+}
+
+/** Extension preferences with the saved setup, then the active server profile's settings, applied on top. */
+function getPrefs(): Preferences & { jiraCliConfig?: string } {
+  const base = getPreferenceValues<Preferences>();
+  const profile = getActiveProfile();
+  const prefs = withSetup(base, profile?.server ?? base.jiraServer);
+  if (!profile) return prefs;
+  return {
+    ...prefs,
+    jiraServer: profile.server ?? prefs.jiraServer,
+    jiraApiToken: profile.token ?? prefs.jiraApiToken,
+    authType: profile.authType ?? prefs.authType,
+    jiraEmail: profile.email ?? prefs.jiraEmail,
+    jiraProject: profile.project ?? prefs.jiraProject,
+    workflowConfigPath: profile.workflowConfigPath ?? prefs.workflowConfigPath,
+    commonAssignees: profile.commonAssignees ?? prefs.commonAssignees,
+    qaAssignee: profile.qaAssignee ?? prefs.qaAssignee,
+    reviewerAssignee: profile.reviewerAssignee ?? prefs.reviewerAssignee,
+    developerAssignee: profile.developerAssignee ?? prefs.developerAssignee,
+    fieldOverrides: profile.fieldOverrides ?? prefs.fieldOverrides,
+    jiraCliConfig: profile.jiraCliConfig,
+  };
 }
 
-function getPrefs(): Preferences {
-  return getPreferenceValues<Preferences>();
+/** Answers from "Jira: Setup" for `server`; its field mappings come before the preference's own. */
+function withSetup(prefs: Preferences, server: string): Preferences {
+  const setup = getSetup(server ?? "");
+  if (!setup) return prefs;
+  return {
+    ...prefs,
+    jiraProject: setup.project || prefs.jiraProject,
+    qaAssignee: setup.qaAssignee || prefs.qaAssignee,
+    reviewerAssignee: setup.reviewerAssignee || prefs.reviewerAssignee,
+    developerAssignee: setup.developerAssignee || prefs.developerAssignee,
+    fieldOverrides: [setup.fieldOverrides, prefs.fieldOverrides].filter(Boolean).join(", "),
+  };
+}
+
+/**
+ * The "rest" backend talks to the REST API only; "jira-cli" (the default) shells out to the jira binary
+ * for issue views, searches and transitions and uses REST for everything jira-cli cannot do.
+ */
+export function isRestBackend(): boolean {
+  return getPrefs().backend === "rest";
 }
 
 function getJiraCliPath(): string {
@@ -214,6 +460,11 @@ export function getDefaultProject(): string {
   return getPrefs().jiraProject || "";
 }
 
+/** The Jira server in effect (preferences or the active profile), without trailing slash. */
+export function getJiraServer(): string {
+  return (getPrefs().jiraServer ?? "").replace(/\/+$/, "");
+}
+
 export function getJiraIssueBrowseUrl(issueKey: string): string {
   const server = getPrefs().jiraServer.replace(/\/+$/, "");
   if (!server) {
@@ -231,32 +482,102 @@ function shellEnv(): Record<string, string> {
     PATH: [...extras, existing].join(":"),
     HOME: process.env.HOME || `/Users/${process.env.USER || ""}`,
     ...(prefs.jiraApiToken ? { JIRA_API_TOKEN: prefs.jiraApiToken } : {}),
+    JIRA_AUTH_TYPE: isCloudAuth() ? "basic" : "bearer",
+    ...(prefs.jiraCliConfig ? { JIRA_CONFIG_FILE: prefs.jiraCliConfig } : {}),
   } as Record<string, string>;
 }
 
-async function runJira(args: string): Promise<string> {
-  const cli = getJiraCliPath();
-  const cmd = `${cli} ${args}`;
+/**
+ * Run jira-cli with `args` passed as-is (no shell), so keys, transition names and JQL need no escaping.
+ * `issueKey` names the issue in errors about it.
+ */
+async function runJira(args: string[], issueKey = ""): Promise<string> {
+  registerSecret(getPrefs().jiraApiToken);
+  const started = Date.now();
+  const log = (status: number | undefined, body?: string) =>
+    recordCall({
+      at: new Date(started).toISOString(),
+      via: "cli",
+      command: cliCommandLine(args),
+      status,
+      ok: status === 0,
+      durationMs: Date.now() - started,
+      body,
+    });
+
   try {
-    const { stdout } = await execAsync(cmd, {
+    const { stdout } = await execFileAsync(getJiraCliPath(), args, {
       env: shellEnv(),
       maxBuffer: 10 * 1024 * 1024,
     });
+    log(0);
     return stdout;
   } catch (err: unknown) {
+    const code = (err as { code?: unknown }).code;
     let msg = err instanceof Error ? err.message : String(err);
     // Strip the noisy "Command failed: ..." prefix that contains the full command string
     msg = msg.replace(/^Command failed: [^\n]+\n/, "");
     // Strip ANSI escape codes from error messages
     // eslint-disable-next-line no-control-regex
     const clean = msg.replaceAll(/\u001b\[[0-9;]*m/g, "");
-    throw new Error(`jira CLI (exit 1): ${clean}`);
+    log(typeof code === "number" ? code : undefined, clean);
+    throw parseCliFailure(clean, issueKey) ?? new JiraError(`jira CLI (exit 1): ${clean}`);
+  }
+}
+
+/** The command as you would type it, for the call log. */
+function cliCommandLine(args: string[]): string {
+  const quoted = args.map((a) => (/^[\w./:=@-]+$/.test(a) ? a : `'${a.replaceAll("'", "'\\''")}'`));
+  return ["jira", ...quoted].join(" ");
+}
+
+/**
+ * Turn jira-cli's failure output into a typed error, or null if it does not look like a failure.
+ * jira-cli only reports text, so this is the one place that reads it.
+ */
+function parseCliFailure(output: string, issueKey: string): JiraError | null {
+  const message = `jira CLI (exit 1): ${output}`;
+
+  const available = parseAvailableTransitions(output);
+  if (available.length > 0) {
+    const key = /Available states for issue ([^:\s]+):/i.exec(output)?.[1] ?? issueKey;
+    const target = /invalid transition state "([^"]+)"/i.exec(output)?.[1] ?? "";
+    return new NoTransitionError(key, target, available, { cause: new Error(output) });
   }
+
+  const missing = parseMissingFieldsFromCli(output);
+  if (missing.length > 0) return new MissingFieldsError(issueKey, missing, { cause: new Error(output) });
+
+  if (/\b401\b|unauthori[sz]ed|not authenticated|authentication required/i.test(output)) return new AuthError(message);
+  if (/\b403\b|forbidden|do(?: not|n't) have permission/i.test(output)) return new PermissionError(message);
+  if (/\b429\b|rate limit|too many requests/i.test(output)) return new RateLimitError(message);
+  if (/\b50[234]\b|service unavailable|bad gateway|gateway time-?out/i.test(output))
+    return new UnavailableError(message);
+  if (
+    /no such host|connection refused|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|i\/o timeout|network is unreachable/i.test(output)
+  ) {
+    return new NetworkError(message);
+  }
+
+  // jira-cli prefixes its own failure reports with "Error:" or "✗"
+  if (/^\s*(?:Error:|✗)/m.test(output)) return new JiraError(message);
+  return null;
+}
+
+/** Missing fields named by a validator message, a "fill in" prompt or per-field "is required" errors. */
+function parseMissingFieldsFromCli(output: string): MissingField[] {
+  const names = [...parseRequiredFieldsFromRestError(output), ...parseMissingFieldsFromError(output)];
+  const fields: MissingField[] = names.map((name) => ({ name }));
+  for (const m of output.matchAll(/(customfield_\d+): (.+?) is required/g)) {
+    fields.push({ id: m[1], name: m[2] });
+  }
+  return fields;
 }
 
 /**
  * Resolve ticket key from argument or clipboard.
  * Handles bare numbers ("123") by prepending default project prefix.
+ * A key whose project prefix is mapped to a server profile switches to that profile for the run.
  */
 export async function resolveTicketKey(argument: string | undefined): Promise<string> {
   let raw = argument?.trim() || "";
@@ -279,7 +600,9 @@ export async function resolveTicketKey(argument: string | undefined): Promise<st
     throw new Error(`"${raw}" doesn't look like a valid Jira ticket key (expected format: PROJ-123).`);
   }
 
-  return raw.toUpperCase();
+  const key = raw.toUpperCase();
+  selectProfileForKey(key);
+  return key;
 }
 
 // ─── Issue Types ──────────────────────────────────────────────────────────────
@@ -319,29 +642,277 @@ function mapRawIssue(raw: JiraRawIssue, fallbackKey?: string): JiraIssue {
   };
 }
 
+type JiraIssueJson = JiraRawIssue & JiraIssueResponse;
+
 export function openIssueInJira(ticketKey: string): void {
-  const cli = getJiraCliPath();
-  exec(`${cli} open ${ticketKey}`, { env: shellEnv() });
+  if (isRestBackend()) {
+    open(getJiraIssueBrowseUrl(ticketKey));
+    return;
+  }
+  execFile(getJiraCliPath(), ["open", ticketKey], { env: shellEnv() }, (error) => {
+    // A wrong jira-cli path must not crash the command: open the issue in the browser instead
+    if (!error) return;
+    try {
+      open(getJiraIssueBrowseUrl(ticketKey)).catch(() => {});
+    } catch (e: unknown) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: `Could not open ${ticketKey}`,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  });
 }
 
 export async function getIssueDetails(ticketKey: string): Promise<JiraIssue> {
-  const stdout = await runJira(`issue view ${ticketKey} --raw`);
+  const { issue: parsed, raw } = await fetchIssueJson(ticketKey);
+
+  const issue = mapRawIssue(parsed, ticketKey);
+  if (!issue.status) {
+    throw new Error(`Could not determine status for ${ticketKey}.\n\nRaw output:\n${raw.slice(0, 500)}`);
+  }
+
+  return issue;
+}
+
+// ─── Issue Snapshots ──────────────────────────────────────────────────────────
+//
+// One operation reads the same issue from several helpers (details, dev dates,
+// role fields for auto-assign). Inside withIssueSnapshots() they share a single
+// fetch per issue; anything that changes the issue drops its snapshot, so the
+// next read sees the change.
+
+interface IssueSnapshot {
+  issue: JiraIssueJson;
+  raw: string;
+}
+
+const snapshots = new Map<string, Promise<IssueSnapshot>>();
+let openOperations = 0;
 
-  let parsed: JiraRawIssue;
+/** Run `operation` with issue reads shared between helpers until it settles. Operations may nest. */
+export async function withIssueSnapshots<T>(operation: () => Promise<T>): Promise<T> {
+  openOperations++;
   try {
-    parsed = JSON.parse(stdout);
+    return await operation();
+  } finally {
+    if (--openOperations === 0) {
+      snapshots.clear();
+      await saveOpenMoves();
+    }
+  }
+}
+
+/** Forget the issue's snapshot after changing it. */
+function invalidateIssueSnapshot(ticketKey: string): void {
+  snapshots.delete(ticketKey.toUpperCase());
+}
+
+/** The issue with all its fields: the operation's snapshot when there is one, otherwise fetched now. */
+function fetchIssueJson(ticketKey: string): Promise<IssueSnapshot> {
+  if (openOperations === 0) return loadIssueJson(ticketKey);
+
+  const key = ticketKey.toUpperCase();
+  const shared = snapshots.get(key);
+  if (shared) return shared;
+
+  const snapshot = loadIssueJson(ticketKey);
+  snapshots.set(key, snapshot);
+  // a failed read is not shared; the next helper tries again
+  snapshot.catch(() => {
+    if (snapshots.get(key) === snapshot) snapshots.delete(key);
+  });
+  return snapshot;
+}
+
+/** The issue from `jira issue view --raw` or the REST API (with field names) depending on the backend. */
+async function loadIssueJson(ticketKey: string): Promise<IssueSnapshot> {
+  if (isRestBackend()) {
+    const issue = await jira().getIssue(ticketKey, undefined, ["names"]);
+    return { issue, raw: JSON.stringify(issue) };
+  }
+
+  const stdout = await withRetry(`jira issue view ${ticketKey}`, () =>
+    runJira(["issue", "view", ticketKey, "--raw"], ticketKey),
+  );
+  try {
+    return { issue: JSON.parse(stdout), raw: stdout };
   } catch {
     throw new Error(
       `Could not parse JSON from jira CLI output for ${ticketKey}.\n\nRaw output:\n${stdout.slice(0, 500)}`,
     );
   }
+}
 
-  const issue = mapRawIssue(parsed, ticketKey);
-  if (!issue.status) {
-    throw new Error(`Could not determine status for ${ticketKey}.\n\nRaw output:\n${stdout.slice(0, 500)}`);
+// ─── Undo Journal ─────────────────────────────────────────────────────────────
+//
+// Every successful transition is journaled as part of an undoable move: the status
+// the move started from, the assignee before it and the fields the transitions set.
+// An operation (see withIssueSnapshots) is one move per ticket, saved when it
+// settles, so a chained run is undone as a whole. Outside an operation each
+// transition is its own move.
+
+interface OpenMove {
+  move: UndoableMove;
+  assigneeBefore: PreviousAssignee | null;
+  reassigned: boolean;
+}
+
+const openMoves = new Map<string, OpenMove>();
+/** Where moves go instead while captureMoves() runs. */
+let captured: Map<string, OpenMove> | null = null;
+
+/**
+ * Run `operation` with its moves handed back instead of saved, e.g. while walking one back:
+ * the walk back is not undoable itself, but the fields it set still need putting back.
+ */
+export async function captureMoves<T>(operation: () => Promise<T>): Promise<{ result: T; moves: UndoableMove[] }> {
+  const outer = captured;
+  const moves = new Map<string, OpenMove>();
+  captured = moves;
+  try {
+    const result = await operation();
+    return { result, moves: [...moves.values()].map((open) => open.move) };
+  } finally {
+    captured = outer;
   }
+}
 
-  return issue;
+function assigneeRef(raw: unknown): PreviousAssignee | null {
+  const user = raw as JiraUserResponse | null | undefined;
+  if (user?.accountId) return { ref: { accountId: user.accountId }, displayName: user.displayName ?? user.accountId };
+  if (user?.name) return { ref: { name: user.name }, displayName: user.displayName ?? user.name };
+  return null;
+}
+
+/**
+ * Add fields set on the issue to its open move, with their values from `before`. A transition
+ * passes the status it aimed for; fields filled before the first hop pass none.
+ */
+function journalChange(
+  ticketKey: string,
+  before: JiraIssueJson,
+  setFields: TransitionResult["setFields"],
+  toStatus?: string,
+): void {
+  const journal = captured ?? openMoves;
+  const key = ticketKey.toUpperCase();
+  const open = journal.get(key) ?? {
+    move: {
+      ticketKey,
+      server: getJiraServer(),
+      at: "",
+      fromStatus: before.fields?.status?.name ?? "",
+      toStatus: toStatus ?? before.fields?.status?.name ?? "",
+      fields: [],
+    },
+    assigneeBefore: assigneeRef(before.fields?.assignee),
+    reassigned: false,
+  };
+  if (toStatus) open.move.toStatus = toStatus;
+  for (const { id, name } of setFields) {
+    if (open.move.fields.some((f) => f.id === id)) continue;
+    open.move.fields.push({ id, name, previous: before.fields?.[id] ?? null });
+  }
+  journal.set(key, open);
+}
+
+/** Note that the move in progress reassigned the issue, so undoing it restores the assignee. */
+function journalAssignment(ticketKey: string): void {
+  const open = openMoves.get(ticketKey.toUpperCase());
+  if (open) open.reassigned = true;
+}
+
+async function saveOpenMoves(): Promise<void> {
+  const moves = [...openMoves.values()];
+  openMoves.clear();
+  for (const { move, assigneeBefore, reassigned } of moves) {
+    const finished = { ...move, at: new Date().toISOString() };
+    try {
+      await saveUndoableMove(reassigned ? { ...finished, previousAssignee: assigneeBefore } : finished);
+    } catch {
+      /* undo is best-effort; the move itself went through */
+    }
+  }
+}
+
+/** Value a field had before a move, shaped so the REST API takes it back. */
+function restorableValue(previous: unknown): unknown {
+  if (previous == null) return null;
+  if (Array.isArray(previous)) return previous.map(restorableValue);
+  if (typeof previous !== "object") return previous;
+  const ref = previous as Record<string, unknown>;
+  if (ref.accountId) return { accountId: ref.accountId };
+  if (ref.id) return { id: ref.id };
+  if (ref.name) return { name: ref.name };
+  return ref;
+}
+
+/** Put the fields an undone move set back to what they were. */
+export async function restoreIssueFields(ticketKey: string, fields: UndoFieldChange[]): Promise<void> {
+  if (fields.length === 0) return;
+  const change = startHistoryEntry(ticketKey, "fields", {
+    fields: fields.map((f) => `${f.name} → ${fieldValueText(f.previous)}`),
+  });
+  try {
+    await setIssueFieldsRaw(ticketKey, Object.fromEntries(fields.map((f) => [f.id, restorableValue(f.previous)])));
+    change.succeeded();
+  } catch (e: unknown) {
+    change.failed(e);
+    throw e;
+  }
+}
+
+/** Give the issue back to `previous`, or unassign it when it had nobody. */
+export async function restoreAssignee(ticketKey: string, previous: PreviousAssignee | null): Promise<void> {
+  const current = assigneeRef((await fetchIssueJson(ticketKey)).issue.fields?.assignee);
+  const change = startHistoryEntry(ticketKey, "assignment", {
+    assignee: { from: current?.displayName ?? "", to: previous?.displayName ?? "" },
+  });
+  try {
+    if (previous) await jira().assignIssue(ticketKey, previous.ref);
+    else await jira().unassignIssue(ticketKey, isCloudAuth() ? "accountId" : "name");
+    change.succeeded();
+  } catch (e: unknown) {
+    change.failed(e);
+    throw e;
+  } finally {
+    invalidateIssueSnapshot(ticketKey);
+  }
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+type HistoryDetails = Partial<Pick<HistoryEntry, "fromStatus" | "toStatus" | "transitionId" | "fields" | "assignee">>;
+
+/** Start timing a change; it is added to the history once it succeeds or fails. */
+function startHistoryEntry(ticketKey: string, kind: HistoryEntry["kind"], details: HistoryDetails = {}) {
+  const at = new Date();
+  const finish = (ok: boolean, more: HistoryDetails, error?: string) =>
+    recordHistory({
+      at: at.toISOString(),
+      server: getJiraServer(),
+      ticketKey,
+      kind,
+      ...details,
+      ...more,
+      durationMs: Date.now() - at.getTime(),
+      ok,
+      error,
+    });
+  return {
+    succeeded: (more: HistoryDetails = {}) => finish(true, more),
+    failed: (e: unknown) => finish(false, {}, e instanceof Error ? e.message : String(e)),
+  };
+}
+
+/** A raw Jira field value as history text: "empty", a name, an option value or a list of them. */
+function fieldValueText(value: unknown): string {
+  if (value == null || value === "") return "empty";
+  if (Array.isArray(value)) return value.map(fieldValueText).join(", ");
+  if (typeof value !== "object") return String(value);
+  const ref = value as Record<string, unknown>;
+  return String(ref.displayName ?? ref.value ?? ref.name ?? ref.id ?? JSON.stringify(value));
 }
 
 // ─── Issue List (JSON) ────────────────────────────────────────────────────────
@@ -351,19 +922,24 @@ export type TicketScope = "my-tickets" | "assigned";
 async function discoverDevFieldIds(): Promise<string[]> {
   try {
     const map = await fetchFieldMap();
-    const ids: string[] = [];
+    const ids = new Set<string>();
+    // Found by name unless Field Overrides (or setup) point "Developer" at another field
+    const developer = await resolveFieldId("Developer");
+    if (developer) ids.add(developer);
     for (const [name, meta] of Object.entries(map)) {
-      const lower = name.toLowerCase();
-      if (lower === "developer" || lower.includes("dev list")) {
-        ids.push(meta.id);
-      }
+      if (name.toLowerCase().includes("dev list")) ids.add(meta.id);
     }
-    return ids;
+    return [...ids];
   } catch {
     return [];
   }
 }
 
+/** `value` as a JQL string literal, for field names, statuses and other text that may hold quotes. */
+export function jqlString(value: string): string {
+  return `"${value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
 export async function getMyInProgressIssues(scope: TicketScope = "my-tickets"): Promise<JiraIssue[]> {
   let jql: string;
 
@@ -377,15 +953,25 @@ export async function getMyInProgressIssues(scope: TicketScope = "my-tickets"):
       conditions.push(`cf[${numericId}] = currentUser()`);
     }
     if (devFieldIds.length === 0) {
-      conditions.push('"Developer" = currentUser()');
+      conditions.push(`${jqlString("Developer")} = currentUser()`);
     }
     jql = `(${conditions.join(" OR ")}) AND resolution = Unresolved`;
   }
 
-  const stdout = await runJira(`issue list --jql '${jql}' --order-by updated --raw`);
+  if (isRestBackend()) {
+    const issues = await jira().searchIssues(`${jql} ORDER BY updated DESC`, ISSUE_LIST_FIELDS);
+    return issues.map((raw) => mapRawIssue(raw)).filter((i) => i.key && i.status);
+  }
+
+  const stdout = await withRetry("jira issue list", () =>
+    runJira(["issue", "list", "--jql", jql, "--order-by", "updated", "--raw"]),
+  );
   return parseIssueListJson(stdout);
 }
 
+/** Fields mapRawIssue reads; REST searches ask for these only. */
+const ISSUE_LIST_FIELDS = ["summary", "status", "assignee", "priority", "issuetype"];
+
 function parseIssueListJson(output: string): JiraIssue[] {
   let parsed: unknown;
   try {
@@ -414,14 +1000,14 @@ function parseIssueListJson(output: string): JiraIssue[] {
 
 // ─── Transitions ──────────────────────────────────────────────────────────────
 
+/** jira-cli lists them as `'To Do', 'Won't Fix'`; names may hold apostrophes and commas of their own. */
 function parseAvailableTransitions(errorMsg: string): string[] {
   const re = /Available states for issue [^:]+:\s*(.+)/i;
   const match = re.exec(errorMsg);
   if (!match) return [];
-  return match[1]
-    .split(",")
-    .map((s) => s.trim().replaceAll(/(?:^')|(?:'$)/g, ""))
-    .filter(Boolean);
+  const list = match[1].trim();
+  const names = /^'.*'$/.test(list) ? list.slice(1, -1).split(/'\s*,\s*'/) : list.split(",");
+  return names.map((s) => s.trim()).filter(Boolean);
 }
 
 function findMatchingTransition(targetStatus: string, available: string[]): string | null {
@@ -439,9 +1025,11 @@ function findMatchingTransition(targetStatus: string, available: string[]): stri
 }
 
 async function tryMove(ticketKey: string, transitionName: string): Promise<void> {
-  const stdout = await runJira(`issue move ${ticketKey} "${transitionName}"`);
-  if (/error|failed|invalid/i.test(stdout) && !/✓/.test(stdout)) {
-    throw new Error(`Transition may have failed.\n\nCLI output:\n${stdout.slice(0, 400)}`);
+  const stdout = await runJira(["issue", "move", ticketKey, transitionName], ticketKey);
+  // jira-cli marks a successful move with ✓; without it, check whether the output reports a failure
+  if (!stdout.includes("✓")) {
+    const failure = parseCliFailure(stdout, ticketKey);
+    if (failure) throw failure;
   }
 }
 
@@ -459,33 +1047,8 @@ async function tryFallbacks(ticketKey: string, fallbacks: string[]): Promise<boo
 
 // ─── REST API Transitions ─────────────────────────────────────────────────────
 
-interface TransitionFieldMeta {
-  required: boolean;
-  name: string;
-  schema?: { type?: string };
-}
-
-interface JiraTransition {
-  id: string;
-  name: string;
-  to?: { name?: string };
-  fields?: Record<string, TransitionFieldMeta>;
-}
-
-async function getAvailableTransitionsRest(ticketKey: string): Promise<JiraTransition[]> {
-  const auth = getJiraAuth();
-  const { stdout } = await execFileAsync(
-    "curl",
-    [
-      "-s",
-      `${auth.server}/rest/api/2/issue/${ticketKey}/transitions?expand=transitions.fields`,
-      "-H",
-      `Authorization: Bearer ${auth.token}`,
-    ],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
-  const parsed = JSON.parse(stdout) as { transitions?: JiraTransition[] };
-  return parsed.transitions ?? [];
+export async function getAvailableTransitionsRest(ticketKey: string): Promise<JiraTransition[]> {
+  return jira().getTransitions(ticketKey);
 }
 
 function findTransitionByName(transitions: JiraTransition[], targetStatus: string): JiraTransition | null {
@@ -503,67 +1066,224 @@ function findTransitionByName(transitions: JiraTransition[], targetStatus: strin
 
 // ─── Generic Transition Field Auto-fill ───────────────────────────────────────
 
-/** Map of field name patterns to preference keys for user picker fields. */
-const USER_FIELD_PREFS: Array<{ pattern: string; prefKey: keyof Preferences }> = [
-  { pattern: "developer", prefKey: "developerAssignee" },
-  { pattern: "reviewer", prefKey: "reviewerAssignee" },
-  { pattern: "qa", prefKey: "qaAssignee" },
-];
-
-async function resolveUserForField(fieldNameLC: string): Promise<JiraUser> {
-  const prefs = getPrefs();
-  for (const { pattern, prefKey } of USER_FIELD_PREFS) {
-    if (fieldNameLC.includes(pattern)) {
-      const email = (prefs[prefKey] as string)?.trim();
-      if (email) {
-        const users = await searchJiraUser(email);
-        if (users.length > 0) return users[0];
-      }
-      break;
-    }
-  }
-  return getCurrentUser();
-}
-
-function userFieldValue(user: JiraUser): Record<string, string | undefined> {
-  return user.name ? { name: user.name } : { accountId: user.accountId };
+/** Jira Cloud only accepts accountId; Server/Data Center users have no accountId and go by name. */
+function userFieldValue(user: JiraUser): JiraUserRef {
+  if (user.accountId) return { accountId: user.accountId };
+  if (user.name) return { name: user.name };
+  throw new Error(`Jira returned no accountId or username for ${user.displayName || "the user"}.`);
 }
 
 function isUserFieldName(nameLC: string): boolean {
-  return USER_FIELD_PREFS.some(({ pattern }) => nameLC.includes(pattern));
+  return ["developer", "reviewer", "qa"].some((pattern) => nameLC.includes(pattern));
 }
 
 function isDateFieldName(nameLC: string, schema?: { type?: string }): boolean {
   return schema?.type === "date" || nameLC.includes("date");
 }
 
+interface AutoFillField {
+  id: string;
+  name: string;
+  schema?: JiraFieldSchema;
+}
+
+interface AutoFillContext {
+  ticketKey: string;
+  /** Status being moved to; for preflight checks, the status the run ends in. */
+  targetStatus: string;
+  /** The issue, fetched once and only if a rule needs it. */
+  issue: () => Promise<JiraIssueJson>;
+}
+
+interface AutoFillResult {
+  /** Values by field ID, shaped for the REST API. */
+  fields: Record<string, unknown>;
+  /** "Field → value", for toasts. */
+  descriptions: string[];
+  filled: string[];
+  /** Names of the fields in `fields`, by field ID. */
+  names: Record<string, string>;
+  /** Fields a rule covers but could not produce a value for. */
+  unresolved: string[];
+}
+
+/** Rules from the workflow config file, or the built-in ones. */
+function getAutoFillRules(): AutoFillRule[] {
+  return getWorkflowConfig().autoFill ?? DEFAULT_AUTO_FILL_RULES;
+}
+
+function autoFillContext(ticketKey: string, targetStatus: string): AutoFillContext {
+  let issue: Promise<JiraIssueJson> | null = null;
+  return {
+    ticketKey,
+    targetStatus,
+    issue: () => (issue ??= fetchIssueJson(ticketKey).then((r) => r.issue)),
+  };
+}
+
+/** Rules for this stage whose status and issue type conditions hold. */
+async function applicableRules(ctx: AutoFillContext, stage: AutoFillStage): Promise<AutoFillRule[]> {
+  const target = normalizeStatus(ctx.targetStatus);
+  const rules: AutoFillRule[] = [];
+  for (const rule of getAutoFillRules()) {
+    if (!ruleStages(rule).includes(stage)) continue;
+    if (rule.statuses && !rule.statuses.some((s) => normalizeStatus(s) === target)) continue;
+    if (rule.issueTypes) {
+      const type = ((await ctx.issue()).fields?.issuetype?.name ?? "").toUpperCase();
+      if (!rule.issueTypes.some((t) => t.toUpperCase() === type)) continue;
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
 /**
- * Auto-fill ALL known field types from transition metadata.
- * Fills user fields from preferences (Developer, Reviewer, QA) and date fields with today.
+ * Fields named by `always`/`preflight` rules, which Jira does not list for us,
+ * and the names of those this Jira does not have.
  */
-async function autoFillFromTransitionMeta(
-  transition: JiraTransition,
-): Promise<{ fields: Record<string, unknown>; descriptions: string[] }> {
-  const fields: Record<string, unknown> = {};
-  const descriptions: string[] = [];
-  if (!transition.fields) return { fields, descriptions };
-
-  const today = new Date().toISOString().split("T")[0];
-
-  for (const [fieldId, meta] of Object.entries(transition.fields)) {
-    const nameLC = (meta.name ?? "").toLowerCase();
-
-    if (isUserFieldName(nameLC)) {
-      const user = await resolveUserForField(nameLC);
-      fields[fieldId] = userFieldValue(user);
-      descriptions.push(`${meta.name} → ${user.displayName}`);
-    } else if (isDateFieldName(nameLC, meta.schema)) {
-      fields[fieldId] = today;
-      descriptions.push(`${meta.name} → ${today}`);
+async function autoFillRuleFields(
+  ctx: AutoFillContext,
+  stage: AutoFillStage,
+): Promise<{ fields: AutoFillField[]; unavailable: string[] }> {
+  const fields: AutoFillField[] = [];
+  const unavailable: string[] = [];
+  for (const rule of await applicableRules(ctx, stage)) {
+    if (!rule.field) continue;
+    const meta = await resolveFieldMeta(rule.field);
+    if (!meta) {
+      if (!unavailable.includes(rule.field)) unavailable.push(rule.field);
+    } else if (!fields.some((f) => f.id === meta.id)) {
+      fields.push({ id: meta.id, name: rule.field, schema: meta.schema });
     }
   }
+  return { fields, unavailable };
+}
+
+/** Evaluate the stage's rules for each field; the first matching rule decides the value. */
+async function runAutoFillRules(
+  ctx: AutoFillContext,
+  stage: AutoFillStage,
+  fields: AutoFillField[],
+): Promise<AutoFillResult> {
+  const result: AutoFillResult = { fields: {}, descriptions: [], filled: [], names: {}, unresolved: [] };
+  if (fields.length === 0) return result;
+
+  const rules = await applicableRules(ctx, stage);
+  for (const field of fields) {
+    const rule = rules.find((r) => ruleMatchesField(r, field));
+    if (!rule) continue;
+
+    const filled = await autoFillValue(ctx, rule.value, field);
+    if (!filled) {
+      result.unresolved.push(field.name);
+      continue;
+    }
+    result.fields[field.id] = filled.value;
+    result.names[field.id] = field.name;
+    result.descriptions.push(`${field.name} → ${filled.display}`);
+    result.filled.push(field.name);
+  }
+  return result;
+}
+
+async function autoFillValue(
+  ctx: AutoFillContext,
+  source: AutoFillValue,
+  field: AutoFillField,
+): Promise<{ value: unknown; display: string } | null> {
+  const kind = fieldKind(field.name, field.schema);
 
-  return { fields, descriptions };
+  if (source === "today") {
+    const today = new Date().toISOString().split("T")[0];
+    return { value: today, display: today };
+  }
+  if (source === "currentUser") {
+    const user = await getCurrentUser();
+    return { value: userFieldValue(user), display: user.displayName };
+  }
+  if ("preference" in source) {
+    const configured = (getPrefs()[source.preference] ?? "").trim();
+    if (kind !== "user")
+      return configured ? { value: await shapeFieldValue(kind, configured), display: configured } : null;
+
+    const user = (configured ? (await searchJiraUser(configured))[0] : undefined) ?? (await getCurrentUser());
+    return { value: userFieldValue(user), display: user.displayName };
+  }
+  if ("field" in source) {
+    const meta = await resolveFieldMeta(source.field);
+    const text = rawFieldText((await ctx.issue()).fields?.[meta?.id ?? source.field]);
+    return text ? { value: await shapeFieldValue(kind, text), display: text } : null;
+  }
+  return { value: await shapeFieldValue(kind, source.constant), display: source.constant };
+}
+
+/** The transition transitionIssue() takes to `targetStatus`, trying the status's aliases too. */
+export function matchTransition(transitions: JiraTransition[], targetStatus: string): JiraTransition | null {
+  const match = findTransitionByName(transitions, targetStatus);
+  if (match) return match;
+  const fallbackNames = STATUS_FALLBACKS[targetStatus.toUpperCase()] ?? [];
+  return fallbackNames.reduce<JiraTransition | null>(
+    (found, fb) => found ?? findTransitionByName(transitions, fb),
+    null,
+  );
+}
+
+/** What the rules fill before the first attempt: the transition's screen fields, then the `always` rules. */
+async function plannedTransitionFields(
+  ctx: AutoFillContext,
+  transition: JiraTransition,
+): Promise<AutoFillResult & { unavailable: string[] }> {
+  const screenFields = Object.entries(transition.fields ?? {}).map(([id, meta]) => ({
+    id,
+    name: meta.name ?? id,
+    schema: meta.schema,
+  }));
+  const onScreen = await runAutoFillRules(ctx, "screen", screenFields);
+  const ruleFields = await autoFillRuleFields(ctx, "always");
+  const always = await runAutoFillRules(
+    ctx,
+    "always",
+    ruleFields.fields.filter((f) => !(f.id in onScreen.fields)),
+  );
+  return {
+    fields: { ...always.fields, ...onScreen.fields },
+    descriptions: [...onScreen.descriptions, ...always.descriptions],
+    filled: [...onScreen.filled, ...always.filled],
+    names: { ...always.names, ...onScreen.names },
+    unresolved: [...onScreen.unresolved, ...always.unresolved],
+    unavailable: ruleFields.unavailable,
+  };
+}
+
+export interface TransitionFieldsPreview {
+  /** "Field → value" for each field the rules would send with the transition. */
+  autoFilled: string[];
+  /** Required screen fields no rule fills and the issue leaves empty; the move would stop to ask for them. */
+  missing: string[];
+  /** Fields an auto-fill rule names that do not exist on this Jira. */
+  unavailable: string[];
+}
+
+/**
+ * What transitionViaRest() would send with `transition` on its first attempt, worked out without
+ * changing the issue. A transition fetched without its screen fields previews the `always` rules only.
+ */
+export async function previewTransitionFields(
+  ticketKey: string,
+  targetStatus: string,
+  transition: JiraTransition,
+): Promise<TransitionFieldsPreview> {
+  const ctx = autoFillContext(ticketKey, targetStatus);
+  const planned = await plannedTransitionFields(ctx, transition);
+  const required = Object.entries(transition.fields ?? {}).filter(
+    ([id, meta]) => meta.required && !(id in planned.fields),
+  );
+  const current = required.length > 0 ? ((await ctx.issue()).fields ?? {}) : {};
+  return {
+    autoFilled: planned.descriptions,
+    missing: required.filter(([id]) => !rawFieldText(current[id])).map(([id, meta]) => meta.name ?? id),
+    unavailable: planned.unavailable,
+  };
 }
 
 /**
@@ -583,10 +1303,7 @@ function parseRequiredFieldsFromRestError(errorBody: string): string[] {
 /**
  * Find a field ID by name: check transition metadata first, then field list API.
  */
-async function findFieldIdByName(
-  fieldName: string,
-  transition: JiraTransition,
-): Promise<string | null> {
+async function findFieldIdByName(fieldName: string, transition: JiraTransition): Promise<string | null> {
   const lower = fieldName.toLowerCase();
   if (transition.fields) {
     for (const [fieldId, meta] of Object.entries(transition.fields)) {
@@ -607,238 +1324,249 @@ async function findFieldIdByName(
   return null;
 }
 
-async function postTransition(
-  ticketKey: string,
-  transitionId: string,
-  fields: Record<string, unknown>,
-): Promise<string> {
-  const auth = getJiraAuth();
-  const body: Record<string, unknown> = { transition: { id: transitionId } };
-  if (Object.keys(fields).length > 0) {
-    body.fields = fields;
-  }
-
-  const { stdout } = await execFileAsync(
-    "curl",
-    [
-      "-s",
-      "-w",
-      "\n%{http_code}",
-      "-X",
-      "POST",
-      `${auth.server}/rest/api/2/issue/${ticketKey}/transitions`,
-      "-H",
-      `Authorization: Bearer ${auth.token}`,
-      "-H",
-      "Content-Type: application/json",
-      "-d",
-      JSON.stringify(body),
-    ],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
+export interface TransitionResult {
+  autoFilled: string[];
+  /** Fields an auto-fill rule wanted to set that do not exist on this Jira. */
+  unavailable: string[];
+  /** Fields sent with the transition. */
+  setFields: Array<{ id: string; name: string }>;
+  /** ID of the Jira transition used, when the REST API made the move. */
+  transitionId?: string;
+}
 
-  return stdout;
+function nothingSet(): TransitionResult {
+  return { autoFilled: [], unavailable: [], setFields: [] };
 }
 
-export interface TransitionResult {
-  autoFilled: string[];
+function setFieldsOf(fields: Record<string, unknown>, names: Record<string, string>): TransitionResult["setFields"] {
+  return Object.keys(fields).map((id) => ({ id, name: names[id] ?? id }));
 }
 
 /**
  * Transition via REST API with automatic field filling.
- * 1. Auto-fill known fields from transition metadata.
+ * 1. Auto-fill screen fields, and fields set on every matching transition, as the auto-fill rules say.
  * 2. POST the transition.
  * 3. If it fails because of missing custom fields, resolve them, auto-fill, and retry.
  */
 async function transitionViaRest(ticketKey: string, targetStatus: string): Promise<TransitionResult> {
   const transitions = await getAvailableTransitionsRest(ticketKey);
-  const match = findTransitionByName(transitions, targetStatus);
-
-  const fallbackNames = STATUS_FALLBACKS[targetStatus.toUpperCase()] ?? [];
-  const fallbackMatch = !match
-    ? fallbackNames.reduce<JiraTransition | null>(
-        (found, fb) => found ?? findTransitionByName(transitions, fb),
-        null,
-      )
-    : null;
-
-  const transition = match ?? fallbackMatch;
+  const transition = matchTransition(transitions, targetStatus);
   if (!transition) {
-    const available = transitions.map((t) => t.name).join(", ");
-    throw new Error(`No matching transition to "${targetStatus}" for ${ticketKey}. Available: ${available}`);
+    throw new NoTransitionError(
+      ticketKey,
+      targetStatus,
+      transitions.map((t) => t.name),
+    );
   }
 
-  const { fields, descriptions } = await autoFillFromTransitionMeta(transition);
+  const ctx = autoFillContext(ticketKey, targetStatus);
+  const { fields, descriptions, names, unavailable } = await plannedTransitionFields(ctx, transition);
 
-  if (isDoingStatus(targetStatus)) {
-    const today = new Date().toISOString().split("T")[0];
-    fields[DEV_DATE_FIELDS.devStartDate.id] ??= today;
-    if (!descriptions.some((d) => d.includes("Dev Start Date"))) {
-      descriptions.push(`Dev Start Date → ${today}`);
-    }
+  // --- First attempt ---
+  let missing: MissingField[];
+  try {
+    await jira().doTransition(ticketKey, transition.id, fields);
+    return {
+      autoFilled: descriptions,
+      unavailable,
+      setFields: setFieldsOf(fields, names),
+      transitionId: transition.id,
+    };
+  } catch (e: unknown) {
+    // --- Collect missing fields from error and retry ---
+    if (!(e instanceof JiraRequestError)) throw e;
+    missing = missingFieldsFromRestError(e, transition);
+    if (missing.length === 0) throw e;
+    // Screen fields come back by ID and were already auto-filled where possible; only a person can fill them
+    if (missing.some((f) => f.id)) throw new MissingFieldsError(ticketKey, missing, { cause: e });
   }
 
-  // --- First attempt ---
-  const firstOut = await postTransition(ticketKey, transition.id, fields);
-  const firstLines = firstOut.trim().split("\n");
-  const firstCode = firstLines[firstLines.length - 1].trim();
-  if (firstCode.startsWith("2")) {
-    return { autoFilled: descriptions };
-  }
-
-  // --- Parse missing fields from error and retry ---
-  const firstBody = firstLines.slice(0, -1).join("\n");
-  const missingNames = parseRequiredFieldsFromRestError(firstBody);
-  if (missingNames.length === 0) {
-    throw new Error(`Transition to "${targetStatus}" failed (HTTP ${firstCode}): ${firstBody.slice(0, 400)}`);
-  }
-
-  const retryFields = { ...fields };
-  const today = new Date().toISOString().split("T")[0];
-
-  for (const fieldName of missingNames) {
-    const fieldId = await findFieldIdByName(fieldName, transition);
-    if (!fieldId) continue;
-    if (retryFields[fieldId] != null) continue;
-
-    const nameLC = fieldName.toLowerCase();
-    if (isUserFieldName(nameLC)) {
-      const user = await resolveUserForField(nameLC);
-      retryFields[fieldId] = userFieldValue(user);
-      descriptions.push(`${fieldName} → ${user.displayName}`);
-    } else if (isDateFieldName(nameLC)) {
-      retryFields[fieldId] = today;
-      descriptions.push(`${fieldName} → ${today}`);
-    } else {
-      const user = await getCurrentUser();
-      retryFields[fieldId] = userFieldValue(user);
-      descriptions.push(`${fieldName} → ${user.displayName}`);
-    }
+  const rejectedFields: AutoFillField[] = [];
+  for (const { name } of missing) {
+    const id = await findFieldIdByName(name, transition);
+    if (id && fields[id] == null) rejectedFields.push({ id, name, schema: transition.fields?.[id]?.schema });
   }
+  const rejected = await runAutoFillRules(ctx, "rejected", rejectedFields);
+  const retryFields = { ...fields, ...rejected.fields };
+  descriptions.push(...rejected.descriptions);
 
   // --- Retry ---
-  const retryOut = await postTransition(ticketKey, transition.id, retryFields);
-  const retryLines = retryOut.trim().split("\n");
-  const retryCode = retryLines[retryLines.length - 1].trim();
-  if (!retryCode.startsWith("2")) {
-    const retryBody = retryLines.slice(0, -1).join("\n");
-    throw new Error(`Transition to "${targetStatus}" failed (HTTP ${retryCode}): ${retryBody.slice(0, 400)}`);
+  try {
+    await jira().doTransition(ticketKey, transition.id, retryFields);
+  } catch (e: unknown) {
+    if (!(e instanceof JiraRequestError)) throw e;
+    const stillMissing = missingFieldsFromRestError(e, transition);
+    if (stillMissing.length === 0) throw e;
+    throw new MissingFieldsError(ticketKey, stillMissing, { cause: e });
   }
+  return {
+    autoFilled: descriptions,
+    unavailable,
+    setFields: setFieldsOf(retryFields, { ...names, ...rejected.names }),
+    transitionId: transition.id,
+  };
+}
 
-  return { autoFilled: descriptions };
+/**
+ * Fields a rejected transition reports as missing: names quoted in validator messages,
+ * plus per-field "required" errors keyed by field ID.
+ */
+function missingFieldsFromRestError(e: JiraRequestError, transition: JiraTransition): MissingField[] {
+  const fields: MissingField[] = parseRequiredFieldsFromRestError(e.errorMessages.join("\n")).map((name) => ({
+    name,
+  }));
+  for (const [id, message] of Object.entries(e.errors)) {
+    if (/required|must be set/i.test(message)) fields.push({ id, name: transition.fields?.[id]?.name ?? id });
+  }
+  return fields;
 }
 
+/**
+ * Move the issue to `targetStatus`. Throttling and outages are retried; before each retry the issue
+ * is read again, so a try that did land in Jira is not repeated.
+ */
 export async function transitionIssue(ticketKey: string, targetStatus: string): Promise<TransitionResult> {
+  const before = (await fetchIssueJson(ticketKey)).issue;
+  const change = startHistoryEntry(ticketKey, "transition", {
+    fromStatus: before.fields?.status?.name,
+    toStatus: targetStatus,
+  });
+  try {
+    const result = await withRetry(`${ticketKey} → ${targetStatus}`, async (attempt) => {
+      if (attempt > 1 && (await hasReachedStatus(ticketKey, targetStatus))) return nothingSet();
+      return moveIssue(ticketKey, targetStatus);
+    });
+    change.succeeded({ transitionId: result.transitionId, fields: result.autoFilled });
+    journalChange(ticketKey, before, result.setFields, targetStatus);
+    if (openOperations === 0) await saveOpenMoves();
+    return result;
+  } catch (e: unknown) {
+    change.failed(e);
+    throw e;
+  } finally {
+    invalidateIssueSnapshot(ticketKey);
+  }
+}
+
+async function hasReachedStatus(ticketKey: string, targetStatus: string): Promise<boolean> {
+  invalidateIssueSnapshot(ticketKey);
+  const issue = await getIssueDetails(ticketKey);
+  return normalizeStatus(issue.status) === normalizeStatus(targetStatus);
+}
+
+async function moveIssue(ticketKey: string, targetStatus: string): Promise<TransitionResult> {
+  if (isRestBackend()) return transitionViaRest(ticketKey, targetStatus);
+
   const fallbacks = STATUS_FALLBACKS[targetStatus.toUpperCase()] ?? [];
 
   try {
     await tryMove(ticketKey, targetStatus);
   } catch (primaryError) {
-    const errMsg = primaryError instanceof Error ? primaryError.message : String(primaryError);
-
-    if (/custom field value must be set/i.test(errMsg)) {
+    // jira-cli cannot send field values; REST can auto-fill them
+    if (primaryError instanceof MissingFieldsError) {
       return transitionViaRest(ticketKey, targetStatus);
     }
+    if (!(primaryError instanceof NoTransitionError)) throw primaryError;
 
-    const available = parseAvailableTransitions(errMsg);
-    const matchName = findMatchingTransition(targetStatus, available);
-
+    const matchName = findMatchingTransition(targetStatus, primaryError.available);
     if (matchName) {
       await tryMove(ticketKey, matchName);
-      return { autoFilled: [] };
+      return nothingSet();
     }
 
-    if (await tryFallbacks(ticketKey, fallbacks)) return { autoFilled: [] };
+    if (await tryFallbacks(ticketKey, fallbacks)) return nothingSet();
 
-    throw primaryError;
+    throw new NoTransitionError(ticketKey, targetStatus, primaryError.available, { cause: primaryError });
   }
 
-  return { autoFilled: [] };
+  return nothingSet();
 }
 
 // ─── Dev Date Auto-fill ───────────────────────────────────────────────────────
 
+/** Dev date fields by the names they have on our own Jira; other instances map them with Field Overrides. */
 export const DEV_DATE_FIELDS = {
-  devStartDate: { name: "Dev Start Date", id: "customfield_11516" },
-  devDueDate: { name: "Dev Due Date", id: "customfield_10304" },
-  plannedStart: { name: "Planned Dev Start Date", id: "customfield_11520" },
-  plannedDue: { name: "Planned Dev Due Date", id: "customfield_11509" },
-};
+  devStartDate: "Dev Start Date",
+  devDueDate: "Dev Due Date",
+  plannedStart: "Planned Dev Start Date",
+  plannedDue: "Planned Dev Due Date",
+} as const;
+
+export type DevDateField = keyof typeof DEV_DATE_FIELDS;
+
+/** A dev date field as found on this Jira, or null when it has no such field. */
+export type DevDateFields = Record<DevDateField, { name: string; id: string } | null>;
+
+export async function getDevDateFields(): Promise<DevDateFields> {
+  const entries = await Promise.all(
+    (Object.entries(DEV_DATE_FIELDS) as [DevDateField, string][]).map(async ([key, name]) => {
+      const meta = await resolveFieldMeta(name);
+      return [key, meta ? { name, id: meta.id } : null] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as DevDateFields;
+}
 
 export async function getIssueRawFields(ticketKey: string, fieldIds: string[]): Promise<Record<string, string | null>> {
-  const stdout = await runJira(`issue view ${ticketKey} --raw`);
-
-  let parsed: { fields?: Record<string, unknown> };
-  try {
-    parsed = JSON.parse(stdout);
-  } catch {
-    throw new Error(
-      `Could not parse JSON from jira CLI output for ${ticketKey}.\n\nRaw output:\n${stdout.slice(0, 500)}`,
-    );
-  }
+  const { issue } = await fetchIssueJson(ticketKey);
+  const fields: Record<string, unknown> = issue.fields ?? {};
+  return Object.fromEntries(fieldIds.map((id) => [id, rawFieldText(fields[id])]));
+}
 
-  const fields = parsed?.fields ?? {};
-
-  const result: Record<string, string | null> = {};
-  for (const id of fieldIds) {
-    const val = fields[id];
-    if (typeof val === "string") {
-      result[id] = val;
-    } else if (
-      val &&
-      typeof val === "object" &&
-      "value" in (val as Record<string, unknown>) &&
-      typeof (val as Record<string, unknown>).value === "string"
-    ) {
-      result[id] = (val as Record<string, string>).value;
-    } else {
-      result[id] = null;
-    }
+/** A field value as text: strings as-is, option objects by their `value`, anything else null. */
+function rawFieldText(val: unknown): string | null {
+  if (typeof val === "string") return val;
+  if (val && typeof val === "object" && typeof (val as Record<string, unknown>).value === "string") {
+    return (val as Record<string, string>).value;
   }
-  return result;
+  return null;
 }
 
 // ─── Jira REST API (bypass broken jira-cli `issue edit --custom`) ─────────────
 
-const FIELD_NAME_TO_ID: Record<string, string> = {
-  [DEV_DATE_FIELDS.devStartDate.name]: DEV_DATE_FIELDS.devStartDate.id,
-  [DEV_DATE_FIELDS.devDueDate.name]: DEV_DATE_FIELDS.devDueDate.id,
-  [DEV_DATE_FIELDS.plannedStart.name]: DEV_DATE_FIELDS.plannedStart.id,
-  [DEV_DATE_FIELDS.plannedDue.name]: DEV_DATE_FIELDS.plannedDue.id,
-};
-
-function getJiraAuth(): { server: string; token: string } {
+function getJiraAuth(): JiraAuth {
   const prefs = getPrefs();
   const server = prefs.jiraServer.replace(/\/+$/, "");
   const token = prefs.jiraApiToken;
   if (!server || !token) {
     throw new Error("Jira Server URL and API Token must be set in preferences.");
   }
-  return { server, token };
+  if (isCloudAuth()) {
+    const email = prefs.jiraEmail?.trim();
+    if (!email) throw new Error("Jira Cloud authentication needs the account email set in preferences.");
+    return { server, token, type: "basic", email };
+  }
+  return { server, token, type: "bearer" };
+}
+
+/** Jira Cloud: email + API token over Basic auth, and users identified by accountId only. */
+function isCloudAuth(): boolean {
+  return getPrefs().authType === "basic";
+}
+
+function jira(): JiraClient {
+  return new JiraClient(getJiraAuth());
 }
 
 interface JiraFieldMeta {
   id: string;
-  schema?: { type?: string; custom?: string };
+  schema?: JiraFieldSchema;
 }
 
-let cachedFieldMap: Record<string, JiraFieldMeta> | null = null;
+/** Cache keys are per server: field IDs, users and workflows differ between Jira instances. */
+export function jiraCacheKey(...parts: string[]): string {
+  return [getPrefs().jiraServer.replace(/\/+$/, ""), ...parts].join("|");
+}
 
 async function fetchFieldMap(): Promise<Record<string, JiraFieldMeta>> {
-  if (cachedFieldMap) return cachedFieldMap;
-
-  const auth = getJiraAuth();
-  const { stdout } = await execFileAsync(
-    "curl",
-    ["-s", `${auth.server}/rest/api/2/field`, "-H", `Authorization: Bearer ${auth.token}`],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
-  const fields: Array<{ id: string; name: string; schema?: { type?: string; custom?: string } }> = JSON.parse(stdout);
-  cachedFieldMap = {};
-  for (const f of fields) {
-    cachedFieldMap[f.name] = { id: f.id, schema: f.schema };
-  }
-  return cachedFieldMap;
+  return cached(jiraCacheKey("fields"), CACHE_TTL.fields, async () => {
+    const fields = await jira().getFields();
+    const map: Record<string, JiraFieldMeta> = {};
+    for (const f of fields) {
+      map[f.name] = { id: f.id, schema: f.schema };
+    }
+    return map;
+  });
 }
 
 async function resolveFieldId(fieldName: string): Promise<string | null> {
@@ -846,151 +1574,274 @@ async function resolveFieldId(fieldName: string): Promise<string | null> {
   return meta ? meta.id : null;
 }
 
+/**
+ * Field Overrides ("Dev Start Date=customfield_11516, Dev Due Date=Target end"): the field ID
+ * or name this Jira uses for a field the extension knows by another name. Keys are lowercase.
+ */
+function getFieldOverrides(): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const entry of (getPrefs().fieldOverrides ?? "").split(",")) {
+    const [name, target] = entry.split("=").map((part) => part.trim());
+    if (name && target) overrides[name.toLowerCase()] = target;
+  }
+  return overrides;
+}
+
+/** Look a field up by name or ID, after applying Field Overrides. Null when this Jira has no such field. */
 async function resolveFieldMeta(fieldName: string): Promise<JiraFieldMeta | null> {
-  if (FIELD_NAME_TO_ID[fieldName]) return { id: FIELD_NAME_TO_ID[fieldName] };
+  const target = getFieldOverrides()[fieldName.toLowerCase()] ?? fieldName;
 
   try {
     const map = await fetchFieldMap();
-    if (map[fieldName]) return map[fieldName];
+    if (map[target]) return map[target];
 
-    const lower = fieldName.toLowerCase();
+    const lower = target.toLowerCase();
     const match = Object.entries(map).find(([k]) => k.toLowerCase() === lower);
     if (match) return match[1];
+
+    const byId = Object.values(map).find((meta) => meta.id === target);
+    if (byId) return byId;
   } catch {
-    cachedFieldMap = null;
+    // Without the field list, trust an ID the user configured
+    if (target !== fieldName && /^customfield_\d+$/.test(target)) return { id: target };
   }
 
   return null;
 }
 
 async function setIssueFieldsRaw(ticketKey: string, fieldData: Record<string, unknown>): Promise<void> {
-  const auth = getJiraAuth();
-  const body = JSON.stringify({ fields: fieldData });
-  const { stdout } = await execFileAsync(
-    "curl",
-    [
-      "-s",
-      "-w",
-      "\n%{http_code}",
-      "-X",
-      "PUT",
-      `${auth.server}/rest/api/2/issue/${ticketKey}`,
-      "-H",
-      `Authorization: Bearer ${auth.token}`,
-      "-H",
-      "Content-Type: application/json",
-      "-d",
-      body,
-    ],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
-
-  const lines = stdout.trim().split("\n");
-  const httpCode = lines[lines.length - 1].trim();
-  if (!httpCode.startsWith("2")) {
-    const responseBody = lines.slice(0, -1).join("\n");
-    throw new Error(`Failed to update fields (HTTP ${httpCode}): ${responseBody.slice(0, 400)}`);
+  try {
+    await jira().updateIssueFields(ticketKey, fieldData);
+  } finally {
+    invalidateIssueSnapshot(ticketKey);
   }
 }
 
-export async function setIssueCustomFields(ticketKey: string, fields: Record<string, string>): Promise<void> {
-  const auth = getJiraAuth();
-
-  const fieldData: Record<string, unknown> = {};
-  for (const [name, value] of Object.entries(fields)) {
-    const meta = await resolveFieldMeta(name);
-    if (!meta) throw new Error(`Could not resolve Jira field ID for "${name}".`);
-
-    const isUserField =
-      meta.schema?.type === "user" ||
-      meta.schema?.custom === "com.atlassian.jira.plugin.system.customfieldtypes:userpicker" ||
-      isUserFieldName(name.toLowerCase());
+/**
+ * A value for one field, as entered in a form. Option fields take the option ID,
+ * cascading selects a parent/child pair of option IDs, multi-value fields a list.
+ */
+export type FieldInput = string | number | string[] | { parent: string; child?: string };
 
-    if (isUserField) {
-      const users = await searchJiraUser(value);
-      if (users.length > 0) {
-        fieldData[meta.id] = userFieldValue(users[0]);
-      } else {
-        fieldData[meta.id] = value.includes("@") ? { accountId: value } : { name: value };
-      }
-    } else {
-      fieldData[meta.id] = value;
+/** Set fields by name, shaping each value the way the field's schema expects. */
+export async function setIssueCustomFields(ticketKey: string, fields: Record<string, FieldInput>): Promise<void> {
+  const change = startHistoryEntry(ticketKey, "fields", {
+    fields: Object.entries(fields).map(([name, value]) => `${name} → ${fieldInputText(value)}`),
+  });
+  try {
+    const fieldData: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(fields)) {
+      const meta = await resolveFieldMeta(name);
+      if (!meta) throw new Error(`Could not resolve Jira field ID for "${name}".`);
+      fieldData[meta.id] = await shapeFieldValue(fieldKind(name, meta.schema), value);
     }
+
+    await setIssueFieldsRaw(ticketKey, fieldData);
+    change.succeeded();
+  } catch (e: unknown) {
+    change.failed(e);
+    throw e;
   }
+}
 
-  const body = JSON.stringify({ fields: fieldData });
-  const { stdout } = await execFileAsync(
-    "curl",
-    [
-      "-s",
-      "-w",
-      "\n%{http_code}",
-      "-X",
-      "PUT",
-      `${auth.server}/rest/api/2/issue/${ticketKey}`,
-      "-H",
-      `Authorization: Bearer ${auth.token}`,
-      "-H",
-      "Content-Type: application/json",
-      "-d",
-      body,
-    ],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
+function fieldInputText(value: FieldInput): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return [value.parent, value.child].filter(Boolean).join(" / ");
+  return String(value);
+}
 
-  const lines = stdout.trim().split("\n");
-  const httpCode = lines[lines.length - 1].trim();
-  if (!httpCode.startsWith("2")) {
-    const responseBody = lines.slice(0, -1).join("\n");
-    throw new Error(`Failed to update fields (HTTP ${httpCode}): ${responseBody.slice(0, 400)}`);
+async function shapeFieldValue(kind: FieldKind, value: FieldInput): Promise<unknown> {
+  if (typeof value === "object" && !Array.isArray(value)) {
+    return value.child ? { id: value.parent, child: { id: value.child } } : { id: value.parent };
   }
+  switch (kind) {
+    case "user":
+      return userRefFor(String(value));
+    case "multiuser":
+      return Promise.all(toList(value, /,/).map(userRefFor));
+    case "multiselect":
+      return toList(value, /,/).map((id) => ({ id }));
+    case "labels":
+      return toList(value, /[,\s]+/);
+    case "select":
+    case "cascade":
+      return { id: String(value) };
+    case "number":
+      return Number(value);
+    default:
+      return value;
+  }
+}
+
+function toList(value: string | number | string[], separator: RegExp): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(separator);
+  return items.map((v) => v.trim()).filter(Boolean);
+}
+
+/** Look a user up by email, username or accountId, preferring an exact match over the first hit. */
+async function userRefFor(value: string): Promise<JiraUserRef> {
+  const users = await searchJiraUser(value);
+  const user = users.find((u) => [u.accountId, u.name, u.emailAddress].includes(value)) ?? users[0];
+  if (user) return userFieldValue(user);
+  return isCloudAuth() || value.includes("@") ? { accountId: value } : { name: value };
 }
 
 /**
- * Auto-fill Dev Start/Due Date from their Planned counterparts.
- * Returns which fields were filled and which are still missing.
+ * Before a run to Done, fill the empty fields the `preflight` auto-fill rules cover
+ * (by default Dev Start/Due Date from their Planned counterparts).
+ * Returns which fields were filled, which are still missing, and which this Jira does not have.
  */
-export async function autoFillDevDates(ticketKey: string): Promise<{ filled: string[]; stillMissing: string[] }> {
-  const allIds = [
-    DEV_DATE_FIELDS.devStartDate.id,
-    DEV_DATE_FIELDS.devDueDate.id,
-    DEV_DATE_FIELDS.plannedStart.id,
-    DEV_DATE_FIELDS.plannedDue.id,
-  ];
+export async function autoFillBeforeDone(
+  ticketKey: string,
+  targetStatus: string,
+): Promise<{ filled: string[]; stillMissing: string[]; unavailable: string[] }> {
+  const { result, unavailable } = await preflightFill(ticketKey, targetStatus);
+  if (result.filled.length > 0) {
+    const before = (await fetchIssueJson(ticketKey)).issue;
+    const change = startHistoryEntry(ticketKey, "fields", { fields: result.descriptions });
+    try {
+      await setIssueFieldsRaw(ticketKey, result.fields);
+      change.succeeded();
+    } catch (e: unknown) {
+      change.failed(e);
+      throw e;
+    }
+    const setFields = Object.keys(result.fields).map((id) => ({ id, name: result.names[id] ?? id }));
+    journalChange(ticketKey, before, setFields);
+    if (openOperations === 0) await saveOpenMoves();
+  }
 
-  const raw = await getIssueRawFields(ticketKey, allIds);
+  return { filled: result.filled, stillMissing: result.unresolved, unavailable };
+}
 
-  const toFill: Record<string, string> = {};
-  const filled: string[] = [];
-  const stillMissing: string[] = [];
+/** What autoFillBeforeDone() would set, as "Field → value", without setting it. */
+export async function previewBeforeDone(
+  ticketKey: string,
+  targetStatus: string,
+): Promise<{ filled: string[]; stillMissing: string[]; unavailable: string[] }> {
+  const { result, unavailable } = await preflightFill(ticketKey, targetStatus);
+  return { filled: result.descriptions, stillMissing: result.unresolved, unavailable };
+}
 
-  // Dev Start Date: fill from Planned Dev Start Date if missing
-  if (!raw[DEV_DATE_FIELDS.devStartDate.id]) {
-    const planned = raw[DEV_DATE_FIELDS.plannedStart.id];
-    if (planned) {
-      toFill[DEV_DATE_FIELDS.devStartDate.name] = planned;
-      filled.push(DEV_DATE_FIELDS.devStartDate.name);
-    } else {
-      stillMissing.push(DEV_DATE_FIELDS.devStartDate.name);
-    }
+/** The values the `preflight` rules give the issue's empty fields, without setting them. */
+async function preflightFill(
+  ticketKey: string,
+  targetStatus: string,
+): Promise<{ result: AutoFillResult; unavailable: string[] }> {
+  const ctx = autoFillContext(ticketKey, targetStatus);
+  const { fields: candidates, unavailable } = await autoFillRuleFields(ctx, "preflight");
+  if (candidates.length === 0) return { result: await runAutoFillRules(ctx, "preflight", []), unavailable };
+
+  const current = (await ctx.issue()).fields ?? {};
+  const empty = candidates.filter((f) => !rawFieldText(current[f.id]));
+  return { result: await runAutoFillRules(ctx, "preflight", empty), unavailable };
+}
+
+// ─── Field Schemas ────────────────────────────────────────────────────────────
+
+export type FieldKind =
+  | "text"
+  | "number"
+  | "date"
+  | "datetime"
+  | "select"
+  | "multiselect"
+  | "cascade"
+  | "user"
+  | "multiuser"
+  | "labels";
+
+export interface FieldOption {
+  id: string;
+  label: string;
+  /** Second-level options of a cascading select. */
+  children?: FieldOption[];
+}
+
+/** What the missing-fields form needs to render one field. */
+export interface FieldSpec {
+  name: string;
+  id?: string;
+  kind: FieldKind;
+  required: boolean;
+  options: FieldOption[];
+}
+
+const USER_PICKER = "com.atlassian.jira.plugin.system.customfieldtypes:userpicker";
+const SELECTABLE_TYPES = ["option", "priority", "resolution", "version", "component", "securitylevel"];
+
+/** Classify a field by its schema, falling back to name heuristics when Jira gave none. */
+function fieldKind(name: string, schema?: JiraFieldSchema): FieldKind {
+  const nameLC = name.toLowerCase();
+  if (!schema?.type) {
+    if (isDateFieldName(nameLC)) return "date";
+    if (isUserFieldName(nameLC)) return "user";
+    return "text";
+  }
+  if (schema.type === "array") {
+    if (schema.items === "user") return "multiuser";
+    if (schema.items === "string") return "labels";
+    return "multiselect";
   }
+  if (schema.type === "user" || schema.custom === USER_PICKER) return "user";
+  if (schema.type === "option-with-child") return "cascade";
+  if (SELECTABLE_TYPES.includes(schema.type)) return "select";
+  if (schema.type === "number" || schema.type === "date" || schema.type === "datetime") return schema.type;
+  return "text";
+}
+
+function toFieldOptions(values: JiraAllowedValue[] | undefined): FieldOption[] {
+  return (values ?? [])
+    .filter((v) => !v.disabled)
+    .map((v) => ({
+      id: v.id,
+      label: v.value ?? v.name ?? v.id,
+      children: v.children ? toFieldOptions(v.children) : undefined,
+    }));
+}
 
-  // Dev Due Date: fill from Planned Dev Due Date if missing
-  if (!raw[DEV_DATE_FIELDS.devDueDate.id]) {
-    const planned = raw[DEV_DATE_FIELDS.plannedDue.id];
-    if (planned) {
-      toFill[DEV_DATE_FIELDS.devDueDate.name] = planned;
-      filled.push(DEV_DATE_FIELDS.devDueDate.name);
-    } else {
-      stillMissing.push(DEV_DATE_FIELDS.devDueDate.name);
+/**
+ * Describe missing fields for the form: type and allowed values come from the
+ * transition screen when there is one, then the issue's edit screen, then the
+ * global field list. Metadata lookups are best-effort; a field nobody describes
+ * is still returned, classified by its name.
+ */
+export async function getMissingFieldSpecs(
+  ticketKey: string,
+  fields: MissingField[],
+  targetStatus?: string,
+): Promise<FieldSpec[]> {
+  const metas: Record<string, TransitionFieldMeta> = {};
+  try {
+    Object.assign(metas, await jira().getEditMeta(ticketKey));
+  } catch {
+    // no edit permission or no REST access; fall through to the field list
+  }
+  if (targetStatus) {
+    try {
+      const transition = findTransitionByName(await getAvailableTransitionsRest(ticketKey), targetStatus);
+      Object.assign(metas, transition?.fields ?? {});
+    } catch {
+      // same as above
     }
   }
 
-  if (Object.keys(toFill).length > 0) {
-    await setIssueCustomFields(ticketKey, toFill);
+  const specs: FieldSpec[] = [];
+  for (const field of fields) {
+    const lower = field.name.toLowerCase();
+    const id = field.id ?? Object.keys(metas).find((k) => metas[k].name?.toLowerCase() === lower);
+    const meta = id ? metas[id] : undefined;
+    const global = meta?.schema ? null : await resolveFieldMeta(field.name);
+    const schema = meta?.schema ?? global?.schema;
+    specs.push({
+      name: field.name,
+      id: id ?? global?.id,
+      kind: fieldKind(field.name, schema),
+      required: meta?.required ?? true,
+      options: toFieldOptions(meta?.allowedValues),
+    });
   }
-
-  return { filled, stillMissing };
+  return specs;
 }
 
 // ─── Doing-status Helper ──────────────────────────────────────────────────────
@@ -1035,6 +1886,9 @@ const ROLE_FIELD_NAMES: Record<"qa" | "reviewer", string> = {
   reviewer: "Development Reviewer",
 };
 
+/** Fields naming the person in each role, as "Jira: Setup" maps them. */
+export const ROLE_FIELDS = [ROLE_FIELD_NAMES.qa, ROLE_FIELD_NAMES.reviewer, "Developer"];
+
 export function getRoleAssignee(role: "qa" | "reviewer" | "developer"): string {
   const prefs = getPrefs();
   if (role === "qa") return prefs.qaAssignee?.trim() || "";
@@ -1044,18 +1898,17 @@ export function getRoleAssignee(role: "qa" | "reviewer" | "developer"): string {
 }
 
 async function getIssueFieldUser(ticketKey: string, fieldName: string): Promise<JiraUser | null> {
-  const fieldId = await resolveFieldId(fieldName);
-  if (!fieldId) return null;
-
-  const stdout = await runJira(`issue view ${ticketKey} --raw`);
-  let parsed: { fields?: Record<string, unknown> };
+  let issue: JiraIssueJson;
   try {
-    parsed = JSON.parse(stdout);
+    issue = (await fetchIssueJson(ticketKey)).issue;
   } catch {
     return null;
   }
 
-  const val = parsed?.fields?.[fieldId];
+  const fieldId = await fieldIdOnIssue(issue, fieldName);
+  if (!fieldId) return null;
+
+  const val = (issue.fields ?? {})[fieldId];
   if (!val || typeof val !== "object") return null;
 
   const user = val as Record<string, unknown>;
@@ -1072,6 +1925,16 @@ async function getIssueFieldUser(ticketKey: string, fieldName: string): Promise<
   };
 }
 
+/** The field's ID from the issue's `names` expansion when it has one (Field Overrides still win), else the field list. */
+async function fieldIdOnIssue(issue: JiraIssueJson, fieldName: string): Promise<string | null> {
+  const lower = fieldName.toLowerCase();
+  if (!getFieldOverrides()[lower]) {
+    const named = Object.entries(issue.names ?? {}).find(([, name]) => name.toLowerCase() === lower);
+    if (named) return named[0];
+  }
+  return resolveFieldId(fieldName);
+}
+
 /**
  * If the target status has a configured role assignee (QA for Testing,
  * Reviewer for reviews), look up and assign that person.
@@ -1082,23 +1945,27 @@ export async function autoAssignForStatus(
   ticketKey: string,
   targetStatus: string,
 ): Promise<{ assigned: boolean; displayName?: string }> {
+  const user = await roleAssigneeFor(ticketKey, targetStatus);
+  if (!user) return { assigned: false };
+
+  await assignIssue(ticketKey, user);
+  journalAssignment(ticketKey);
+  return { assigned: true, displayName: user.displayName };
+}
+
+/** Who autoAssignForStatus() assigns for `targetStatus`, or null when the status has no role or nobody is found. */
+export async function roleAssigneeFor(ticketKey: string, targetStatus: string): Promise<JiraUser | null> {
   const role = ROLE_STATUS_MAP[normalizeStatus(targetStatus)];
-  if (!role) return { assigned: false };
+  if (!role) return null;
 
   const fieldUser = await getIssueFieldUser(ticketKey, ROLE_FIELD_NAMES[role]);
-  if (fieldUser) {
-    await assignIssue(ticketKey, fieldUser);
-    return { assigned: true, displayName: fieldUser.displayName };
-  }
+  if (fieldUser) return fieldUser;
 
   const email = getRoleAssignee(role);
-  if (!email) return { assigned: false };
+  if (!email) return null;
 
   const users = await searchJiraUser(email);
-  if (users.length === 0) return { assigned: false };
-
-  await assignIssue(ticketKey, users[0]);
-  return { assigned: true, displayName: users[0].displayName };
+  return users[0] ?? null;
 }
 
 export interface JiraUser {
@@ -1108,95 +1975,222 @@ export interface JiraUser {
   emailAddress?: string;
 }
 
-async function fetchJiraUsers(url: string, token: string): Promise<JiraUser[]> {
-  const { stdout } = await execFileAsync("curl", ["-s", url, "-H", `Authorization: Bearer ${token}`], {
-    env: shellEnv(),
-    maxBuffer: 10 * 1024 * 1024,
-  });
+function mapJiraUser(u: JiraUserResponse, fallbackName = ""): JiraUser {
+  return {
+    accountId: u.accountId,
+    name: u.name ?? u.key,
+    displayName: u.displayName ?? u.name ?? u.accountId ?? fallbackName,
+    emailAddress: u.emailAddress,
+  };
+}
 
-  let parsed: unknown;
+async function fetchJiraUsers(param: "username" | "query", value: string): Promise<JiraUser[]> {
+  let users: JiraUserResponse[];
   try {
-    parsed = JSON.parse(stdout);
-  } catch {
-    return [];
+    users = await jira().searchUsers(param, value);
+  } catch (e: unknown) {
+    // An unsupported search parameter (Cloud vs Server) answers with an error status; treat it as no match.
+    if (e instanceof JiraRequestError || e instanceof JiraResponseError) return [];
+    throw e;
   }
-
-  if (!Array.isArray(parsed)) return [];
-  return (
-    parsed as Array<{ accountId?: string; name?: string; key?: string; displayName?: string; emailAddress?: string }>
-  )
-    .filter((u) => u.accountId || u.name || u.key)
-    .map((u) => ({
-      accountId: u.accountId,
-      name: u.name ?? u.key,
-      displayName: u.displayName ?? u.name ?? u.accountId ?? "",
-      emailAddress: u.emailAddress,
-    }));
+  if (!Array.isArray(users)) return [];
+  return users.filter((u) => u.accountId || u.name || u.key).map((u) => mapJiraUser(u));
 }
 
 export async function getCurrentUser(): Promise<JiraUser> {
-  const auth = getJiraAuth();
-  const { stdout } = await execFileAsync(
-    "curl",
-    ["-s", `${auth.server}/rest/api/2/myself`, "-H", `Authorization: Bearer ${auth.token}`],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
-
-  const u = JSON.parse(stdout) as {
-    accountId?: string;
-    name?: string;
-    key?: string;
-    displayName?: string;
-    emailAddress?: string;
-  };
-  return {
-    accountId: u.accountId,
-    name: u.name ?? u.key,
-    displayName: u.displayName ?? u.name ?? u.accountId ?? "me",
-    emailAddress: u.emailAddress,
-  };
+  return cached(jiraCacheKey("myself"), CACHE_TTL.currentUser, async () => mapJiraUser(await jira().getMyself(), "me"));
 }
 
+/** Users matching `query`. Lookups by email (assignee preferences) are cached; as-you-type searches are not. */
 export async function searchJiraUser(query: string): Promise<JiraUser[]> {
-  const auth = getJiraAuth();
-  const encoded = encodeURIComponent(query);
+  if (!query.includes("@")) return fetchJiraUsersAnyDeployment(query);
+
+  const key = jiraCacheKey("users", query.toLowerCase());
+  const hit = await getCached<JiraUser[]>(key);
+  if (hit) return hit;
+  const users = await fetchJiraUsersAnyDeployment(query);
+  // Misses are not cached, so a newly added colleague shows up right away
+  if (users.length > 0) await setCached(key, users, CACHE_TTL.users);
+  return users;
+}
 
+async function fetchJiraUsersAnyDeployment(query: string): Promise<JiraUser[]> {
   // Jira Server uses `username`, Jira Cloud uses `query`
-  const serverResults = await fetchJiraUsers(
-    `${auth.server}/rest/api/2/user/search?username=${encoded}&maxResults=10`,
-    auth.token,
-  );
+  if (isCloudAuth()) return fetchJiraUsers("query", query);
+  const serverResults = await fetchJiraUsers("username", query);
   if (serverResults.length > 0) return serverResults;
 
-  return fetchJiraUsers(`${auth.server}/rest/api/2/user/search?query=${encoded}&maxResults=10`, auth.token);
+  return fetchJiraUsers("query", query);
 }
 
 export async function assignIssue(ticketKey: string, user: JiraUser): Promise<void> {
-  const auth = getJiraAuth();
-  const body = JSON.stringify(user.name ? { name: user.name } : { accountId: user.accountId });
-  const { stdout } = await execFileAsync(
-    "curl",
-    [
-      "-s",
-      "-w",
-      "\n%{http_code}",
-      "-X",
-      "PUT",
-      `${auth.server}/rest/api/2/issue/${ticketKey}/assignee`,
-      "-H",
-      `Authorization: Bearer ${auth.token}`,
-      "-H",
-      "Content-Type: application/json",
-      "-d",
-      body,
-    ],
-    { env: shellEnv(), maxBuffer: 10 * 1024 * 1024 },
-  );
+  const before = assigneeRef((await fetchIssueJson(ticketKey)).issue.fields?.assignee);
+  const change = startHistoryEntry(ticketKey, "assignment", {
+    assignee: { from: before?.displayName ?? "", to: user.displayName },
+  });
+  try {
+    await jira().assignIssue(ticketKey, userFieldValue(user));
+    change.succeeded();
+  } catch (e: unknown) {
+    change.failed(e);
+    throw e;
+  } finally {
+    invalidateIssueSnapshot(ticketKey);
+  }
+}
+
+// ─── Setup ────────────────────────────────────────────────────────────────────
+
+export interface JiraProject {
+  key: string;
+  name: string;
+}
+
+export interface JiraUserField {
+  id: string;
+  name: string;
+}
+
+/** Projects the user can browse, by key. */
+export async function getProjects(): Promise<JiraProject[]> {
+  const projects = await jira().getProjects();
+  return projects.map((p) => ({ key: p.key, name: p.name })).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** Fields holding a single user, the candidates for the role fields. */
+export async function getUserFields(): Promise<JiraUserField[]> {
+  const map = await fetchFieldMap();
+  return Object.entries(map)
+    .filter(([, meta]) => meta.schema?.type === "user")
+    .map(([name, meta]) => ({ id: meta.id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The field ID each of ROLE_FIELDS resolves to now, after Field Overrides; null when not found. */
+export async function getRoleFieldIds(): Promise<Record<string, string | null>> {
+  const ids: Record<string, string | null> = {};
+  for (const name of ROLE_FIELDS) ids[name] = await resolveFieldId(name);
+  return ids;
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────────────────────
+
+export type DiagnosticStatus = "ok" | "warning" | "error" | "skipped";
+
+export interface DiagnosticCheck {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+/**
+ * Health checks for "Jira: Diagnostics": configuration, jira-cli, server, token and the fields
+ * the extension looks up by name. Each check runs whatever the others found.
+ */
+export async function runDiagnostics(): Promise<DiagnosticCheck[]> {
+  const prefs = getPrefs();
+  const checks: DiagnosticCheck[] = [
+    {
+      name: "Configuration",
+      status: "ok",
+      detail: `${isRestBackend() ? "REST" : "jira-cli"} backend, profile "${getActiveProfileName()}"`,
+    },
+  ];
 
-  const lines = stdout.trim().split("\n");
-  const httpCode = lines[lines.length - 1].trim();
-  if (!httpCode.startsWith("2")) {
-    const responseBody = lines.slice(0, -1).join("\n");
-    throw new Error(`Failed to assign issue (HTTP ${httpCode}): ${responseBody.slice(0, 400)}`);
+  checks.push(await checkJiraCli());
+
+  checks.push(...(await checkConnection()));
+  if (!prefs.jiraServer?.trim()) return checks;
+  checks.push(...(await checkFields()));
+  return checks;
+}
+
+/** Server and token checks; "Jira: Setup" runs these before asking anything. */
+export async function checkConnection(): Promise<DiagnosticCheck[]> {
+  if (!getPrefs().jiraServer?.trim()) {
+    return [{ name: "Server", status: "error", detail: "No Jira Server URL in preferences" }];
   }
+  return [await checkServer(), await checkToken()];
+}
+
+function diagnosticError(name: string, e: unknown): DiagnosticCheck {
+  return { name, status: "error", detail: e instanceof Error ? e.message : String(e) };
+}
+
+async function checkJiraCli(): Promise<DiagnosticCheck> {
+  const name = "jira-cli";
+  if (isRestBackend()) return { name, status: "skipped", detail: "Not used by the REST backend" };
+
+  const path = getJiraCliPath();
+  try {
+    const version = (await runJira(["version"])).trim().split("\n")[0];
+    return { name, status: "ok", detail: `${path}: ${version || "version unknown"}` };
+  } catch (e: unknown) {
+    if (/ENOENT/.test(e instanceof Error ? e.message : String(e))) {
+      return { name, status: "error", detail: `Not found at "${path}". Set the Jira CLI path in preferences.` };
+    }
+    return diagnosticError(name, e);
+  }
+}
+
+async function checkServer(): Promise<DiagnosticCheck> {
+  const name = "Server";
+  const server = getPrefs().jiraServer.replace(/\/+$/, "");
+  try {
+    const info = await jira().getServerInfo();
+    const version = [info.version && `Jira ${info.version}`, info.deploymentType].filter(Boolean).join(", ");
+    return { name, status: "ok", detail: `${server} is reachable${version ? ` (${version})` : ""}` };
+  } catch (e: unknown) {
+    // Jira answered, it just wants credentials first; the token check reports those
+    if (e instanceof AuthError || e instanceof PermissionError) {
+      return { name, status: "ok", detail: `${server} is reachable` };
+    }
+    return diagnosticError(name, e);
+  }
+}
+
+async function checkToken(): Promise<DiagnosticCheck> {
+  const name = "Token";
+  try {
+    const me = mapJiraUser(await jira().getMyself());
+    const who = me.emailAddress || me.name || me.accountId;
+    return { name, status: "ok", detail: `Signed in as ${me.displayName}${who ? ` (${who})` : ""}` };
+  } catch (e: unknown) {
+    if (e instanceof AuthError) {
+      return {
+        name,
+        status: "error",
+        detail: "Jira rejected the API token. Check it (and the auth type) in preferences.",
+      };
+    }
+    return diagnosticError(name, e);
+  }
+}
+
+/** The dev date and role fields, looked up in a freshly fetched field list. */
+async function checkFields(): Promise<DiagnosticCheck[]> {
+  const names = [...Object.values(DEV_DATE_FIELDS), "Developer", ...Object.values(ROLE_FIELD_NAMES)];
+  try {
+    await invalidateCached(jiraCacheKey("fields"));
+    await fetchFieldMap();
+  } catch (e: unknown) {
+    return [diagnosticError("Fields", e)];
+  }
+
+  const overrides = getFieldOverrides();
+  return Promise.all(
+    names.map(async (fieldName): Promise<DiagnosticCheck> => {
+      const name = `Field: ${fieldName}`;
+      const meta = await resolveFieldMeta(fieldName);
+      if (!meta) {
+        return {
+          name,
+          status: "warning",
+          detail: "Not on this Jira. Map it in Field Overrides if it has another name.",
+        };
+      }
+      const via = overrides[fieldName.toLowerCase()] ? " via Field Overrides" : "";
+      return { name, status: "ok", detail: `${meta.id}${meta.schema?.type ? ` (${meta.schema.type})` : ""}${via}` };
+    }),
+  );
 }
@@ -0,0 +1,184 @@
+import { validateAutoFillRules, type AutoFillRule } from "./auto-fill-rules";
+import { loadConfigFile } from "./config-file";
+import type { WorkflowStep } from "./utils";
+
+// ─── Workflow Config File ─────────────────────────────────────────────────────
+
+export interface WorkflowDefinition {
+  name: string;
+  /** Issue type names (case-insensitive) that use this workflow. */
+  issueTypes: string[];
+  /** Used for issue types that no other workflow claims. */
+  isDefault: boolean;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowConfig {
+  workflows: WorkflowDefinition[];
+  /** Optional explicit order of board sections, as status names. */
+  boardStatuses?: string[];
+  /** Replaces the built-in auto-fill rules when present. */
+  autoFill?: AutoFillRule[];
+}
+
+export class WorkflowConfigError extends Error {
+  constructor(
+    readonly path: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid workflow config (${path}):\n${problems.map((p) => `- ${p}`).join("\n")}`);
+    this.name = "WorkflowConfigError";
+  }
+}
+
+const DEFAULT_EMOJI = "🔘";
+const DEFAULT_COLOR = "#8B9EB0";
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** The workflows, board order and auto-fill rules defined in the file at `path`. */
+export function loadWorkflowConfig(path: string): WorkflowConfig {
+  return loadConfigFile(path, validateWorkflowConfig, WorkflowConfigError);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function statusKey(status: string): string {
+  return status.trim().toUpperCase();
+}
+
+/**
+ * Validate the parsed contents of a workflow config file.
+ * Collects every problem instead of stopping at the first one so the user can fix the file in one go.
+ */
+export function validateWorkflowConfig(raw: unknown, path: string): WorkflowConfig {
+  const problems: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new WorkflowConfigError(path, ["top level must be an object with a `workflows` array"]);
+  }
+  if (!Array.isArray(raw.workflows) || raw.workflows.length === 0) {
+    throw new WorkflowConfigError(path, ["`workflows` must be a non-empty array"]);
+  }
+
+  const workflows: WorkflowDefinition[] = [];
+  const claimedTypes = new Map<string, string>();
+
+  raw.workflows.forEach((entry: unknown, wi: number) => {
+    const at = `workflows[${wi}]`;
+    if (!isRecord(entry)) {
+      problems.push(`${at}: must be an object`);
+      return;
+    }
+
+    const name = isNonEmptyString(entry.name) ? entry.name.trim() : `Workflow ${wi + 1}`;
+    if (entry.name !== undefined && !isNonEmptyString(entry.name)) {
+      problems.push(`${at}.name: must be a non-empty string`);
+    }
+
+    const isDefault = entry.default === true;
+    if (entry.default !== undefined && typeof entry.default !== "boolean") {
+      problems.push(`${at}.default: must be true or false`);
+    }
+
+    const issueTypes: string[] = [];
+    if (entry.issueTypes !== undefined) {
+      if (!Array.isArray(entry.issueTypes) || !entry.issueTypes.every(isNonEmptyString)) {
+        problems.push(`${at}.issueTypes: must be an array of issue type names`);
+      } else {
+        for (const type of entry.issueTypes as string[]) {
+          const key = statusKey(type);
+          const owner = claimedTypes.get(key);
+          if (owner) {
+            problems.push(`${at}.issueTypes: "${type}" is already used by workflow "${owner}"`);
+          } else {
+            claimedTypes.set(key, name);
+            issueTypes.push(type.trim());
+          }
+        }
+      }
+    } else if (!isDefault) {
+      problems.push(`${at}.issueTypes: required unless the workflow is marked "default": true`);
+    }
+
+    const steps: WorkflowStep[] = [];
+    if (!Array.isArray(entry.steps) || entry.steps.length < 2) {
+      problems.push(`${at}.steps: must be an array with at least two statuses`);
+    } else {
+      const seen = new Set<string>();
+      entry.steps.forEach((step: unknown, si: number) => {
+        const stepAt = `${at}.steps[${si}]`;
+        // A bare string is shorthand for a step with default emoji, color and description.
+        const obj: Record<string, unknown> | null =
+          typeof step === "string" ? { status: step } : isRecord(step) ? step : null;
+        if (!obj) {
+          problems.push(`${stepAt}: must be a status name or an object with a \`status\``);
+          return;
+        }
+        if (!isNonEmptyString(obj.status)) {
+          problems.push(`${stepAt}.status: must be a non-empty string`);
+          return;
+        }
+        const status = obj.status.trim();
+        if (seen.has(statusKey(status))) {
+          problems.push(`${stepAt}.status: "${status}" appears more than once in this workflow`);
+          return;
+        }
+        seen.add(statusKey(status));
+
+        if (obj.emoji !== undefined && !isNonEmptyString(obj.emoji)) {
+          problems.push(`${stepAt}.emoji: must be a non-empty string`);
+        }
+        if (obj.color !== undefined && !(typeof obj.color === "string" && HEX_COLOR.test(obj.color))) {
+          problems.push(`${stepAt}.color: expected a hex color like #2A9D8F`);
+        }
+        if (obj.description !== undefined && typeof obj.description !== "string") {
+          problems.push(`${stepAt}.description: must be a string`);
+        }
+
+        steps.push({
+          status,
+          emoji: isNonEmptyString(obj.emoji) ? obj.emoji : DEFAULT_EMOJI,
+          color: typeof obj.color === "string" && HEX_COLOR.test(obj.color) ? obj.color : DEFAULT_COLOR,
+          description: typeof obj.description === "string" ? obj.description : "",
+        });
+      });
+    }
+
+    workflows.push({ name, issueTypes, isDefault, steps });
+  });
+
+  const defaults = workflows.filter((w) => w.isDefault);
+  if (defaults.length > 1) {
+    problems.push(`only one workflow can be marked "default": true (found ${defaults.map((w) => w.name).join(", ")})`);
+  }
+
+  let boardStatuses: string[] | undefined;
+  if (raw.boardStatuses !== undefined) {
+    if (!Array.isArray(raw.boardStatuses) || !raw.boardStatuses.every(isNonEmptyString)) {
+      problems.push("boardStatuses: must be an array of status names");
+    } else {
+      const known = new Set(workflows.flatMap((w) => w.steps.map((s) => statusKey(s.status))));
+      boardStatuses = (raw.boardStatuses as string[]).map((s) => s.trim());
+      for (const status of boardStatuses) {
+        if (!known.has(statusKey(status))) {
+          problems.push(`boardStatuses: "${status}" is not a status in any workflow`);
+        }
+      }
+    }
+  }
+
+  const autoFill = raw.autoFill !== undefined ? validateAutoFillRules(raw.autoFill, problems) : undefined;
+
+  if (problems.length > 0) throw new WorkflowConfigError(path, problems);
+
+  // Without an explicit default, the first workflow catches every unclaimed issue type.
+  if (defaults.length === 0) workflows[0].isDefault = true;
+
+  return { workflows, boardStatuses, autoFill };
+}
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { cached, clearJiraCache, getCached, setCached } from "../src/cache";
+import {
+  discoverWorkflows,
+  getCurrentUser,
+  getWorkflowForType,
+  searchJiraUser,
+  transitionIssue,
+  type JiraIssue,
+} from "../src/utils";
+import { planTransitionPath } from "../src/transition-planner";
+import type { MockJira } from "./support/mock-jira";
+import { LocalStorage, preferences } from "./support/raycast-api";
+import { startMockJira } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("rest");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  await clearJiraCache();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function taskIn(key: string, status: string): JiraIssue {
+  return { key, summary: "", status, assignee: "", priority: "", type: "Task" };
+}
+
+describe("metadata cache", () => {
+  it("expires entries after their TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await setCached("example", 42, 1000);
+
+    expect(await getCached("example")).toBe(42);
+    vi.advanceTimersByTime(1001);
+    expect(await getCached("example")).toBeUndefined();
+  });
+
+  it("does not cache failed loads", async () => {
+    await expect(cached("broken", 1000, () => Promise.reject(new Error("offline")))).rejects.toThrow("offline");
+
+    expect(await cached("broken", 1000, async () => "recovered")).toBe("recovered");
+  });
+
+  it("clears cached entries but keeps other stored items", async () => {
+    await LocalStorage.setItem("activeProfile", "Work");
+    await setCached("example", 42, 1000);
+
+    await clearJiraCache();
+
+    expect(await getCached("example")).toBeUndefined();
+    expect(await LocalStorage.getItem("activeProfile")).toBe("Work");
+  });
+});
+
+describe("cached Jira metadata", () => {
+  it("asks for the current user once", async () => {
+    await getCurrentUser();
+    await getCurrentUser();
+
+    expect(jira.calls("GET", "/myself")).toHaveLength(1);
+  });
+
+  it("remembers user lookups by email until the cache is cleared", async () => {
+    await searchJiraUser("qa@example.com");
+    await searchJiraUser("QA@example.com");
+    expect(jira.calls("GET", "/user/search")).toHaveLength(1);
+
+    await clearJiraCache();
+    await searchJiraUser("qa@example.com");
+    expect(jira.calls("GET", "/user/search")).toHaveLength(2);
+  });
+
+  it("fetches the field list once across transitions", async () => {
+    jira.addIssue("PROJ-1", "Waiting");
+    jira.addIssue("PROJ-2", "Waiting");
+
+    await transitionIssue("PROJ-1", "Doing");
+    await transitionIssue("PROJ-2", "Doing");
+
+    expect(jira.calls("GET", "/field")).toHaveLength(1);
+  });
+
+  it("plans from transitions learned for the same project, type and status", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+    jira.addIssue("PROJ-4", "Doing");
+
+    await planTransitionPath(taskIn("PROJ-3", "Doing"), "Integration");
+    await planTransitionPath(taskIn("PROJ-4", "Doing"), "Integration");
+
+    expect(jira.calls("GET", "/issue/PROJ-3/transitions")).toHaveLength(1);
+    expect(jira.calls("GET", "/issue/PROJ-4/transitions")).toEqual([]);
+  });
+
+  it("keeps the statuses discovered for a project until the cache is cleared", async () => {
+    jira.options.projectStatuses = {
+      OPS: [
+        {
+          name: "Task",
+          statuses: [
+            { name: "Open", statusCategory: { key: "new" } },
+            { name: "Closed", statusCategory: { key: "done" } },
+          ],
+        },
+      ],
+    };
+    preferences.discoverWorkflows = true;
+    try {
+      await discoverWorkflows(["OPS"]);
+      await discoverWorkflows(["OPS"]);
+
+      expect(getWorkflowForType("Task", "OPS").map((s) => s.status)).toEqual(["Open", "Closed"]);
+      expect(jira.calls("GET", "/project/OPS/statuses")).toHaveLength(1);
+
+      await clearJiraCache();
+      await discoverWorkflows(["OPS"]);
+      expect(jira.calls("GET", "/project/OPS/statuses")).toHaveLength(2);
+    } finally {
+      preferences.discoverWorkflows = false;
+    }
+  });
+
+  it("treats a trailing slash on the server URL as the same server", async () => {
+    await getCurrentUser();
+    const server = preferences.jiraServer;
+    preferences.jiraServer = `${server}/`;
+    try {
+      await getCurrentUser();
+      expect(jira.calls("GET", "/myself")).toHaveLength(1);
+    } finally {
+      preferences.jiraServer = server;
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  clearChainRuns,
+  describeChainRun,
+  getChainRun,
+  getChainRuns,
+  getInterruptedRun,
+  recordChainRunFailure,
+  recordChainRunHop,
+  recordChainRunStop,
+  removeChainRun,
+  startChainRun,
+} from "../src/chain-runs";
+import { preferences } from "./support/raycast-api";
+
+const move = {
+  ticketKey: "PROJ-1",
+  fromStatus: "Doing",
+  steps: ["Integration", "1ST REVIEW", "Testing"],
+  fillDevDates: false,
+};
+
+beforeEach(async () => {
+  preferences.jiraServer = "https://jira.example.com";
+  await clearChainRuns();
+});
+
+describe("interrupted runs", () => {
+  it("saves the path, each hop and where the run stopped", async () => {
+    const run = await startChainRun(move);
+    await recordChainRunHop(run, "Integration", ["1ST REVIEW", "Testing"]);
+    await recordChainRunFailure(run, "1ST REVIEW", "Jira needs Reviewer");
+
+    expect(await getChainRun("proj-1")).toMatchObject({
+      server: "https://jira.example.com",
+      fromStatus: "Doing",
+      steps: ["Integration", "1ST REVIEW", "Testing"],
+      completedSteps: ["Integration"],
+      failedAt: "1ST REVIEW",
+      error: "Jira needs Reviewer",
+    });
+    expect(describeChainRun(run)).toBe("Doing → Integration, stopped before 1ST REVIEW");
+  });
+
+  it("remembers a run that was paused or cancelled between hops, and clears it when the run carries on", async () => {
+    const run = await startChainRun(move);
+    await recordChainRunHop(run, "Integration", ["1ST REVIEW", "Testing"]);
+    await recordChainRunStop(run, "1ST REVIEW", "paused");
+
+    expect(await getChainRun("PROJ-1")).toMatchObject({ failedAt: "1ST REVIEW", stop: "paused" });
+    expect(describeChainRun(run)).toBe("Doing → Integration, paused before 1ST REVIEW");
+
+    const resumed = await startChainRun({ ...move, fromStatus: "Integration", steps: ["1ST REVIEW", "Testing"] });
+    expect(resumed.stop).toBeUndefined();
+    expect(resumed.failedAt).toBeUndefined();
+  });
+
+  it("carries on a run towards the same status and replaces one towards another", async () => {
+    const run = await startChainRun(move);
+    await recordChainRunHop(run, "Integration", ["1ST REVIEW", "Testing"]);
+    await recordChainRunFailure(run, "1ST REVIEW", "Jira needs Reviewer");
+
+    const resumed = await startChainRun({ ...move, fromStatus: "Integration", steps: ["1ST REVIEW", "Testing"] });
+    expect(resumed).toMatchObject({
+      fromStatus: "Doing",
+      steps: ["Integration", "1ST REVIEW", "Testing"],
+      completedSteps: ["Integration"],
+      startedAt: run.startedAt,
+    });
+    expect(resumed.failedAt).toBeUndefined();
+
+    const other = await startChainRun({ ...move, fromStatus: "Integration", steps: ["Doing"] });
+    expect(other).toMatchObject({ fromStatus: "Integration", steps: ["Doing"], completedSteps: [] });
+    expect(await getChainRuns()).toHaveLength(1);
+  });
+
+  it("offers runs of the current server only, and forgets one whose ticket already got there", async () => {
+    const run = await startChainRun(move);
+    await startChainRun({ ...move, ticketKey: "PROJ-2" });
+
+    preferences.jiraServer = "https://other.example.com";
+    expect(await getChainRuns()).toEqual([]);
+
+    preferences.jiraServer = "https://jira.example.com";
+    expect((await getChainRuns()).map((r) => r.ticketKey)).toEqual(["PROJ-2", "PROJ-1"]);
+    expect(await getInterruptedRun({ key: "PROJ-1", status: "Integration" })).toMatchObject({ ticketKey: "PROJ-1" });
+    expect(await getInterruptedRun({ key: "PROJ-1", status: "Testing" })).toBeNull();
+    expect(await getChainRun("PROJ-1")).toBeNull();
+
+    await removeChainRun({ ...run, ticketKey: "PROJ-2" });
+    expect(await getChainRuns()).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { NoTransitionError } from "../src/errors";
+import { getMyInProgressIssues, jqlString, transitionIssue } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { startMockJira } from "./support/fixtures";
+
+/** Status names as people really type them; each transition is named after the status it leads to. */
+const AWKWARD = ["Won't Do", 'Say "Hi"', "Überprüfung", "レビュー", "Parked, for now", "$(echo pwned) `id` & more"];
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("jira-cli", {
+    workflow: { Doing: AWKWARD.map((name, i) => ({ id: String(80 + i), name, to: name })) },
+    fields: [{ id: "summary", name: "Summary" }],
+  });
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(() => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+});
+
+describe("jira-cli arguments", () => {
+  it.each(AWKWARD)("passes the transition name %s through unchanged", async (status) => {
+    jira.addIssue("PROJ-1", "Doing");
+
+    await transitionIssue("PROJ-1", status);
+
+    expect(jira.statusOf("PROJ-1")).toBe(status);
+  });
+
+  it("reads back the available transitions with their quotes and commas", async () => {
+    jira.addIssue("PROJ-2", "Doing");
+
+    const error = await transitionIssue("PROJ-2", "Nowhere").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NoTransitionError);
+    expect((error as NoTransitionError).available).toEqual(AWKWARD);
+  });
+
+  it("sends JQL to jira-cli as a single argument", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+
+    await getMyInProgressIssues("my-tickets");
+
+    expect(jira.calls("GET", "/search")[0].query.jql).toBe(
+      '(assignee = currentUser() OR "Developer" = currentUser()) AND resolution = Unresolved',
+    );
+  });
+});
+
+describe("jqlString", () => {
+  it("quotes text with quotes, apostrophes and backslashes", () => {
+    expect(jqlString("Won't Do")).toBe(`"Won't Do"`);
+    expect(jqlString('Say "Hi"')).toBe(String.raw`"Say \"Hi\""`);
+    expect(jqlString(String.raw`C:\temp`)).toBe(String.raw`"C:\\temp"`);
+    expect(jqlString("Überprüfung")).toBe(`"Überprüfung"`);
+  });
+});
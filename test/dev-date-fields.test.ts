@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { autoFillBeforeDone, getDevDateFields, transitionIssue } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { startMockJira, taskWorkflowFixture, today } from "./support/fixtures";
+
+/** Another company's Jira: its own field IDs, "Development Start" instead of "Dev Start Date" and no Dev Due Date. */
+const OTHER = {
+  devStart: "customfield_30001",
+  targetEnd: "customfield_30002",
+  plannedStart: "customfield_30003",
+  plannedDue: "customfield_30004",
+};
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("rest", {
+    ...taskWorkflowFixture(),
+    fields: [
+      { id: OTHER.devStart, name: "Development Start", schema: { type: "date" } },
+      { id: OTHER.targetEnd, name: "Target end", schema: { type: "date" } },
+      { id: OTHER.plannedStart, name: "Planned Dev Start Date", schema: { type: "date" } },
+      { id: OTHER.plannedDue, name: "Planned Dev Due Date", schema: { type: "date" } },
+    ],
+  });
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(() => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  preferences.fieldOverrides = "";
+});
+
+describe("dev date fields on another Jira", () => {
+  it("finds the fields that exist by name", async () => {
+    expect(await getDevDateFields()).toEqual({
+      devStartDate: null,
+      devDueDate: null,
+      plannedStart: { name: "Planned Dev Start Date", id: OTHER.plannedStart },
+      plannedDue: { name: "Planned Dev Due Date", id: OTHER.plannedDue },
+    });
+  });
+
+  it("skips and reports dev dates the instance does not have", async () => {
+    jira.addIssue("OTH-1", "Testing", { [OTHER.plannedStart]: "2026-05-04", [OTHER.plannedDue]: "2026-05-29" });
+
+    expect(await autoFillBeforeDone("OTH-1", "Done")).toEqual({
+      filled: [],
+      stillMissing: [],
+      unavailable: ["Dev Start Date", "Dev Due Date"],
+    });
+    expect(jira.calls("PUT", "/issue/OTH-1")).toEqual([]);
+  });
+
+  it("uses Field Overrides by name or ID", async () => {
+    preferences.fieldOverrides = `Dev Start Date=development start, Dev Due Date=${OTHER.targetEnd}`;
+    jira.addIssue("OTH-2", "Testing", { [OTHER.plannedStart]: "2026-05-04", [OTHER.plannedDue]: "2026-05-29" });
+
+    const result = await autoFillBeforeDone("OTH-2", "Done");
+
+    expect(result).toEqual({ filled: ["Dev Start Date", "Dev Due Date"], stillMissing: [], unavailable: [] });
+    expect(jira.calls("PUT", "/issue/OTH-2")[0].body).toEqual({
+      fields: { [OTHER.devStart]: "2026-05-04", [OTHER.targetEnd]: "2026-05-29" },
+    });
+  });
+
+  it("moves to Doing without a Dev Start Date when the field is missing, and says so", async () => {
+    jira.addIssue("OTH-3", "TO DO");
+
+    const result = await transitionIssue("OTH-3", "Doing");
+
+    expect(result.unavailable).toEqual(["Dev Start Date"]);
+    expect(jira.calls("POST", "/issue/OTH-3/transitions")[0].body).toEqual({ transition: { id: "12" } });
+    expect(jira.statusOf("OTH-3")).toBe("Doing");
+  });
+
+  it("sets the overridden Dev Start Date when moving to Doing", async () => {
+    preferences.fieldOverrides = "Dev Start Date=Development Start";
+    jira.addIssue("OTH-4", "TO DO");
+
+    const result = await transitionIssue("OTH-4", "Doing");
+
+    expect(result.unavailable).toEqual([]);
+    expect(jira.calls("POST", "/issue/OTH-4/transitions")[0].body).toEqual({
+      transition: { id: "12" },
+      fields: { [OTHER.devStart]: today() },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { CALL_LOG_SIZE, clearCallLog, getRecentCalls, recordCall, redact } from "../src/call-log";
+import { getIssueDetails, runDiagnostics, searchJiraUser, transitionIssue } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { FIELD, startMockJira } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("jira-cli");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  preferences.backend = "jira-cli";
+  await clearCallLog();
+});
+
+describe("runDiagnostics", () => {
+  it("checks the CLI, server, token and fields", async () => {
+    const checks = await runDiagnostics();
+
+    expect(checks.map((c) => [c.name, c.status])).toEqual([
+      ["Configuration", "ok"],
+      ["jira-cli", "ok"],
+      ["Server", "ok"],
+      ["Token", "ok"],
+      ["Field: Dev Start Date", "ok"],
+      ["Field: Dev Due Date", "ok"],
+      ["Field: Planned Dev Start Date", "ok"],
+      ["Field: Planned Dev Due Date", "ok"],
+      ["Field: Developer", "ok"],
+      ["Field: QA", "ok"],
+      ["Field: Development Reviewer", "warning"],
+    ]);
+    expect(checks[1].detail).toContain('Version="1.5.1-fake"');
+    expect(checks[3].detail).toBe("Signed in as Morgan Me (me@example.com)");
+    expect(checks[4].detail).toBe(`${FIELD.devStartDate} (date)`);
+  });
+
+  it("skips jira-cli on the REST backend and reports a rejected token", async () => {
+    preferences.backend = "rest";
+    preferences.jiraApiToken = "expired-token";
+
+    try {
+      const checks = await runDiagnostics();
+      expect(checks.find((c) => c.name === "jira-cli")?.status).toBe("skipped");
+      expect(checks.find((c) => c.name === "Server")?.status).toBe("ok");
+      expect(checks.find((c) => c.name === "Token")).toMatchObject({ status: "error" });
+    } finally {
+      preferences.jiraApiToken = jira.token;
+    }
+  });
+
+  it("reports a missing jira binary", async () => {
+    const cliPath = preferences.jiraCliPath;
+    preferences.jiraCliPath = "/nonexistent/jira";
+
+    try {
+      const check = (await runDiagnostics()).find((c) => c.name === "jira-cli");
+      expect(check).toMatchObject({
+        status: "error",
+        detail: 'Not found at "/nonexistent/jira". Set the Jira CLI path in preferences.',
+      });
+    } finally {
+      preferences.jiraCliPath = cliPath;
+    }
+  });
+});
+
+describe("call log", () => {
+  it("records CLI and REST calls with status and duration", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+
+    await getIssueDetails("PROJ-1");
+    await transitionIssue("PROJ-1", "Won't happen").catch(() => {});
+    await searchJiraUser("qa@example.com");
+
+    const calls = await getRecentCalls();
+    expect(calls.map((c) => [c.via, c.command, c.status, c.ok])).toEqual([
+      ["cli", "jira issue view PROJ-1 --raw", 0, true],
+      // read again before moving, for the undo journal
+      ["cli", "jira issue view PROJ-1 --raw", 0, true],
+      ["cli", "jira issue move PROJ-1 'Won'\\''t happen'", 1, false],
+      ["rest", "GET /user/search", 200, true],
+    ]);
+    expect(calls[2].body).toContain("Invalid transition state");
+    expect(calls.every((c) => c.durationMs >= 0 && !Number.isNaN(Date.parse(c.at)))).toBe(true);
+  });
+
+  it("keeps only the most recent calls", async () => {
+    for (let i = 0; i < CALL_LOG_SIZE + 5; i++) {
+      recordCall({
+        at: new Date().toISOString(),
+        via: "rest",
+        command: `GET /issue/PROJ-${i}`,
+        status: 200,
+        ok: true,
+        durationMs: 1,
+      });
+    }
+
+    const calls = await getRecentCalls();
+    expect(calls).toHaveLength(CALL_LOG_SIZE);
+    expect(calls[0].command).toBe("GET /issue/PROJ-5");
+  });
+
+  it("redacts tokens and email addresses", async () => {
+    preferences.backend = "rest";
+    preferences.jiraApiToken = "super-secret-token";
+    try {
+      await getIssueDetails("PROJ-404").catch(() => {});
+    } finally {
+      preferences.jiraApiToken = jira.token;
+    }
+
+    expect(redact('Authorization: Bearer abc.def {"token": "xyz"} from dev@example.com')).toBe(
+      'Authorization: Bearer «redacted» {"token": "«redacted»"} from «email»',
+    );
+    expect(redact("the token super-secret-token leaked")).toBe("the token «redacted» leaked");
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { clearHistory, filterHistory, getHistory, historyToCsv, type HistoryEntry } from "../src/history";
+import { assignIssue, autoFillBeforeDone, setIssueCustomFields, transitionIssue } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { FIELD, startMockJira } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("rest");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  await clearHistory();
+  await clearJiraCache();
+});
+
+describe("transition history", () => {
+  it("records a transition with the statuses, transition ID and auto-filled fields", async () => {
+    jira.addIssue("PROJ-1", "Waiting");
+
+    await transitionIssue("PROJ-1", "Doing");
+
+    const [entry] = await getHistory();
+    expect(entry).toMatchObject({
+      server: jira.url,
+      ticketKey: "PROJ-1",
+      kind: "transition",
+      fromStatus: "Waiting",
+      toStatus: "Doing",
+      transitionId: "11",
+      ok: true,
+    });
+    expect(entry.fields).toEqual(
+      expect.arrayContaining([expect.stringContaining("Dev Start Date"), expect.stringContaining("Developer")]),
+    );
+  });
+
+  it("records a failed transition with its error", async () => {
+    jira.addIssue("PROJ-2", "Doing");
+
+    await expect(transitionIssue("PROJ-2", "Done")).rejects.toThrow();
+
+    const [entry] = await getHistory();
+    expect(entry).toMatchObject({ ticketKey: "PROJ-2", fromStatus: "Doing", toStatus: "Done", ok: false });
+    expect(entry.error).toBeTruthy();
+  });
+
+  it("records assignments and field updates", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+
+    await assignIssue("PROJ-3", { name: "qa", displayName: "Quinn QA" });
+    await setIssueCustomFields("PROJ-3", { "Story Points": 3 });
+
+    expect(await getHistory()).toMatchObject([
+      { ticketKey: "PROJ-3", kind: "assignment", assignee: { from: "", to: "Quinn QA" }, ok: true },
+      { ticketKey: "PROJ-3", kind: "fields", fields: ["Story Points → 3"], ok: true },
+    ]);
+  });
+
+  it("records fields filled from the planned dates before Done", async () => {
+    jira.addIssue("PROJ-5", "Testing", { [FIELD.plannedStart]: "2026-03-02", [FIELD.plannedDue]: "2026-03-20" });
+
+    await autoFillBeforeDone("PROJ-5", "Done");
+
+    expect(await getHistory()).toMatchObject([
+      {
+        ticketKey: "PROJ-5",
+        kind: "fields",
+        fields: ["Dev Start Date → 2026-03-02", "Dev Due Date → 2026-03-20"],
+        ok: true,
+      },
+    ]);
+  });
+});
+
+describe("filterHistory and export", () => {
+  const entry = (ticketKey: string, at: string, more: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    at,
+    server: "https://jira.example.com",
+    ticketKey,
+    kind: "transition",
+    durationMs: 120,
+    ok: true,
+    ...more,
+  });
+
+  const entries = [
+    entry("PROJ-1", "2026-01-01T09:00:00.000Z", { fromStatus: "Doing", toStatus: "Integration" }),
+    entry("PROJ-2", "2026-02-01T09:00:00.000Z", { fromStatus: "Integration", toStatus: "1ST REVIEW" }),
+    entry("PROJ-1", "2026-03-01T09:00:00.000Z", { kind: "fields", fields: ["Labels → login, ui"] }),
+  ];
+
+  it("filters by ticket, by status on either side of a transition, and by date", () => {
+    expect(filterHistory(entries, { ticketKey: "proj-1" })).toEqual([entries[0], entries[2]]);
+    expect(filterHistory(entries, { status: "integration" })).toEqual([entries[0], entries[1]]);
+    expect(filterHistory(entries, { since: new Date("2026-02-01T00:00:00.000Z") })).toEqual([entries[1], entries[2]]);
+  });
+
+  it("exports CSV with a header row and quotes cells that need it", () => {
+    const csv = historyToCsv([
+      entries[2],
+      entry("PROJ-4", "2026-03-02T09:00:00.000Z", { ok: false, error: 'No "Done"' }),
+    ]);
+
+    expect(csv.split("\n")).toEqual([
+      "at,server,ticketKey,kind,fromStatus,toStatus,transitionId,fields,assigneeFrom,assigneeTo,durationMs,ok,error",
+      '2026-03-01T09:00:00.000Z,https://jira.example.com,PROJ-1,fields,,,,"Labels → login, ui",,,120,true,',
+      '2026-03-02T09:00:00.000Z,https://jira.example.com,PROJ-4,transition,,,,,,,120,false,"No ""Done"""',
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  autoAssignForStatus,
+  autoFillBeforeDone,
+  getIssueDetails,
+  getIssueRawFields,
+  getMissingFieldSpecs,
+  getMyInProgressIssues,
+  searchJiraUser,
+  setIssueCustomFields,
+  transitionIssue,
+  withIssueSnapshots,
+} from "../src/utils";
+import { clearJiraCache } from "../src/cache";
+import { AuthError } from "../src/errors";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { FIELD, startMockJira } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("jira-cli");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  await clearJiraCache();
+});
+
+describe.each(["jira-cli", "rest"] as const)("issue reads via %s", (backend) => {
+  beforeEach(() => {
+    preferences.backend = backend;
+  });
+
+  it("maps issue details", async () => {
+    jira.addIssue("PROJ-1", "Doing", {
+      summary: "Fix the login page",
+      issuetype: { name: "Bug" },
+      assignee: { name: "dev", displayName: "Dana Developer" },
+    });
+
+    expect(await getIssueDetails("PROJ-1")).toEqual({
+      key: "PROJ-1",
+      summary: "Fix the login page",
+      status: "Doing",
+      assignee: "Dana Developer",
+      priority: "Medium",
+      type: "Bug",
+    });
+  });
+
+  it("lists in-progress issues", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+    jira.addIssue("PROJ-2", "Testing");
+
+    const issues = await getMyInProgressIssues("assigned");
+
+    expect(issues.map((i) => [i.key, i.status])).toEqual([
+      ["PROJ-1", "Doing"],
+      ["PROJ-2", "Testing"],
+    ]);
+    expect(jira.calls("GET", "/search")[0].query.jql).toMatch(
+      /^assignee = currentUser\(\) AND resolution = Unresolved/,
+    );
+  });
+
+  it("reports rejected credentials as AuthError", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+    preferences.jiraApiToken = "expired-token";
+
+    try {
+      await expect(getIssueDetails("PROJ-1")).rejects.toBeInstanceOf(AuthError);
+    } finally {
+      preferences.jiraApiToken = jira.token;
+    }
+  });
+
+  it("reads raw field values, unwrapping option objects", async () => {
+    jira.addIssue("PROJ-1", "Doing", {
+      [FIELD.devStartDate]: "2026-01-05",
+      [FIELD.plannedDue]: { value: "2026-02-01" },
+    });
+
+    expect(await getIssueRawFields("PROJ-1", [FIELD.devStartDate, FIELD.plannedDue, FIELD.devDueDate])).toEqual({
+      [FIELD.devStartDate]: "2026-01-05",
+      [FIELD.plannedDue]: "2026-02-01",
+      [FIELD.devDueDate]: null,
+    });
+  });
+});
+
+describe("autoFillBeforeDone", () => {
+  it("copies planned dates into empty dev dates", async () => {
+    jira.addIssue("PROJ-3", "Doing", { [FIELD.plannedStart]: "2026-03-02", [FIELD.plannedDue]: "2026-03-20" });
+
+    const result = await autoFillBeforeDone("PROJ-3", "Done");
+
+    expect(result).toEqual({ filled: ["Dev Start Date", "Dev Due Date"], stillMissing: [], unavailable: [] });
+    expect(jira.calls("PUT", "/issue/PROJ-3")[0].body).toEqual({
+      fields: { [FIELD.devStartDate]: "2026-03-02", [FIELD.devDueDate]: "2026-03-20" },
+    });
+  });
+
+  it("leaves existing dev dates alone and reports dates it cannot derive", async () => {
+    jira.addIssue("PROJ-4", "Doing", { [FIELD.devStartDate]: "2026-03-01" });
+
+    const result = await autoFillBeforeDone("PROJ-4", "Done");
+
+    expect(result).toEqual({ filled: [], stillMissing: ["Dev Due Date"], unavailable: [] });
+    expect(jira.calls("PUT", "/issue/PROJ-4")).toEqual([]);
+  });
+});
+
+describe("users and assignment", () => {
+  it("searches users by username on Jira Server", async () => {
+    const users = await searchJiraUser("qa@example.com");
+
+    expect(users).toEqual([{ name: "qa", displayName: "Quinn QA", emailAddress: "qa@example.com" }]);
+    expect(jira.calls("GET", "/user/search")[0].query).toEqual({ username: "qa@example.com", maxResults: "10" });
+  });
+
+  it("assigns the role's person from the issue's own field before the preference", async () => {
+    jira.addIssue("PROJ-5", "Testing", { [FIELD.qa]: { name: "dev", displayName: "Dana Developer" } });
+
+    expect(await autoAssignForStatus("PROJ-5", "Testing")).toEqual({ assigned: true, displayName: "Dana Developer" });
+    expect(jira.calls("PUT", "/issue/PROJ-5/assignee")[0].body).toEqual({ name: "dev" });
+  });
+
+  it("falls back to the preferred assignee for the role", async () => {
+    jira.addIssue("PROJ-6", "Testing");
+
+    expect(await autoAssignForStatus("PROJ-6", "Testing")).toEqual({ assigned: true, displayName: "Quinn QA" });
+    expect(jira.calls("PUT", "/issue/PROJ-6/assignee")[0].body).toEqual({ name: "qa" });
+  });
+});
+
+describe("missing field specs", () => {
+  it("describes fields from the transition screen, edit screen, field list and name, in that order", async () => {
+    jira.addIssue("PROJ-7", "Waiting");
+
+    const specs = await getMissingFieldSpecs(
+      "PROJ-7",
+      [{ name: "Developer" }, { name: "Environment" }, { name: "Story Points" }, { name: "Release Date" }],
+      "Doing",
+    );
+
+    expect(specs).toEqual([
+      { name: "Developer", id: FIELD.developer, kind: "user", required: true, options: [] },
+      {
+        name: "Environment",
+        id: FIELD.environment,
+        kind: "select",
+        required: false,
+        options: [
+          { id: "100", label: "Staging" },
+          { id: "101", label: "Production" },
+        ],
+      },
+      { name: "Story Points", id: FIELD.storyPoints, kind: "number", required: true, options: [] },
+      { name: "Release Date", id: undefined, kind: "date", required: true, options: [] },
+    ]);
+  });
+
+  it("shapes values by field type when setting them", async () => {
+    jira.addIssue("PROJ-8", "Doing");
+
+    await setIssueCustomFields("PROJ-8", {
+      Developer: "dev@example.com",
+      Environment: "101",
+      "Story Points": 3,
+      Watchers: ["qa@example.com", "dev"],
+      Labels: "login, ui",
+    });
+
+    expect(jira.calls("PUT", "/issue/PROJ-8")[0].body).toEqual({
+      fields: {
+        [FIELD.developer]: { name: "dev" },
+        [FIELD.environment]: { id: "101" },
+        [FIELD.storyPoints]: 3,
+        [FIELD.watchers]: [{ name: "qa" }, { name: "dev" }],
+        labels: ["login", "ui"],
+      },
+    });
+  });
+});
+
+describe("issue snapshots", () => {
+  beforeEach(() => {
+    preferences.backend = "jira-cli";
+  });
+
+  it("reads the issue once per operation", async () => {
+    jira.addIssue("PROJ-9", "1ST REVIEW", { [FIELD.qa]: { name: "qa", displayName: "Quinn QA" } });
+
+    await withIssueSnapshots(async () => {
+      await getIssueDetails("PROJ-9");
+      await getIssueRawFields("PROJ-9", [FIELD.devStartDate]);
+      await autoAssignForStatus("PROJ-9", "Testing");
+    });
+
+    expect(jira.calls("GET", "/issue/PROJ-9")).toHaveLength(1);
+  });
+
+  it("reads the issue again after changing it", async () => {
+    jira.addIssue("PROJ-10", "Doing");
+
+    const statuses = await withIssueSnapshots(async () => {
+      const before = await getIssueDetails("PROJ-10");
+      await transitionIssue("PROJ-10", "Integration");
+      const after = await getIssueDetails("PROJ-10");
+      return [before.status, after.status];
+    });
+
+    expect(statuses).toEqual(["Doing", "Integration"]);
+    expect(jira.calls("GET", "/issue/PROJ-10")).toHaveLength(2);
+  });
+
+  it("does not share reads outside an operation", async () => {
+    jira.addIssue("PROJ-11", "Doing");
+
+    await getIssueDetails("PROJ-11");
+    await getIssueDetails("PROJ-11");
+
+    expect(jira.calls("GET", "/issue/PROJ-11")).toHaveLength(2);
+  });
+
+  it("finds role fields through the issue's field names over REST", async () => {
+    preferences.backend = "rest";
+    jira.addIssue("PROJ-12", "1ST REVIEW", { [FIELD.qa]: { name: "qa", displayName: "Quinn QA" } });
+
+    expect(await autoAssignForStatus("PROJ-12", "Testing")).toEqual({ assigned: true, displayName: "Quinn QA" });
+    expect(jira.calls("GET", "/issue/PROJ-12")[0].query.expand).toBe("names");
+    expect(jira.calls("GET", "/field")).toEqual([]);
+  });
+});
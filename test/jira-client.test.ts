@@ -0,0 +1,174 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  AuthError,
+  NetworkError,
+  PermissionError,
+  RateLimitError,
+  TimeoutError,
+  UnavailableError,
+} from "../src/errors";
+import {
+  authorizationHeader,
+  JiraClient,
+  JiraRequestError,
+  JiraResponseError,
+  parseRetryAfter,
+} from "../src/jira-client";
+import { NO_RETRY } from "../src/retry";
+
+let server: Server | null = null;
+
+/** Serve every request with `handler` and return the base URL. */
+async function serve(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<string> {
+  server = createServer(handler);
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(async () => {
+  server?.closeAllConnections();
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+describe("authorizationHeader", () => {
+  it("sends PATs as bearer tokens", () => {
+    expect(authorizationHeader({ server: "", token: "pat", type: "bearer" })).toBe("Bearer pat");
+  });
+
+  it("sends Cloud API tokens as basic auth with the account email", () => {
+    const header = authorizationHeader({ server: "", token: "api-token", type: "basic", email: "me@example.com" });
+    expect(header).toBe(`Basic ${Buffer.from("me@example.com:api-token").toString("base64")}`);
+  });
+});
+
+describe("JiraClient", () => {
+  it("parses Jira's error body into JiraRequestError", async () => {
+    const url = await serve((_req, res) => {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ errorMessages: ["Transition failed"], errors: { customfield_1: "Developer is required." } }),
+      );
+    });
+
+    const error = await new JiraClient({ server: url, token: "t", type: "bearer" })
+      .doTransition("PROJ-1", "11")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(JiraRequestError);
+    expect(error).toMatchObject({ status: 400, messages: ["Transition failed", "Developer is required."] });
+    expect((error as Error).message).toBe(
+      "POST /issue/PROJ-1/transitions failed (HTTP 400): Transition failed; customfield_1: Developer is required.",
+    );
+  });
+
+  it.each([
+    [401, AuthError],
+    [403, PermissionError],
+    [429, RateLimitError],
+    [503, UnavailableError],
+  ])("throws a typed error for HTTP %i", async (status, type) => {
+    const url = await serve((_req, res) => {
+      res.writeHead(status, { "Content-Type": "application/json", "Retry-After": "7" });
+      res.end(JSON.stringify({ errorMessages: ["nope"] }));
+    });
+
+    const client = new JiraClient({ server: url, token: "t", type: "bearer" }, undefined, NO_RETRY);
+    const error = await client.getMyself().catch((e) => e);
+
+    expect(error).toBeInstanceOf(type);
+    expect(error.cause).toBeInstanceOf(JiraRequestError);
+    if (error instanceof RateLimitError || error instanceof UnavailableError) expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it("rejects 2xx bodies that are not JSON", async () => {
+    const url = await serve((_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<html>Please log in</html>");
+    });
+
+    await expect(new JiraClient({ server: url, token: "t", type: "bearer" }).getMyself()).rejects.toBeInstanceOf(
+      JiraResponseError,
+    );
+  });
+
+  it("times out slow requests", async () => {
+    const url = await serve(() => {
+      /* never answers */
+    });
+
+    const error = await new JiraClient({ server: url, token: "t", type: "bearer" }, 200).getFields().catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toBeInstanceOf(NetworkError);
+  });
+
+  it("reports unreachable servers as network errors", async () => {
+    const url = await serve(() => {});
+    server!.close();
+    server = null;
+
+    await expect(
+      new JiraClient({ server: url, token: "t", type: "bearer" }, undefined, NO_RETRY).getFields(),
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("retries throttled reads after Retry-After", async () => {
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      calls++;
+      if (calls < 3) {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "0" });
+        res.end(JSON.stringify({ errorMessages: ["Rate limit exceeded."] }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ name: "me", displayName: "Me" }));
+    });
+
+    const me = await new JiraClient({ server: url, token: "t", type: "bearer" }).getMyself();
+
+    expect(me).toEqual({ name: "me", displayName: "Me" });
+    expect(calls).toBe(3);
+  });
+
+  it("does not repeat transitions on its own", async () => {
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      calls++;
+      res.writeHead(503, { "Content-Type": "application/json", "Retry-After": "0" });
+      res.end(JSON.stringify({ errorMessages: ["Service Unavailable"] }));
+    });
+
+    const error = await new JiraClient({ server: url, token: "t", type: "bearer" })
+      .doTransition("PROJ-1", "11")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnavailableError);
+    expect(calls).toBe(1);
+  });
+
+  it("encodes query parameters and returns undefined for empty responses", async () => {
+    let seen = "";
+    const url = await serve((req, res) => {
+      seen = req.url ?? "";
+      res.writeHead(204).end();
+    });
+
+    const result = await new JiraClient({ server: url, token: "t", type: "bearer" }).searchUsers("query", "a b&c");
+
+    expect(result).toBeUndefined();
+    expect(seen).toBe("/rest/api/2/user/search?query=a+b%26c&maxResults=10");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { NetworkError, RateLimitError, TimeoutError, UnavailableError } from "../src/errors";
+import { DEFAULT_RETRY_POLICY, isTransient, onRetry, retryDelay, withRetry, type RetryAttempt } from "../src/retry";
+import { getIssueDetails, transitionIssue } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { startMockJira } from "./support/fixtures";
+
+const FAST = { attempts: 3, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe("retry policy", () => {
+  it("waits as long as Retry-After asks", () => {
+    expect(retryDelay(1, new RateLimitError("throttled", 4000), DEFAULT_RETRY_POLICY)).toBe(4000);
+    expect(retryDelay(3, new UnavailableError("restarting", 0), DEFAULT_RETRY_POLICY)).toBe(0);
+  });
+
+  it("backs off exponentially with jitter otherwise", () => {
+    const policy = { attempts: 5, baseDelayMs: 100, maxDelayMs: 300 };
+    for (let i = 0; i < 20; i++) {
+      expect(retryDelay(1, new NetworkError("reset"), policy)).toBeGreaterThanOrEqual(50);
+      expect(retryDelay(1, new NetworkError("reset"), policy)).toBeLessThanOrEqual(100);
+      expect(retryDelay(2, new NetworkError("reset"), policy)).toBeGreaterThanOrEqual(100);
+      expect(retryDelay(4, new NetworkError("reset"), policy)).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it("retries throttling, outages and dropped connections, but not timeouts or other failures", () => {
+    expect(isTransient(new RateLimitError("throttled"))).toBe(true);
+    expect(isTransient(new UnavailableError("restarting"))).toBe(true);
+    expect(isTransient(new NetworkError("reset"))).toBe(true);
+    expect(isTransient(new TimeoutError("silent"))).toBe(false);
+    expect(isTransient(new Error("bug"))).toBe(false);
+  });
+
+  it("reports each retry and gives up after the last try", async () => {
+    const seen: RetryAttempt[] = [];
+    const stop = onRetry((retry) => seen.push(retry));
+    let tries = 0;
+
+    try {
+      const failing = withRetry(
+        "GET /myself",
+        async () => {
+          tries++;
+          throw new UnavailableError("restarting", 0);
+        },
+        { policy: FAST },
+      );
+      await expect(failing).rejects.toBeInstanceOf(UnavailableError);
+    } finally {
+      stop();
+    }
+
+    expect(tries).toBe(3);
+    expect(seen.map((r) => [r.label, r.attempt, r.attempts])).toEqual([
+      ["GET /myself", 2, 3],
+      ["GET /myself", 3, 3],
+    ]);
+  });
+
+  it("does not wait longer than the policy allows", async () => {
+    let tries = 0;
+    const failing = withRetry(
+      "GET /myself",
+      async () => {
+        tries++;
+        throw new RateLimitError("throttled", 60_000);
+      },
+      { policy: FAST },
+    );
+
+    await expect(failing).rejects.toBeInstanceOf(RateLimitError);
+    expect(tries).toBe(1);
+  });
+
+  it("does not retry an error again once an inner retry gave up on it", async () => {
+    let tries = 0;
+    const nested = withRetry(
+      "outer",
+      () =>
+        withRetry(
+          "inner",
+          async () => {
+            tries++;
+            throw new NetworkError("reset");
+          },
+          { policy: FAST },
+        ),
+      { policy: FAST },
+    );
+
+    await expect(nested).rejects.toBeInstanceOf(NetworkError);
+    expect(tries).toBe(3);
+  });
+});
+
+describe.each(["jira-cli", "rest"] as const)("retries against a busy Jira via %s", (backend) => {
+  let jira: MockJira;
+
+  beforeAll(async () => {
+    jira = await startMockJira(backend);
+  });
+
+  afterAll(() => jira.stop());
+
+  beforeEach(() => {
+    jira.issues.clear();
+    jira.requests.length = 0;
+    jira.failures.length = 0;
+    preferences.backend = backend;
+  });
+
+  it("retries reads", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+    jira.failNext("GET", "/issue/PROJ-1", 429, { retryAfter: "0" });
+    jira.failNext("GET", "/issue/PROJ-1", 503, { retryAfter: "0" });
+
+    expect((await getIssueDetails("PROJ-1")).status).toBe("Doing");
+    expect(jira.calls("GET", "/issue/PROJ-1")).toHaveLength(3);
+  });
+
+  it("retries a throttled transition", async () => {
+    jira.addIssue("PROJ-2", "Doing");
+    jira.failNext("POST", "/issue/PROJ-2/transitions", 429, { retryAfter: "0" });
+
+    await transitionIssue("PROJ-2", "Integration");
+
+    expect(jira.statusOf("PROJ-2")).toBe("Integration");
+    expect(jira.calls("POST", "/issue/PROJ-2/transitions")).toHaveLength(2);
+  });
+
+  it("does not repeat a transition that landed before the failure", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+    jira.failNext("POST", "/issue/PROJ-3/transitions", 504, {
+      retryAfter: "0",
+      onFail: () => (jira.issues.get("PROJ-3")!.fields.status = { name: "Integration" }),
+    });
+
+    await transitionIssue("PROJ-3", "Integration");
+
+    expect(jira.statusOf("PROJ-3")).toBe("Integration");
+    expect(jira.calls("POST", "/issue/PROJ-3/transitions")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { clearSetup, isSetupNeeded, restoreSetup, saveSetup, skipSetup } from "../src/setup";
+import {
+  autoAssignForStatus,
+  checkConnection,
+  getDefaultProject,
+  getProjects,
+  getRoleAssignee,
+  getRoleFieldIds,
+  getUserFields,
+} from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { FIELD, startMockJira } from "./support/fixtures";
+
+const OTHER_SERVER = "https://other.example.com";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("rest");
+  await restoreSetup();
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  await clearSetup(jira.url);
+  await clearSetup(OTHER_SERVER);
+  await clearJiraCache();
+});
+
+describe("saved setup", () => {
+  it("is offered until it is completed or skipped", async () => {
+    expect(isSetupNeeded(jira.url)).toBe(true);
+
+    await skipSetup(jira.url);
+
+    expect(isSetupNeeded(jira.url)).toBe(false);
+    expect(getDefaultProject()).toBe("PROJ");
+  });
+
+  it("applies over the preferences for its server", async () => {
+    await saveSetup(`${jira.url}/`, {
+      project: "OPS",
+      qaAssignee: "dev@example.com",
+      reviewerAssignee: "qa@example.com",
+    });
+
+    expect(getDefaultProject()).toBe("OPS");
+    expect(getRoleAssignee("qa")).toBe("dev@example.com");
+    expect(getRoleAssignee("reviewer")).toBe("qa@example.com");
+    expect(getRoleAssignee("developer")).toBe("dev@example.com");
+  });
+
+  it("is ignored while the preferences point at another server", async () => {
+    await saveSetup(OTHER_SERVER, { project: "OTHER" });
+
+    expect(getDefaultProject()).toBe("PROJ");
+    expect(isSetupNeeded(jira.url)).toBe(true);
+  });
+
+  it("maps role fields to the chosen field IDs", async () => {
+    await saveSetup(jira.url, { fieldOverrides: `Development Reviewer=${FIELD.developer}` });
+    jira.addIssue("PROJ-1", "Integration", { [FIELD.developer]: { name: "dev", displayName: "Dana Developer" } });
+
+    expect(await getRoleFieldIds()).toEqual({
+      QA: FIELD.qa,
+      "Development Reviewer": FIELD.developer,
+      Developer: FIELD.developer,
+    });
+    expect(await autoAssignForStatus("PROJ-1", "1ST REVIEW")).toEqual({
+      assigned: true,
+      displayName: "Dana Developer",
+    });
+  });
+});
+
+describe("setup lookups", () => {
+  it("lists projects and single-user fields", async () => {
+    expect(await getProjects()).toEqual([
+      { key: "OPS", name: "Operations" },
+      { key: "PROJ", name: "Project" },
+    ]);
+    expect(await getUserFields()).toEqual([
+      { id: FIELD.developer, name: "Developer" },
+      { id: FIELD.qa, name: "QA" },
+    ]);
+  });
+
+  it("reports a rejected token before asking anything", async () => {
+    preferences.jiraApiToken = "expired-token";
+
+    try {
+      expect((await checkConnection()).map((c) => [c.name, c.status])).toEqual([
+        ["Server", "ok"],
+        ["Token", "error"],
+      ]);
+    } finally {
+      preferences.jiraApiToken = jira.token;
+    }
+  });
+});
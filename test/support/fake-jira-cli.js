@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+// Stand-in for the jira-cli binary. Implements the subcommands the extension runs
+// (`issue view`, `issue list`, `issue move`, `open`, `version`) against the mock Jira server at
+// $FAKE_JIRA_URL, printing output and errors the way jira-cli does.
+
+const base = `${process.env.FAKE_JIRA_URL}/rest/api/2`;
+const headers = { Authorization: `Bearer ${process.env.JIRA_API_TOKEN}`, "Content-Type": "application/json" };
+
+async function api(method, path, body) {
+  const res = await fetch(`${base}${path}`, { method, headers, body: body ? JSON.stringify(body) : undefined });
+  const text = await res.text();
+  const json = text ? JSON.parse(text) : undefined;
+  if (!res.ok) {
+    const messages = [...(json?.errorMessages ?? []), ...Object.values(json?.errors ?? {})];
+    fail(`Error:\n  - ${messages.join("\n  - ")}`);
+  }
+  return json;
+}
+
+function fail(message) {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+function flag(args, name) {
+  const i = args.indexOf(name);
+  return i === -1 ? undefined : args[i + 1];
+}
+
+async function main(args) {
+  const [cmd, sub, ...rest] = args;
+
+  if (cmd === "open") return;
+
+  if (cmd === "version") {
+    process.stdout.write('(Version="1.5.1-fake", GitCommit="", GoVersion="go1.22", Compiler="gc", Platform="test")\n');
+    return;
+  }
+
+  if (cmd === "issue" && sub === "view") {
+    const issue = await api("GET", `/issue/${rest[0]}`);
+    process.stdout.write(JSON.stringify(issue));
+    return;
+  }
+
+  if (cmd === "issue" && sub === "list") {
+    const jql = flag(rest, "--jql");
+    const result = await api("GET", `/search?jql=${encodeURIComponent(jql ?? "")}`);
+    process.stdout.write(JSON.stringify(result.issues));
+    return;
+  }
+
+  if (cmd === "issue" && sub === "move") {
+    const [key, state] = rest;
+    const { transitions } = await api("GET", `/issue/${key}/transitions`);
+    const match = transitions.find((t) => t.name.toLowerCase() === state.toLowerCase());
+    if (!match) {
+      fail(
+        `✗ Invalid transition state "${state}"\nAvailable states for issue ${key}: ${transitions.map((t) => `'${t.name}'`).join(", ")}`,
+      );
+    }
+    await api("POST", `/issue/${key}/transitions`, { transition: { id: match.id } });
+    process.stdout.write(`✓ Issue transitioned to state "${match.to.name}"\n`);
+    return;
+  }
+
+  fail(`Error: unknown command "${args.join(" ")}"`);
+}
+
+main(process.argv.slice(2)).catch((e) => fail(`Error: ${e.message}`));
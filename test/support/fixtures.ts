@@ -0,0 +1,121 @@
+import { resolve } from "node:path";
+import { MockJira, type MockJiraOptions } from "./mock-jira";
+import { preferences } from "./raycast-api";
+
+export const FAKE_JIRA_CLI = resolve(__dirname, "fake-jira-cli.js");
+
+export const FIELD = {
+  devStartDate: "customfield_11516",
+  devDueDate: "customfield_10304",
+  plannedStart: "customfield_11520",
+  plannedDue: "customfield_11509",
+  developer: "customfield_20001",
+  qa: "customfield_20002",
+  testDate: "customfield_20003",
+  environment: "customfield_20004",
+  storyPoints: "customfield_20005",
+  watchers: "customfield_20006",
+};
+
+/**
+ * A slice of the built-in Task workflow with the awkward parts real instances have:
+ * a validator-only Dev Start Date, a required Developer screen field, "Back to" transitions
+ * and a "To Do" status the extension knows as Waiting.
+ */
+export function taskWorkflowFixture(): MockJiraOptions {
+  return {
+    workflow: {
+      Waiting: [
+        {
+          id: "11",
+          name: "Doing",
+          to: "Doing",
+          fields: { [FIELD.developer]: { name: "Developer", required: true, schema: { type: "user" } } },
+          validates: [FIELD.devStartDate],
+        },
+      ],
+      "TO DO": [{ id: "12", name: "Doing", to: "Doing" }],
+      Doing: [
+        { id: "21", name: "Integration", to: "Integration" },
+        { id: "22", name: "To Do", to: "TO DO" },
+      ],
+      Integration: [
+        { id: "31", name: "Back to Doing", to: "Doing" },
+        { id: "32", name: "1ST REVIEW", to: "1ST REVIEW" },
+      ],
+      "1ST REVIEW": [{ id: "41", name: "Testing", to: "Testing", validates: [FIELD.testDate, FIELD.qa] }],
+      Testing: [{ id: "51", name: "Done", to: "Done" }],
+    },
+    fields: [
+      { id: "summary", name: "Summary" },
+      { id: FIELD.devStartDate, name: "Dev Start Date", schema: { type: "date" } },
+      { id: FIELD.devDueDate, name: "Dev Due Date", schema: { type: "date" } },
+      { id: FIELD.plannedStart, name: "Planned Dev Start Date", schema: { type: "date" } },
+      { id: FIELD.plannedDue, name: "Planned Dev Due Date", schema: { type: "date" } },
+      { id: FIELD.developer, name: "Developer", schema: { type: "user" } },
+      { id: FIELD.qa, name: "QA", schema: { type: "user" } },
+      { id: FIELD.testDate, name: "Test Start Date", schema: { type: "date" } },
+      { id: FIELD.environment, name: "Environment", schema: { type: "option" } },
+      { id: FIELD.storyPoints, name: "Story Points", schema: { type: "number" } },
+      { id: FIELD.watchers, name: "Watchers", schema: { type: "array", items: "user" } },
+      { id: "labels", name: "Labels", schema: { type: "array", items: "string", system: "labels" } },
+    ],
+    editmeta: {
+      [FIELD.environment]: {
+        name: "Environment",
+        required: false,
+        schema: { type: "option" },
+        allowedValues: [
+          { id: "100", value: "Staging" },
+          { id: "101", value: "Production" },
+          { id: "102", value: "Legacy", disabled: true },
+        ],
+      },
+    },
+    users: [
+      { name: "dev", displayName: "Dana Developer", emailAddress: "dev@example.com" },
+      { name: "qa", displayName: "Quinn QA", emailAddress: "qa@example.com" },
+    ],
+    myself: { name: "me", displayName: "Morgan Me", emailAddress: "me@example.com" },
+    projects: [
+      { id: "10000", key: "PROJ", name: "Project" },
+      { id: "10001", key: "OPS", name: "Operations" },
+    ],
+  };
+}
+
+/**
+ * Start a mock Jira and point the extension preferences (and the fake jira-cli) at it.
+ */
+export async function startMockJira(
+  backend: "jira-cli" | "rest",
+  options: MockJiraOptions = taskWorkflowFixture(),
+): Promise<MockJira> {
+  const jira = new MockJira(options);
+  await jira.start();
+  process.env.FAKE_JIRA_URL = jira.url;
+
+  for (const key of Object.keys(preferences)) delete preferences[key];
+  Object.assign(preferences, {
+    backend,
+    jiraCliPath: FAKE_JIRA_CLI,
+    jiraProject: "PROJ",
+    jiraServer: jira.url,
+    jiraApiToken: jira.token,
+    authType: "bearer",
+    jiraEmail: "",
+    commonAssignees: "",
+    qaAssignee: "qa@example.com",
+    reviewerAssignee: "",
+    developerAssignee: "dev@example.com",
+    workflowConfigPath: "",
+    discoverWorkflows: false,
+    profilesConfigPath: "",
+    fieldOverrides: "",
+  });
+  return jira;
+}
+
+export function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
@@ -0,0 +1,341 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type {
+  JiraAllowedValue,
+  JiraFieldResponse,
+  JiraFieldSchema,
+  JiraIssueTypeStatuses,
+  JiraProjectResponse,
+  JiraUserResponse,
+} from "../../src/jira-client";
+
+// ─── Mock Jira Server ─────────────────────────────────────────────────────────
+//
+// In-memory stand-in for the parts of the Jira REST API v2 the extension uses.
+// Both the REST client and the fake jira-cli talk to it, so they share state.
+
+export interface MockFieldMeta {
+  name: string;
+  required: boolean;
+  schema?: JiraFieldSchema;
+  allowedValues?: JiraAllowedValue[];
+}
+
+export interface MockTransition {
+  id: string;
+  name: string;
+  to: string;
+  /** Transition screen fields, reported by GET transitions?expand=transitions.fields. */
+  fields?: Record<string, MockFieldMeta>;
+  /**
+   * Field IDs a workflow validator insists on without putting them on the screen.
+   * Missing ones fail with `"Name" custom field value must be set.` like real validators do.
+   */
+  validates?: string[];
+}
+
+export interface MockIssue {
+  key: string;
+  fields: Record<string, unknown>;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  authorization?: string;
+}
+
+export interface MockJiraOptions {
+  token?: string;
+  /** Transitions available from each status, by status name. */
+  workflow: Record<string, MockTransition[]>;
+  fields?: JiraFieldResponse[];
+  /** Fields on every issue's edit screen, reported by GET editmeta. */
+  editmeta?: Record<string, MockFieldMeta>;
+  users?: JiraUserResponse[];
+  myself?: JiraUserResponse;
+  projects?: JiraProjectResponse[];
+  /** Issue types and their statuses per project key, reported by GET /project/{key}/statuses. */
+  projectStatuses?: Record<string, JiraIssueTypeStatuses[]>;
+}
+
+/** A canned failure for the next matching requests, like a throttling or restarting Jira. */
+export interface MockFailure {
+  method: string;
+  path: string | RegExp;
+  status: number;
+  /** Sent as the Retry-After header. */
+  retryAfter?: string;
+  /** How many matching requests fail before they are handled again. */
+  times: number;
+  /** Runs as the failure is sent, e.g. to make a failed transition land anyway like behind a timing-out proxy. */
+  onFail?: () => void;
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  429: "Rate limit exceeded.",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+export class MockJira {
+  readonly issues = new Map<string, MockIssue>();
+  readonly requests: RecordedRequest[] = [];
+  readonly failures: MockFailure[] = [];
+  private server: Server | null = null;
+
+  constructor(readonly options: MockJiraOptions) {}
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error("MockJira is not running");
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  get token(): string {
+    return this.options.token ?? "test-token";
+  }
+
+  addIssue(key: string, status: string, fields: Record<string, unknown> = {}): MockIssue {
+    const issue: MockIssue = {
+      key,
+      fields: {
+        summary: `Summary of ${key}`,
+        status: { name: status },
+        issuetype: { name: "Task" },
+        priority: { name: "Medium" },
+        assignee: null,
+        ...fields,
+      },
+    };
+    this.issues.set(key, issue);
+    return issue;
+  }
+
+  statusOf(key: string): string {
+    return (this.issues.get(key)?.fields.status as { name: string }).name;
+  }
+
+  /** Fail the next `times` requests matching method and path with `status`. */
+  failNext(
+    method: string,
+    path: string | RegExp,
+    status: number,
+    options: Partial<Pick<MockFailure, "times" | "retryAfter" | "onFail">> = {},
+  ): void {
+    this.failures.push({ method, path, status, times: 1, ...options });
+  }
+
+  /** Requests matching method and path, in order. */
+  calls(method: string, path: string | RegExp): RecordedRequest[] {
+    return this.requests.filter(
+      (r) => r.method === method && (typeof path === "string" ? r.path === path : path.test(r.path)),
+    );
+  }
+
+  start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((e: unknown) => send(res, 500, { errorMessages: [String(e)] }));
+    });
+    return new Promise((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const text = await readBody(req);
+    const body = text ? JSON.parse(text) : undefined;
+    const path = url.pathname.replace(/^\/rest\/api\/2/, "");
+    this.requests.push({
+      method: req.method ?? "GET",
+      path,
+      query: Object.fromEntries(url.searchParams),
+      body,
+      authorization: req.headers.authorization,
+    });
+
+    if (req.headers.authorization !== `Bearer ${this.token}`) {
+      return send(res, 401, {
+        errorMessages: ["You are not authenticated. Authentication required to perform this operation."],
+      });
+    }
+
+    const failure = this.failures.find(
+      (f) =>
+        f.times > 0 && f.method === req.method && (typeof f.path === "string" ? f.path === path : f.path.test(path)),
+    );
+    if (failure) {
+      failure.times--;
+      failure.onFail?.();
+      const headers = failure.retryAfter === undefined ? {} : { "Retry-After": failure.retryAfter };
+      res.writeHead(failure.status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify({ errorMessages: [STATUS_MESSAGES[failure.status] ?? `HTTP ${failure.status}`] }));
+      return;
+    }
+
+    const route = `${req.method} ${path}`;
+    let m: RegExpMatchArray | null;
+
+    if ((m = route.match(/^GET \/issue\/([^/]+)$/))) {
+      return this.getIssue(res, m[1], url.searchParams.get("fields"), url.searchParams.get("expand"));
+    }
+    if ((m = route.match(/^GET \/issue\/([^/]+)\/transitions$/))) return this.getTransitions(res, m[1]);
+    if ((m = route.match(/^GET \/issue\/([^/]+)\/editmeta$/))) return this.getEditMeta(res, m[1]);
+    if ((m = route.match(/^POST \/issue\/([^/]+)\/transitions$/))) return this.doTransition(res, m[1], body);
+    if ((m = route.match(/^PUT \/issue\/([^/]+)$/))) return this.updateIssue(res, m[1], body);
+    if ((m = route.match(/^PUT \/issue\/([^/]+)\/assignee$/))) return this.assign(res, m[1], body);
+    if (route === "GET /serverInfo") {
+      return send(res, 200, { baseUrl: this.url, version: "9.12.0", deploymentType: "Server" });
+    }
+    if (route === "GET /project") return send(res, 200, this.options.projects ?? []);
+    if ((m = route.match(/^GET \/project\/([^/]+)\/statuses$/))) {
+      return send(res, 200, this.options.projectStatuses?.[m[1]] ?? []);
+    }
+    if (route === "GET /field") return send(res, 200, this.options.fields ?? []);
+    if (route === "GET /myself") return send(res, 200, this.options.myself ?? { name: "me", displayName: "Me" });
+    if (route === "GET /user/search") return this.searchUsers(res, url.searchParams);
+    if (route === "GET /search") return this.search(res, url.searchParams);
+
+    send(res, 404, { errorMessages: [`No mock for ${route}`] });
+  }
+
+  private issueOr404(res: ServerResponse, key: string): MockIssue | null {
+    const issue = this.issues.get(key);
+    if (!issue) send(res, 404, { errorMessages: ["Issue Does Not Exist"] });
+    return issue ?? null;
+  }
+
+  private availableTransitions(issue: MockIssue): MockTransition[] {
+    return this.options.workflow[(issue.fields.status as { name: string }).name] ?? [];
+  }
+
+  private getIssue(res: ServerResponse, key: string, fields: string | null, expand: string | null): void {
+    const issue = this.issueOr404(res, key);
+    if (!issue) return;
+    const picked = pickFields(issue.fields, fields);
+    if (!expand?.split(",").includes("names")) return send(res, 200, { key, fields: picked });
+
+    const names = Object.fromEntries(
+      (this.options.fields ?? []).filter((f) => f.id in picked).map((f) => [f.id, f.name] as const),
+    );
+    send(res, 200, { key, fields: picked, names });
+  }
+
+  private getTransitions(res: ServerResponse, key: string): void {
+    const issue = this.issueOr404(res, key);
+    if (!issue) return;
+    send(res, 200, {
+      transitions: this.availableTransitions(issue).map((t) => ({
+        id: t.id,
+        name: t.name,
+        to: { name: t.to },
+        fields: t.fields ?? {},
+      })),
+    });
+  }
+
+  private getEditMeta(res: ServerResponse, key: string): void {
+    if (!this.issueOr404(res, key)) return;
+    send(res, 200, { fields: this.options.editmeta ?? {} });
+  }
+
+  private doTransition(
+    res: ServerResponse,
+    key: string,
+    body: { transition?: { id?: string }; fields?: Record<string, unknown> },
+  ): void {
+    const issue = this.issueOr404(res, key);
+    if (!issue) return;
+    const transition = this.availableTransitions(issue).find((t) => t.id === body?.transition?.id);
+    if (!transition) {
+      return send(res, 400, {
+        errorMessages: [
+          `It seems that you have tried to perform a workflow operation (${body?.transition?.id}) that is not valid for the current state of this issue (${key}).`,
+        ],
+      });
+    }
+
+    const incoming = body.fields ?? {};
+    const isSet = (id: string) => incoming[id] != null || issue.fields[id] != null;
+
+    const errors: Record<string, string> = {};
+    for (const [id, meta] of Object.entries(transition.fields ?? {})) {
+      if (meta.required && !isSet(id)) errors[id] = `${meta.name} is required.`;
+    }
+    const errorMessages = (transition.validates ?? [])
+      .filter((id) => !isSet(id))
+      .map((id) => `"${this.fieldName(id)}" custom field value must be set.`);
+    if (errorMessages.length > 0 || Object.keys(errors).length > 0) {
+      return send(res, 400, { errorMessages, errors });
+    }
+
+    Object.assign(issue.fields, incoming, { status: { name: transition.to } });
+    send(res, 204);
+  }
+
+  private updateIssue(res: ServerResponse, key: string, body: { fields?: Record<string, unknown> }): void {
+    const issue = this.issueOr404(res, key);
+    if (!issue) return;
+    Object.assign(issue.fields, body?.fields ?? {});
+    send(res, 204);
+  }
+
+  private assign(res: ServerResponse, key: string, body: Record<string, unknown>): void {
+    const issue = this.issueOr404(res, key);
+    if (!issue) return;
+    const user = (this.options.users ?? []).find(
+      (u) => (body.name && u.name === body.name) || (body.accountId && u.accountId === body.accountId),
+    );
+    issue.fields.assignee = user ?? (body.name || body.accountId ? body : null);
+    send(res, 204);
+  }
+
+  private searchUsers(res: ServerResponse, params: URLSearchParams): void {
+    const term = (params.get("username") ?? params.get("query") ?? "").toLowerCase();
+    const users = (this.options.users ?? []).filter((u) =>
+      [u.name, u.emailAddress, u.displayName].some((v) => v?.toLowerCase().includes(term)),
+    );
+    send(res, 200, users);
+  }
+
+  /** Understands just enough JQL for tests: everything matches, `ORDER BY` is ignored. */
+  private search(res: ServerResponse, params: URLSearchParams): void {
+    const fields = params.get("fields");
+    const issues = [...this.issues.values()].map((i) => ({ key: i.key, fields: pickFields(i.fields, fields) }));
+    send(res, 200, { startAt: 0, maxResults: issues.length, total: issues.length, issues });
+  }
+
+  private fieldName(id: string): string {
+    return (this.options.fields ?? []).find((f) => f.id === id)?.name ?? id;
+  }
+}
+
+function pickFields(fields: Record<string, unknown>, wanted: string | null): Record<string, unknown> {
+  if (!wanted) return fields;
+  const names = wanted.split(",");
+  return Object.fromEntries(Object.entries(fields).filter(([k]) => names.includes(k)));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
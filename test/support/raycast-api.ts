@@ -0,0 +1,45 @@
+// Runtime stand-in for @raycast/api, which only exists inside Raycast.
+// vitest.config.ts aliases the package here; tests set `preferences` directly.
+
+export const preferences: Record<string, unknown> = {};
+
+export function getPreferenceValues<T>(): T {
+  return { ...preferences } as T;
+}
+
+const storage = new Map<string, string | number | boolean>();
+
+export const LocalStorage = {
+  async getItem<T extends string | number | boolean>(key: string): Promise<T | undefined> {
+    return storage.get(key) as T | undefined;
+  },
+  async setItem(key: string, value: string | number | boolean): Promise<void> {
+    storage.set(key, value);
+  },
+  async removeItem(key: string): Promise<void> {
+    storage.delete(key);
+  },
+  async allItems(): Promise<Record<string, string | number | boolean>> {
+    return Object.fromEntries(storage);
+  },
+  async clear(): Promise<void> {
+    storage.clear();
+  },
+};
+
+export const clipboard = { text: "" };
+
+export const Clipboard = {
+  async readText(): Promise<string | undefined> {
+    return clipboard.text;
+  },
+  async copy(text: string): Promise<void> {
+    clipboard.text = text;
+  },
+};
+
+export const opened: string[] = [];
+
+export async function open(target: string): Promise<void> {
+  opened.push(target);
+}
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { learnTransitions } from "../src/transition-planner";
+import { previewMove } from "../src/transition-preview";
+import { getIssueDetails, getWorkflowStep, type WorkflowStep } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { FIELD, startMockJira, taskWorkflowFixture, today } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  const fixture = taskWorkflowFixture();
+  fixture.workflow.Doing[0].fields = {
+    [FIELD.environment]: { name: "Environment", required: true, schema: { type: "option" } },
+  };
+  jira = await startMockJira("rest", fixture);
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  await clearJiraCache();
+});
+
+function steps(...statuses: string[]): WorkflowStep[] {
+  return statuses.map((s) => getWorkflowStep(s, "Task")!);
+}
+
+function writes() {
+  return jira.requests.filter((r) => r.method !== "GET");
+}
+
+describe("previewMove", () => {
+  it("shows each hop's transition and auto-fill without changing the issue", async () => {
+    jira.addIssue("PROJ-1", "Waiting");
+    jira.addIssue("PROJ-2", "Doing");
+    await learnTransitions(await getIssueDetails("PROJ-2"));
+
+    const preview = await previewMove(
+      await getIssueDetails("PROJ-1"),
+      steps("Doing", "Integration", "1ST REVIEW"),
+      false,
+      false,
+    );
+
+    expect(preview.beforeDone).toBeNull();
+    expect(preview.hops).toEqual([
+      {
+        from: "Waiting",
+        to: "Doing",
+        transition: "Doing",
+        source: "jira",
+        autoFilled: ["Developer → Dana Developer", `Dev Start Date → ${today()}`],
+        missing: [],
+        unavailable: [],
+        assignee: null,
+      },
+      {
+        from: "Doing",
+        to: "Integration",
+        transition: "Integration",
+        source: "learned",
+        autoFilled: [],
+        missing: [],
+        unavailable: [],
+        assignee: null,
+      },
+      expect.objectContaining({ from: "Integration", to: "1ST REVIEW", transition: null, source: "unknown" }),
+    ]);
+    expect(jira.statusOf("PROJ-1")).toBe("Waiting");
+    expect(writes()).toEqual([]);
+  });
+
+  it("lists required screen fields that nothing fills and the issue leaves empty", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+    jira.addIssue("PROJ-4", "Doing", { [FIELD.environment]: { id: "100", value: "Staging" } });
+
+    const [empty, set] = await Promise.all(
+      ["PROJ-3", "PROJ-4"].map(async (key) =>
+        previewMove(await getIssueDetails(key), steps("Integration"), false, false),
+      ),
+    );
+
+    expect(empty.hops[0].missing).toEqual(["Environment"]);
+    expect(set.hops[0].missing).toEqual([]);
+  });
+
+  it("shows who gets assigned and what is filled before Done", async () => {
+    jira.addIssue("PROJ-5", "1ST REVIEW", {
+      [FIELD.plannedStart]: "2026-01-05",
+      [FIELD.plannedDue]: "2026-01-09",
+    });
+
+    const preview = await previewMove(await getIssueDetails("PROJ-5"), steps("Testing", "Done"), true, true);
+
+    expect(preview.beforeDone).toEqual({
+      filled: ["Dev Start Date → 2026-01-05", "Dev Due Date → 2026-01-09"],
+      stillMissing: [],
+      unavailable: [],
+    });
+    expect(preview.hops.map((h) => h.assignee)).toEqual(["Quinn QA", null]);
+    expect(jira.issues.get("PROJ-5")!.fields[FIELD.devStartDate]).toBeUndefined();
+    expect(writes()).toEqual([]);
+  });
+});
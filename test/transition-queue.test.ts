@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { JiraError, NetworkError } from "../src/errors";
+import {
+  clearTransitionQueue,
+  describeReplay,
+  getQueuedTransitions,
+  queueIfOffline,
+  queueTransition,
+  replayQueuedTransition,
+  replayTransitionQueue,
+} from "../src/transition-queue";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { startMockJira } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("jira-cli");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  preferences.jiraServer = jira.url;
+  await clearTransitionQueue();
+  await clearJiraCache();
+});
+
+describe("queueing", () => {
+  it("queues moves that failed because Jira was unreachable, and nothing else", async () => {
+    const move = { ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false };
+
+    expect(await queueIfOffline(new JiraError("Transition failed"), move)).toBe(false);
+    expect(await queueIfOffline(new NetworkError("connect ECONNREFUSED"), move)).toBe(true);
+
+    expect(await getQueuedTransitions()).toMatchObject([
+      { ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["Integration"], server: jira.url, attempts: 0 },
+    ]);
+  });
+
+  it("keeps only the newest move per ticket", async () => {
+    await queueTransition({ ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false });
+    await queueTransition({ ticketKey: "PROJ-2", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false });
+    await queueTransition({ ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["TO DO"], fillDevDates: false });
+
+    expect((await getQueuedTransitions()).map((q) => [q.ticketKey, q.steps])).toEqual([
+      ["PROJ-2", ["Integration"]],
+      ["PROJ-1", ["TO DO"]],
+    ]);
+  });
+
+  it("keeps the same ticket's move queued against another server", async () => {
+    preferences.jiraServer = "https://other.example.com";
+    await queueTransition({ ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false });
+    preferences.jiraServer = jira.url;
+    await queueTransition({ ticketKey: "PROJ-1", fromStatus: "Doing", steps: ["TO DO"], fillDevDates: false });
+
+    expect((await getQueuedTransitions()).map((q) => [q.server, q.steps])).toEqual([
+      ["https://other.example.com", ["Integration"]],
+      [jira.url, ["TO DO"]],
+    ]);
+  });
+});
+
+describe("replay", () => {
+  it("applies the move from the queued status and leaves the queue", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+    const item = await queueTransition({
+      ticketKey: "PROJ-1",
+      fromStatus: "Doing",
+      steps: ["Integration", "1ST REVIEW"],
+      fillDevDates: false,
+    });
+
+    expect(await replayQueuedTransition(item)).toMatchObject({ kind: "applied", status: "1ST REVIEW" });
+    expect(jira.statusOf("PROJ-1")).toBe("1ST REVIEW");
+    expect(await getQueuedTransitions()).toEqual([]);
+  });
+
+  it("resumes a move that got part of the way", async () => {
+    jira.addIssue("PROJ-2", "Integration");
+    const item = await queueTransition({
+      ticketKey: "PROJ-2",
+      fromStatus: "Doing",
+      steps: ["Integration", "1ST REVIEW"],
+      fillDevDates: false,
+    });
+
+    expect(await replayQueuedTransition(item)).toMatchObject({ kind: "applied", status: "1ST REVIEW" });
+    expect(jira.calls("POST", "/issue/PROJ-2/transitions")).toHaveLength(1);
+    expect(jira.statusOf("PROJ-2")).toBe("1ST REVIEW");
+  });
+
+  it("re-assigns by role only for moves queued from the board", async () => {
+    jira.addIssue("PROJ-7", "1ST REVIEW");
+    jira.addIssue("PROJ-8", "1ST REVIEW");
+    const fromBoard = await queueTransition({
+      ticketKey: "PROJ-7",
+      fromStatus: "1ST REVIEW",
+      steps: ["Testing"],
+      fillDevDates: false,
+      autoAssign: true,
+    });
+    const fromCommand = await queueTransition({
+      ticketKey: "PROJ-8",
+      fromStatus: "1ST REVIEW",
+      steps: ["Testing"],
+      fillDevDates: false,
+    });
+
+    await replayQueuedTransition(fromBoard);
+    await replayQueuedTransition(fromCommand);
+
+    expect(jira.calls("PUT", "/issue/PROJ-7/assignee")[0].body).toEqual({ name: "qa" });
+    expect(jira.calls("PUT", "/issue/PROJ-8/assignee")).toEqual([]);
+    expect(jira.statusOf("PROJ-8")).toBe("Testing");
+  });
+
+  it("drops a move whose issue changed status since", async () => {
+    jira.addIssue("PROJ-3", "Testing");
+    const item = await queueTransition({
+      ticketKey: "PROJ-3",
+      fromStatus: "Doing",
+      steps: ["Integration"],
+      fillDevDates: false,
+    });
+
+    expect(await replayQueuedTransition(item)).toMatchObject({ kind: "stale", status: "Testing" });
+    expect(jira.statusOf("PROJ-3")).toBe("Testing");
+    expect(await getQueuedTransitions()).toEqual([]);
+  });
+
+  it("keeps a move Jira refuses, with the error", async () => {
+    jira.addIssue("PROJ-4", "Doing");
+    const item = await queueTransition({
+      ticketKey: "PROJ-4",
+      fromStatus: "Doing",
+      steps: ["Done"],
+      fillDevDates: false,
+    });
+
+    expect(await replayQueuedTransition(item)).toMatchObject({ kind: "failed" });
+    expect(await getQueuedTransitions()).toMatchObject([
+      { ticketKey: "PROJ-4", attempts: 1, lastError: expect.stringContaining("Done") },
+    ]);
+  });
+
+  it("replays only the current server's moves", async () => {
+    jira.addIssue("PROJ-5", "Doing");
+    jira.addIssue("PROJ-6", "Doing");
+    await queueTransition({ ticketKey: "PROJ-5", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false });
+    preferences.jiraServer = "https://other.example.com";
+    await queueTransition({ ticketKey: "PROJ-6", fromStatus: "Doing", steps: ["Integration"], fillDevDates: false });
+    preferences.jiraServer = jira.url;
+
+    const outcomes = await replayTransitionQueue();
+
+    expect(outcomes.map((o) => [o.kind, o.item.ticketKey])).toEqual([["applied", "PROJ-5"]]);
+    expect(describeReplay(outcomes)).toBe("1 replayed");
+    expect((await getQueuedTransitions()).map((q) => q.ticketKey)).toEqual(["PROJ-6"]);
+  });
+});
@@ -0,0 +1,322 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { MissingFieldsError, NoTransitionError } from "../src/errors";
+import { checkHop, learnTransitions, planTransitionPath } from "../src/transition-planner";
+import { getIssueDetails, parseMissingFieldsFromError, transitionIssue } from "../src/utils";
+import { validateWorkflowConfig, WorkflowConfigError } from "../src/workflow-config";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { FIELD, startMockJira, today } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  jira = await startMockJira("jira-cli");
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(() => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  preferences.backend = "jira-cli";
+});
+
+describe("transitionIssue via jira-cli", () => {
+  it("moves with the transition named after the target status", async () => {
+    jira.addIssue("PROJ-1", "Doing");
+
+    const result = await transitionIssue("PROJ-1", "Integration");
+
+    expect(jira.statusOf("PROJ-1")).toBe("Integration");
+    expect(result.autoFilled).toEqual([]);
+  });
+
+  it('picks a "Back to X" transition from the available states the CLI reports', async () => {
+    jira.addIssue("PROJ-2", "Integration");
+
+    await transitionIssue("PROJ-2", "Doing");
+
+    expect(jira.statusOf("PROJ-2")).toBe("Doing");
+    expect(jira.calls("POST", "/issue/PROJ-2/transitions").map((r) => r.body)).toEqual([{ transition: { id: "31" } }]);
+  });
+
+  it("falls back to status aliases (Waiting → TO DO)", async () => {
+    jira.addIssue("PROJ-3", "Doing");
+
+    await transitionIssue("PROJ-3", "Waiting");
+
+    expect(jira.statusOf("PROJ-3")).toBe("TO DO");
+  });
+
+  it("switches to REST and fills required fields when the CLI hits a validator", async () => {
+    jira.addIssue("PROJ-4", "Waiting");
+
+    const result = await transitionIssue("PROJ-4", "Doing");
+
+    const issue = jira.issues.get("PROJ-4")!;
+    expect(issue.fields.status).toEqual({ name: "Doing" });
+    expect(issue.fields[FIELD.devStartDate]).toBe(today());
+    expect(issue.fields[FIELD.developer]).toEqual({ name: "dev" });
+    expect(result.autoFilled).toEqual(["Developer → Dana Developer", `Dev Start Date → ${today()}`]);
+  });
+
+  it("retries with fields named in a REST validator error", async () => {
+    jira.addIssue("PROJ-5", "1ST REVIEW");
+
+    const result = await transitionIssue("PROJ-5", "Testing");
+
+    // jira-cli's attempt, the REST attempt, then the REST retry with the fields the validator named
+    const posts = jira.calls("POST", "/issue/PROJ-5/transitions");
+    expect(posts.map((r) => r.body)).toHaveLength(3);
+    expect(posts[1].body).toEqual({ transition: { id: "41" } });
+    expect(posts[2].body).toEqual({
+      transition: { id: "41" },
+      fields: { [FIELD.testDate]: today(), [FIELD.qa]: { name: "qa" } },
+    });
+    expect(jira.statusOf("PROJ-5")).toBe("Testing");
+    expect(result.autoFilled).toEqual([`Test Start Date → ${today()}`, "QA → Quinn QA"]);
+  });
+
+  it("fails with NoTransitionError when no transition leads to the target", async () => {
+    jira.addIssue("PROJ-6", "Doing");
+
+    const error = await transitionIssue("PROJ-6", "UAT").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NoTransitionError);
+    expect(error).toMatchObject({ issueKey: "PROJ-6", targetStatus: "UAT", available: ["Integration", "To Do"] });
+    expect(jira.statusOf("PROJ-6")).toBe("Doing");
+  });
+});
+
+describe("transitionIssue via REST only", () => {
+  beforeEach(() => {
+    preferences.backend = "rest";
+  });
+
+  it("auto-fills transition screen fields on the first attempt", async () => {
+    jira.addIssue("PROJ-10", "Waiting");
+
+    await transitionIssue("PROJ-10", "Doing");
+
+    const posts = jira.calls("POST", "/issue/PROJ-10/transitions");
+    expect(posts).toHaveLength(1);
+    expect(posts[0].body).toEqual({
+      transition: { id: "11" },
+      fields: { [FIELD.developer]: { name: "dev" }, [FIELD.devStartDate]: today() },
+    });
+    expect(jira.statusOf("PROJ-10")).toBe("Doing");
+  });
+
+  it("matches transitions by target status and by suffix", async () => {
+    jira.addIssue("PROJ-11", "Doing");
+    jira.addIssue("PROJ-12", "Integration");
+
+    await transitionIssue("PROJ-11", "TO DO");
+    await transitionIssue("PROJ-12", "Doing");
+
+    expect(jira.statusOf("PROJ-11")).toBe("TO DO");
+    expect(jira.statusOf("PROJ-12")).toBe("Doing");
+  });
+
+  it("reports the available transitions when none matches", async () => {
+    jira.addIssue("PROJ-13", "Testing");
+
+    const error = await transitionIssue("PROJ-13", "Doing").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NoTransitionError);
+    expect((error as Error).message).toBe('No matching transition to "Doing" for PROJ-13. Available: Done');
+  });
+
+  it("reports fields it could not fill as MissingFieldsError", async () => {
+    jira.options.workflow.Blocked = [{ id: "61", name: "Unblock", to: "Doing", validates: ["customfield_99999"] }];
+    jira.addIssue("PROJ-14", "Blocked");
+
+    const error = await transitionIssue("PROJ-14", "Doing").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MissingFieldsError);
+    expect((error as MissingFieldsError).fieldNames).toEqual(["customfield_99999"]);
+    expect(jira.calls("POST", "/issue/PROJ-14/transitions")).toHaveLength(2);
+    expect(jira.statusOf("PROJ-14")).toBe("Blocked");
+  });
+});
+
+describe("auto-fill rules from the workflow config", () => {
+  const workflows = [{ name: "Task", default: true, steps: ["Waiting", "Doing", "Done"] }];
+
+  beforeEach(() => {
+    preferences.backend = "rest";
+  });
+
+  afterEach(() => {
+    preferences.workflowConfigPath = "";
+  });
+
+  function useConfig(config: unknown): void {
+    const path = join(mkdtempSync(join(tmpdir(), "jira-rules-")), "workflows.json");
+    writeFileSync(path, JSON.stringify(config));
+    preferences.workflowConfigPath = path;
+  }
+
+  it("replaces the built-in rules", async () => {
+    useConfig({
+      workflows,
+      autoFill: [
+        { field: "Developer", value: { constant: "qa" } },
+        { field: "Dev Start Date", when: ["always"], issueTypes: ["Task"], value: { field: "Planned Dev Start Date" } },
+        { field: "Dev Due Date", when: ["always"], issueTypes: ["Bug"], value: "today" },
+      ],
+    });
+    jira.addIssue("PROJ-20", "Waiting", { [FIELD.plannedStart]: "2026-04-01" });
+
+    const result = await transitionIssue("PROJ-20", "Doing");
+
+    expect(jira.calls("POST", "/issue/PROJ-20/transitions")[0].body).toEqual({
+      transition: { id: "11" },
+      fields: { [FIELD.developer]: { name: "qa" }, [FIELD.devStartDate]: "2026-04-01" },
+    });
+    expect(result.autoFilled).toEqual(["Developer → qa", "Dev Start Date → 2026-04-01"]);
+  });
+
+  it("reports every invalid rule", () => {
+    const error = (() => {
+      try {
+        return validateWorkflowConfig(
+          {
+            workflows,
+            autoFill: [
+              { field: "/date/", when: ["always"], value: "today" },
+              { field: "Developer", when: ["later"], value: "currentUser" },
+              { field: "Developer", value: { preference: "jiraApiToken" } },
+            ],
+          },
+          "workflows.json",
+        );
+      } catch (e: unknown) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(WorkflowConfigError);
+    expect((error as WorkflowConfigError).problems).toEqual([
+      'autoFill[0].field: "always" and "preflight" rules need an exact field name or ID',
+      "autoFill[1].when: must be a list of screen, rejected, always, preflight",
+      "autoFill[2].value: expected today, currentUser, { preference: developerAssignee | reviewerAssignee | qaAssignee }, { field: <name> } or { constant: <value> }",
+    ]);
+  });
+});
+
+// Learned graphs are kept per project for the whole run, so each case below uses its own project key.
+describe("planTransitionPath", () => {
+  let workflow: typeof jira.options.workflow;
+
+  beforeEach(async () => {
+    workflow = jira.options.workflow;
+    jira.options.workflow = { ...workflow };
+    await clearJiraCache();
+  });
+
+  afterEach(() => {
+    jira.options.workflow = workflow;
+  });
+
+  async function plan(key: string, target: string) {
+    const route = await planTransitionPath(await getIssueDetails(key), target);
+    return route && { steps: route.steps.map((s) => s.status), source: route.source };
+  }
+
+  it("takes a direct transition that skips linear steps", async () => {
+    jira.addIssue("SKIP-1", "Testing");
+
+    expect(await plan("SKIP-1", "Done")).toEqual({ steps: ["Done"], source: "graph" });
+  });
+
+  it("takes the detour Jira requires", async () => {
+    jira.options.workflow.Testing = [{ id: "52", name: "Put On Hold", to: "On Hold" }];
+    jira.options.workflow["On Hold"] = [{ id: "71", name: "Resume", to: "Doing" }];
+    jira.addIssue("DETOUR-1", "Testing");
+    jira.addIssue("DETOUR-2", "On Hold");
+    await learnTransitions(await getIssueDetails("DETOUR-2"));
+
+    expect(await plan("DETOUR-1", "Doing")).toEqual({ steps: ["On Hold", "Doing"], source: "graph" });
+  });
+
+  it("falls back to the linear workflow past the statuses it has seen", async () => {
+    jira.addIssue("LINEAR-1", "Doing");
+
+    expect(await plan("LINEAR-1", "Testing")).toEqual({
+      steps: ["Integration", "1ST REVIEW", "Testing"],
+      source: "graph",
+    });
+    expect(jira.calls("GET", "/issue/LINEAR-1/transitions")).toHaveLength(1);
+  });
+
+  it("returns null when nothing connects the two statuses", async () => {
+    jira.addIssue("NONE-1", "Parked");
+
+    expect(await plan("NONE-1", "Done")).toBeNull();
+  });
+});
+
+describe("checkHop", () => {
+  beforeEach(async () => {
+    await clearJiraCache();
+  });
+
+  it("stays on track when the issue landed where the hop aimed", async () => {
+    jira.addIssue("HOP-1", "Integration");
+
+    expect(await checkHop("HOP-1", "Integration", "Testing", 0)).toMatchObject({ kind: "on-track" });
+  });
+
+  it("arrives when the issue landed on the final target instead", async () => {
+    jira.addIssue("HOP-2", "Testing");
+
+    expect(await checkHop("HOP-2", "1ST REVIEW", "Testing", 0)).toMatchObject({ kind: "arrived" });
+  });
+
+  it("re-plans from where the issue landed", async () => {
+    jira.addIssue("HOP-3", "Integration");
+
+    const outcome = await checkHop("HOP-3", "Doing", "Testing", 0);
+
+    expect(outcome.kind).toBe("replanned");
+    expect(outcome.kind === "replanned" && outcome.route.steps.map((s) => s.status)).toEqual(["1ST REVIEW", "Testing"]);
+  });
+
+  it("is stuck when no route leads on from where the issue landed", async () => {
+    jira.addIssue("HOP-4", "Parked");
+
+    expect(await checkHop("HOP-4", "Doing", "Testing", 0)).toMatchObject({
+      kind: "stuck",
+      reason: 'Jira moved HOP-4 to "Parked" instead of "Doing", and no route from "Parked" to "Testing" is known.',
+    });
+  });
+
+  it("stops re-planning after three re-plans", async () => {
+    jira.addIssue("HOP-5", "Integration");
+
+    expect(await checkHop("HOP-5", "Doing", "Testing", 2)).toMatchObject({ kind: "replanned" });
+    expect(await checkHop("HOP-5", "Doing", "Testing", 3)).toMatchObject({
+      kind: "stuck",
+      reason: expect.stringContaining("already been re-planned 3 times"),
+    });
+  });
+});
+
+describe("parseMissingFieldsFromError", () => {
+  it("splits the fields jira-cli asks for", () => {
+    expect(parseMissingFieldsFromError("Please fill in Dev Start Date, Developer and QA before moving.")).toEqual([
+      "Dev Start Date",
+      "Developer",
+      "QA",
+    ]);
+  });
+
+  it("returns nothing for unrelated errors", () => {
+    expect(parseMissingFieldsFromError("Issue does not exist")).toEqual([]);
+  });
+});
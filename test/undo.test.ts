@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { clearJiraCache } from "../src/cache";
+import { getLastMove, undoMove } from "../src/undo";
+import { clearUndoLog } from "../src/undo-log";
+import { clearHistory, getHistory } from "../src/history";
+import { autoAssignForStatus, autoFillBeforeDone, transitionIssue, withIssueSnapshots } from "../src/utils";
+import type { MockJira } from "./support/mock-jira";
+import { preferences } from "./support/raycast-api";
+import { FIELD, startMockJira, taskWorkflowFixture, today } from "./support/fixtures";
+
+let jira: MockJira;
+
+beforeAll(async () => {
+  const fixture = taskWorkflowFixture();
+  fixture.workflow["1ST REVIEW"].push({ id: "42", name: "Back to Integration", to: "Integration" });
+  jira = await startMockJira("rest", fixture);
+});
+
+afterAll(() => jira.stop());
+
+beforeEach(async () => {
+  jira.issues.clear();
+  jira.requests.length = 0;
+  preferences.reviewerAssignee = "";
+  await clearUndoLog();
+  await clearHistory();
+  await clearJiraCache();
+});
+
+describe("undo journal", () => {
+  it("records a chained run as one move, with the fields it set and the assignee it replaced", async () => {
+    jira.addIssue("PROJ-1", "Waiting");
+    preferences.reviewerAssignee = "dev@example.com";
+
+    await withIssueSnapshots(async () => {
+      for (const status of ["Doing", "Integration", "1ST REVIEW"]) await transitionIssue("PROJ-1", status);
+      await autoAssignForStatus("PROJ-1", "1ST REVIEW");
+    });
+
+    expect(await getLastMove("PROJ-1")).toMatchObject({
+      ticketKey: "PROJ-1",
+      server: jira.url,
+      fromStatus: "Waiting",
+      toStatus: "1ST REVIEW",
+      previousAssignee: null,
+      fields: [
+        { id: FIELD.devStartDate, name: "Dev Start Date", previous: null },
+        { id: FIELD.developer, name: "Developer", previous: null },
+      ],
+    });
+  });
+
+  it("does not record a transition that failed", async () => {
+    jira.addIssue("PROJ-2", "Doing");
+
+    await expect(transitionIssue("PROJ-2", "Done")).rejects.toThrow();
+
+    expect(await getLastMove("PROJ-2")).toBeNull();
+  });
+});
+
+describe("undoMove", () => {
+  it("walks the ticket back and restores its assignee and fields", async () => {
+    jira.addIssue("PROJ-3", "Waiting");
+    preferences.reviewerAssignee = "dev@example.com";
+    await withIssueSnapshots(async () => {
+      for (const status of ["Doing", "Integration", "1ST REVIEW"]) await transitionIssue("PROJ-3", status);
+      await autoAssignForStatus("PROJ-3", "1ST REVIEW");
+    });
+    expect(jira.issues.get("PROJ-3")!.fields[FIELD.devStartDate]).toBe(today());
+
+    const result = await undoMove((await getLastMove("PROJ-3"))!);
+
+    const issue = jira.issues.get("PROJ-3")!;
+    expect(result).toMatchObject({ assignee: "Unassigned", restoredFields: ["Dev Start Date", "Developer"] });
+    expect(jira.statusOf("PROJ-3")).toBe("TO DO");
+    expect(issue.fields.assignee).toBeNull();
+    expect(issue.fields[FIELD.developer]).toBeNull();
+    expect(issue.fields[FIELD.devStartDate]).toBeNull();
+    expect(await getLastMove("PROJ-3")).toBeNull();
+  });
+
+  it("puts back dev dates filled from the planned dates before the move, and logs the rollback", async () => {
+    jira.addIssue("PROJ-5", "Integration", {
+      [FIELD.devStartDate]: "2026-03-01",
+      [FIELD.plannedStart]: "2026-03-02",
+      [FIELD.plannedDue]: "2026-03-20",
+    });
+    await withIssueSnapshots(async () => {
+      await autoFillBeforeDone("PROJ-5", "Done");
+      await transitionIssue("PROJ-5", "1ST REVIEW");
+    });
+
+    expect(await getLastMove("PROJ-5")).toMatchObject({
+      fromStatus: "Integration",
+      toStatus: "1ST REVIEW",
+      fields: [{ id: FIELD.devDueDate, name: "Dev Due Date", previous: null }],
+    });
+
+    await undoMove((await getLastMove("PROJ-5"))!);
+
+    const issue = jira.issues.get("PROJ-5")!;
+    expect(jira.statusOf("PROJ-5")).toBe("Integration");
+    expect(issue.fields[FIELD.devStartDate]).toBe("2026-03-01");
+    expect(issue.fields[FIELD.devDueDate]).toBeNull();
+    expect((await getHistory()).at(-1)).toMatchObject({
+      ticketKey: "PROJ-5",
+      kind: "fields",
+      fields: ["Dev Due Date → empty"],
+      ok: true,
+    });
+  });
+
+  it("leaves the assignee alone when the move did not change it, and undoes what the way back fills", async () => {
+    const dana = { name: "dev", displayName: "Dana Developer" };
+    jira.addIssue("PROJ-4", "Doing", { assignee: dana });
+    await transitionIssue("PROJ-4", "Integration");
+
+    const result = await undoMove((await getLastMove("PROJ-4"))!);
+
+    const issue = jira.issues.get("PROJ-4")!;
+    expect(result).toEqual({ status: "Doing", restoredFields: ["Dev Start Date"] });
+    expect(jira.calls("POST", "/issue/PROJ-4/transitions").map((r) => r.body)).toEqual([
+      { transition: { id: "21" } },
+      { transition: { id: "31" }, fields: { [FIELD.devStartDate]: today() } },
+    ]);
+    expect(issue.fields[FIELD.devStartDate]).toBeNull();
+    expect(jira.calls("PUT", "/issue/PROJ-4/assignee")).toEqual([]);
+    expect(issue.fields.assignee).toEqual(dana);
+  });
+});